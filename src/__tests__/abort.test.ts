@@ -0,0 +1,74 @@
+import { diff, streamDiff } from '../core.js';
+import { DiffWorkerPool } from '../utils.js';
+
+const WORKER = new URL('./fixtures/pool-worker.mjs', import.meta.url);
+
+describe('abort signal', () => {
+  it('throws the reason of an aborted signal', () => {
+    const controller = new AbortController();
+    controller.abort(new Error('client went away'));
+
+    expect(() => diff('a', 'b', { signal: controller.signal })).toThrow('client went away');
+  });
+
+  it('runs normally while the signal is not aborted', () => {
+    const controller = new AbortController();
+
+    expect(diff('a\nb', 'a\nc', { signal: controller.signal }).stats).toMatchObject({ unchanged: 1 });
+  });
+
+  it('stops a stream between chunks', async () => {
+    const controller = new AbortController();
+    const text = Array.from({ length: 200 }, (_, k) => `line ${k}`).join('\n');
+    const chunks: number[] = [];
+
+    await expect((async () => {
+      for await (const event of streamDiff(text, text.replace('line 5', 'line five'), { signal: controller.signal }, 100)) {
+        chunks.push(event.progress);
+        controller.abort(new Error('stop'));
+      }
+    })()).rejects.toThrow('stop');
+    expect(chunks).toHaveLength(1);
+  });
+});
+
+describe('DiffWorkerPool abort', () => {
+  let pool: DiffWorkerPool;
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('rejects straight away when the signal is already aborted', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+    const controller = new AbortController();
+    controller.abort(new Error('gone'));
+
+    await expect(pool.runDiff('a', 'a', { signal: controller.signal })).rejects.toThrow('gone');
+    expect(pool.getStats()).toMatchObject({ aborted: 1, busy: 0, queued: 0 });
+  });
+
+  it('terminates the worker of a running job and keeps serving', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+    const controller = new AbortController();
+    const running = pool.runDiff('hang', '', { signal: controller.signal });
+    const queued = pool.runDiff('b', 'b', {});
+    controller.abort(new Error('gone'));
+
+    await expect(running).rejects.toThrow('gone');
+    await expect(queued).resolves.toMatchObject({ changes: [{ original: 'b' }] });
+    expect(pool.getStats()).toMatchObject({ aborted: 1, timedOut: 0 });
+  });
+
+  it('removes an aborted job from the queue', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+    const controller = new AbortController();
+    const running = pool.runDiff('slow', '', {});
+    const queued = pool.runDiff('a', 'a', { signal: controller.signal });
+    controller.abort(new Error('gone'));
+
+    await expect(queued).rejects.toThrow('gone');
+    expect(pool.getStats().queued).toBe(0);
+    await running;
+  });
+});
@@ -0,0 +1,49 @@
+import { diff } from '../core.js';
+import type { DiffAlgorithm, DiffOptions } from '../core.js';
+import { rebuild } from './helpers.js';
+
+const FUNCTIONS = ['void f() {', '  x();', '}', '', 'void g() {', '  y();', '}'].join('\n');
+const SWAPPED = ['void g() {', '  y();', '}', '', 'void f() {', '  x();', '}'].join('\n');
+
+describe.each<DiffAlgorithm>(['myers', 'patience', 'histogram'])('%s', algorithm => {
+  it.each<[DiffOptions['granularity'], string, string]>([
+    ['line', FUNCTIONS, SWAPPED],
+    ['line', '', 'a\nb\n'],
+    ['line', 'a\nb\nc', ''],
+    ['line', 'x\nx\ny\nx\n', 'x\ny\nx\nx\ny'],
+    ['line', '}\n}\n}\n', '}\n}\n'],
+    ['word', 'the quick brown fox jumps over the lazy dog', 'the quick red fox leaps over a lazy dog today'],
+    ['character', 'kitten sitting', 'sitting kitten'],
+  ])('reconstructs both inputs at %s granularity (case %#)', (granularity, original, modified) => {
+    const result = diff(original, modified, { algorithm, granularity });
+
+    expect(rebuild(result.changes, 'original', granularity)).toBe(original);
+    expect(rebuild(result.changes, 'modified', granularity)).toBe(modified);
+  });
+
+  it('reports an insertion between repeated blocks as one addition', () => {
+    const result = diff('a\nb\nc\na\nb\nc', 'a\nb\nc\nX\na\nb\nc', { algorithm });
+
+    expect(result.stats).toMatchObject({ added: 1, removed: 0, unchanged: 6 });
+  });
+});
+
+describe('algorithm option', () => {
+  it('anchors patience diffs on lines that occur once on each side', () => {
+    const result = diff(FUNCTIONS, SWAPPED, { algorithm: 'patience' });
+    const unchanged = result.changes.filter(change => change.type === 'unchanged').map(change => change.original);
+
+    // A whole function stays aligned instead of a stray closing brace
+    expect(unchanged).toEqual(expect.arrayContaining(['void f() {', '  x();']));
+  });
+
+  it('aligns histogram diffs on the rarest common line', () => {
+    const result = diff('x\nx\nunique\nx', 'x\nunique\nx\nx', { algorithm: 'histogram' });
+
+    expect(result.changes.find(change => change.original === 'unique')?.type).toBe('unchanged');
+  });
+
+  it('rejects unknown algorithms', () => {
+    expect(() => diff('a', 'b', { algorithm: 'bogus' as DiffAlgorithm })).toThrow('Unknown diff algorithm: bogus');
+  });
+});
@@ -0,0 +1,77 @@
+import { diff, streamDiff } from '../core.js';
+import type { DiffAlgorithm } from '../core.js';
+import { rebuild } from './helpers.js';
+
+const words = (seed: number, count: number) =>
+  Array.from({ length: count }, (_, k) => `w${(k * seed) % 97}`).join('\n');
+
+const ORIGINAL = words(7, 400);
+const MODIFIED = words(13, 400);
+
+describe('budgets', () => {
+  it.each<DiffAlgorithm>(['myers', 'patience', 'histogram'])(
+    'falls back to plain removals and additions once the edit cost runs out (%s)',
+    algorithm => {
+      const result = diff(ORIGINAL, MODIFIED, { algorithm, maxEditCost: 10 });
+
+      expect(result.approximate).toBe(true);
+      expect(result.approximateReason).toBe('maxEditCost');
+      expect(result.stats).toMatchObject({ modified: 0, moved: 0 });
+      expect(rebuild(result.changes, 'original')).toBe(ORIGINAL);
+      expect(rebuild(result.changes, 'modified')).toBe(MODIFIED);
+    }
+  );
+
+  it('is exact when the budget suffices', () => {
+    const result = diff(words(7, 50), words(13, 50), { maxEditCost: 1_000_000, timeoutMs: 60_000 });
+
+    expect(result.approximate).toBeUndefined();
+    expect(result.approximateReason).toBeUndefined();
+  });
+
+  it('keeps the matches found before the budget ran out', () => {
+    const shared = Array.from({ length: 50 }, (_, k) => `shared ${k}`).join('\n');
+    const result = diff(`${shared}\n${ORIGINAL}`, `${shared}\n${MODIFIED}`, { maxEditCost: 10 });
+
+    expect(result.approximate).toBe(true);
+    expect(result.changes.slice(0, 50).every(change => change.type === 'unchanged')).toBe(true);
+  });
+
+  it('stops at the deadline', () => {
+    // Every clock reading advances time by 10ms
+    const realNow = Date.now;
+    let now = 0;
+    Date.now = () => (now += 10);
+    let result;
+    try {
+      result = diff(ORIGINAL, MODIFIED, { timeoutMs: 100 });
+    } finally {
+      Date.now = realNow;
+    }
+
+    expect(result.approximate).toBe(true);
+    expect(result.approximateReason).toBe('timeout');
+    expect(rebuild(result.changes, 'modified')).toBe(MODIFIED);
+  });
+
+  it('does not pair or move lines once the budget is spent', () => {
+    const block = ['a block of text that moves', 'and a second line of it'];
+    const original = [...block, 'the cat sat on the mat', ORIGINAL].join('\n');
+    const modified = [MODIFIED, 'the cat sat on a mat', ...block].join('\n');
+
+    const exact = diff(original, modified);
+    const result = diff(original, modified, { maxEditCost: 10 });
+
+    expect(exact.stats.moved).toBeGreaterThan(0);
+    expect(result.stats).toMatchObject({ modified: 0, moved: 0 });
+  });
+
+  it('marks stream events once the budget is spent', async () => {
+    const events = [];
+    for await (const event of streamDiff(ORIGINAL, MODIFIED, { maxEditCost: 10 }, 100)) {
+      events.push(event);
+    }
+
+    expect(events[events.length - 1]).toMatchObject({ approximate: true, approximateReason: 'maxEditCost', complete: true });
+  });
+});
@@ -0,0 +1,67 @@
+import { diff } from '../core.js';
+import type { ChangeCategory, DiffOptions } from '../core.js';
+
+function categoryOf(original: string, modified: string, options: DiffOptions = {}): ChangeCategory | undefined {
+  const result = diff(`keep\n${original}\nkeep`, `keep\n${modified}\nkeep`, { similarityThreshold: 0, ...options });
+  return result.changes.find(change => change.type === 'modified')?.category;
+}
+
+describe('change categories', () => {
+  it.each<[ChangeCategory, string, string]>([
+    ['whitespace', 'a  b', 'a b'],
+    ['case', 'Hello world', 'hello World'],
+    ['punctuation', 'Hello, world', 'Hello world!'],
+    ['number', 'Total: 3.50 EUR', 'Total: 4.75 EUR'],
+    ['typo', 'teh quick brwon fox', 'the quick brown fox'],
+    ['typo', 'recieve the package', 'receive the package'],
+    ['reorder', 'red green blue', 'blue green red'],
+    ['rephrase', 'the fee is refundable today', 'the fee is returnable today'],
+    ['rewrite', 'the fee is refundable', 'the fee is not refundable'],
+    ['rewrite', 'completely different words', 'nothing alike here at all'],
+  ])('classifies a %s change', (category, original, modified) => {
+    expect(categoryOf(original, modified)).toBe(category);
+  });
+
+  it('allows two edits only in words over four letters', () => {
+    expect(categoryOf('the cat sat', 'the dog sat')).not.toBe('typo');
+    expect(categoryOf('colour choice', 'color choise')).toBe('typo');
+    expect(categoryOf('kitten here', 'sitting here')).not.toBe('typo');
+  });
+
+  it('never treats long tokens that differ as typos', () => {
+    const hash = 'a'.repeat(40) + 'b'.repeat(40);
+
+    expect(categoryOf(`commit ${hash}`, `commit ${hash.slice(0, -1)}c`)).not.toBe('typo');
+  });
+
+  it('categorizes long words of very different length quickly', () => {
+    const start = Date.now();
+    const word = 'x'.repeat(60);
+    for (let k = 0; k < 200; k++) {
+      categoryOf(`${word} ${k}`, `${word.slice(0, 30)} ${k}`);
+    }
+
+    expect(Date.now() - start).toBeLessThan(2000);
+  });
+
+  it('categorizes added, removed and moved changes', () => {
+    const result = diff('a\n\nb\n42\n', 'a\nb\n!!\nnew text here\n');
+    const categories = Object.fromEntries(result.changes.filter(change => change.type !== 'unchanged')
+      .map(change => [change.original ?? change.modified, change.category]));
+
+    expect(categories).toMatchObject({ '': 'whitespace', '!!': 'punctuation', 'new text here': 'rewrite' });
+
+    const block = ['First line of the block', 'Second line of the block'];
+    const moved = diff(['top', ...block, 'bottom'].join('\n'), ['top', 'bottom', ...block].join('\n'));
+
+    expect(moved.changes.filter(change => change.type === 'moved').every(change => change.category === 'reorder')).toBe(true);
+  });
+
+  it('leaves changes uncategorized once the budget is spent', () => {
+    const lines = (label: string) => Array.from({ length: 200 }, (_, k) => `${label} ${k * 7919 % 200}`).join('\n');
+    const result = diff(lines('a'), lines('b'), { maxEditCost: 10 });
+
+    expect(result.approximate).toBe(true);
+    expect(result.changes.some(change => change.type !== 'unchanged' && change.category === undefined)).toBe(true);
+  });
+});
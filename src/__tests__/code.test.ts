@@ -0,0 +1,105 @@
+import { detectLanguage, diff } from '../core.js';
+import type { CodeLanguage, DiffOptions } from '../core.js';
+import { rebuild } from './helpers.js';
+
+const code = (original: string, modified: string, options: DiffOptions = {}) =>
+  diff(original, modified, { granularity: 'code', ...options });
+
+const changed = (original: string, modified: string, options: DiffOptions = {}) =>
+  code(original, modified, options).changes
+    .filter(change => change.type !== 'unchanged')
+    .map(change => [change.type, change.original, change.modified, change.tokenKind]);
+
+const tokens = (text: string, language: CodeLanguage = 'javascript') =>
+  code(text, text, { language }).changes.map(change => [change.original, change.tokenKind]);
+
+describe('code granularity', () => {
+  it('compares identifiers, keywords and punctuation as separate tokens', () => {
+    expect(changed('foo.bar(baz);', 'foo.bar(qux);')).toEqual([['modified', 'baz', 'qux', 'identifier']]);
+    expect(tokens('const x = 1;').map(([, kind]) => kind)).toEqual([
+      'keyword', 'whitespace', 'identifier', 'whitespace', 'punctuation', 'whitespace', 'number', 'punctuation',
+    ]);
+  });
+
+  it.each<[CodeLanguage, string]>([
+    ['javascript', 'const s = `a ${b}` + "c\\"d"; // note\n/* block */ let re = /x/g;'],
+    ['typescript', 'type T = { a?: number } satisfies U;'],
+    ['python', 'def f(x):\n    """doc"""\n    return f"{x}" # done'],
+    ['json', '{"a": [1, 2.5e3, true, null]} // jsonc'],
+    ['shell', 'echo "$HOME" ${PATH} # comment\nls -la #not-a-comment'],
+  ])('covers %s input exactly', (language, text) => {
+    const result = code(text, text.replace(/\w+$/, 'changed'), { language });
+
+    expect(rebuild(result.changes, 'original', 'code')).toBe(text);
+  });
+
+  it('reads shell comments only at the start of a word', () => {
+    expect(tokens('a#b #c', 'shell').filter(([, kind]) => kind === 'comment')).toEqual([['#c', 'comment']]);
+  });
+
+  describe('regular expression literals', () => {
+    it('lexes a regex containing quotes as one token', () => {
+      expect(tokens('const re = /ab"c/; x = "y";')).toEqual(expect.arrayContaining([
+        ['/ab"c/', 'regex'],
+        ['"y"', 'string'],
+      ]));
+    });
+
+    it('keeps flags, classes and escapes inside the literal', () => {
+      expect(tokens('s.replace(/[/\\]]+\\/x/gu, "")', 'typescript')).toEqual(expect.arrayContaining([
+        ['/[/\\]]+\\/x/gu', 'regex'],
+      ]));
+    });
+
+    it.each([
+      ['a / b / c', 'an identifier'],
+      ['f(x) / 2 / 3', 'a closing parenthesis'],
+      ['items[0] / 2 / 3', 'a closing bracket'],
+      ['10 / 2 / 5', 'a number'],
+      ['this / 2 / 3', 'this'],
+    ])('reads %j as division after %s', text => {
+      expect(tokens(text).filter(([, kind]) => kind === 'regex')).toEqual([]);
+    });
+
+    it.each([
+      ['return /x/.test(s);', 'a keyword'],
+      ['f(/x/.source);', 'an opening parenthesis'],
+      ['f(a, /x/);', 'a comma'],
+      ['x = // note\n  /y/;', 'an operator and a comment'],
+    ])('reads %j as a regex after %s', text => {
+      expect(tokens(text).filter(([, kind]) => kind === 'regex')).toHaveLength(1);
+    });
+
+    it('reports a changed regex as one token', () => {
+      expect(changed('s.match(/a+b/g)', 's.match(/a*b/g)')).toEqual([['modified', '/a+b/g', '/a*b/g', 'regex']]);
+    });
+
+    it('leaves python division alone', () => {
+      expect(tokens('x = a / "b" / c', 'python').filter(([, kind]) => kind === 'regex')).toEqual([]);
+    });
+  });
+
+  it('ignores comments and the blank lines they leave', () => {
+    const original = 'let a = 1; // one\n\n/* two */\nlet b = 2;';
+    const modified = 'let a = 1;\nlet b = 2;';
+
+    expect(changed(original, modified, { ignoreComments: true })).toEqual([]);
+    expect(changed(original, modified)).not.toEqual([]);
+  });
+
+  it('ignores string contents but not prefixes or template literals', () => {
+    expect(changed('f("a")', "f('b')", { ignoreStringContents: true })).toEqual([]);
+    expect(changed('f("a")', 'f(`a`)', { ignoreStringContents: true })).toHaveLength(1);
+    expect(changed('x = "a"', 'x = f"a"', { language: 'python', ignoreStringContents: true })).not.toEqual([]);
+  });
+
+  it('rejects unknown languages', () => {
+    expect(() => code('a', 'b', { language: 'cobol' as CodeLanguage })).toThrow('Unknown language: cobol');
+  });
+
+  it('detects the language from a file name', () => {
+    expect(detectLanguage('src/app.tsx')).toBe('typescript');
+    expect(detectLanguage('scripts/build.SH')).toBe('shell');
+    expect(detectLanguage('README.md')).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { diff, parseCsv } from '../core.js';
+import type { DiffOptions } from '../core.js';
+
+const csv = (original: string, modified: string, options: DiffOptions = {}) =>
+  diff(original, modified, { granularity: 'csv', ...options });
+
+const PRICES = 'id,name,price\n1,Apple,10\n2,Banana,15\n3,Cherry,20\n';
+
+describe('parseCsv', () => {
+  it('reads quoted fields, doubled quotes and line breaks inside quotes', () => {
+    const table = parseCsv('a,b\r\n"x, y","say ""hi""\nthere"\n\n3,4');
+
+    expect(table.header).toEqual(['a', 'b']);
+    expect(table.rows.map(row => row.fields)).toEqual([['x, y', 'say "hi"\nthere'], ['3', '4']]);
+  });
+
+  it('detects the delimiter from the first line', () => {
+    expect(parseCsv('a;b;c\n1;2;3').delimiter).toBe(';');
+    expect(parseCsv('a\tb\n1\t2').delimiter).toBe('\t');
+    expect(parseCsv('"a;b",c\n1,2').delimiter).toBe(',');
+  });
+
+  it('names extra columns by position', () => {
+    expect(parseCsv('a,b\n1,2,3').header).toEqual(['a', 'b', '#3']);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsv('a,b\n"1,2\n')).toThrow();
+  });
+});
+
+describe('csv granularity', () => {
+  it('reports changed cells of a modified row', () => {
+    const result = csv(PRICES, PRICES.replace('Cherry,20', 'Cherry,21'));
+    const [change] = result.changes.filter(c => c.type !== 'unchanged');
+
+    expect(change).toMatchObject({ type: 'modified', original: '3,Cherry,20', modified: '3,Cherry,21' });
+    expect(change.cells?.map(cell => [cell.column, cell.type])).toEqual([
+      ['id', 'unchanged'], ['name', 'unchanged'], ['price', 'modified'],
+    ]);
+    expect(change.explanation).toContain('price');
+  });
+
+  it('matches rows by key columns wherever they sit', () => {
+    const reordered = 'id,name,price\n3,Cherry,21\n1,Apple,10\n2,Banana,15\n4,Date,30\n';
+    const changes = csv(PRICES, reordered, { keyColumns: ['id'] }).changes.filter(c => c.type !== 'unchanged');
+
+    expect(changes.map(change => [change.type, change.rowKey])).toEqual([
+      ['modified', ['3']],
+      ['added', ['4']],
+    ]);
+  });
+
+  it('matches columns by header', () => {
+    const result = csv(PRICES, 'name,id,price,stock\nApple,1,10,5\nBanana,2,15,0\nCherry,3,20,7\n');
+
+    expect(result.columns?.map(column => [column.name, column.type])).toEqual([
+      ['name', 'unchanged'], ['id', 'unchanged'], ['price', 'unchanged'], ['stock', 'added'],
+    ]);
+    expect(result.changes.every(change => change.cells?.every(cell => cell.column === 'stock' || cell.type === 'unchanged'))).toBe(true);
+  });
+
+  it('applies ignoreCase and ignoreWhitespace to cell values', () => {
+    const result = csv(PRICES, PRICES.replace('Apple', ' APPLE '), { ignoreCase: true, ignoreWhitespace: true });
+
+    expect(result.stats.modified).toBe(0);
+  });
+
+  it('uses an explicit delimiter', () => {
+    const result = csv('a|b\n1|2', 'a|b\n1|3', { delimiter: '|' });
+
+    expect(result.changes.find(change => change.type === 'modified')?.cells?.[1]).toMatchObject({ column: 'b', original: '2', modified: '3' });
+  });
+
+  it('rejects key columns missing from a header', () => {
+    expect(() => csv(PRICES, PRICES, { keyColumns: ['sku'] })).toThrow(/sku/);
+  });
+});
@@ -0,0 +1,78 @@
+import { diff } from '../core.js';
+import type { DiffOptions } from '../core.js';
+import { rebuild } from './helpers.js';
+
+const ORIGINAL = [
+  'function total(items) {',
+  '  let sum = 0;',
+  '  for (const item of items) {',
+  '    sum += item.price;',
+  '  }',
+  '  return sum;',
+  '}',
+  '',
+  'export default total;',
+  '',
+].join('\n');
+
+const MODIFIED = [
+  '// Adds up the prices',
+  'function total(items, tax = 0) {',
+  '  let sum = 0;',
+  '  for (const item of items) {',
+  '    sum += item.price * item.quantity;',
+  '  }',
+  '  return sum * (1 + tax);',
+  '}',
+  '',
+  'export default total;',
+].join('\n');
+
+describe('diff', () => {
+  it.each<[DiffOptions['granularity'], string, string]>([
+    ['line', ORIGINAL, MODIFIED],
+    ['line', '', 'a\nb\n'],
+    ['line', 'a\nb\nc', ''],
+    ['line', 'x\nx\ny\nx\n', 'x\ny\nx\nx\ny'],
+    ['word', 'the quick brown fox jumps over the lazy dog', 'the quick red fox leaps over a lazy dog today'],
+    ['character', 'kitten sitting', 'sitting kitten'],
+  ])('reconstructs both inputs at %s granularity (case %#)', (granularity, original, modified) => {
+    const result = diff(original, modified, { granularity });
+
+    expect(rebuild(result.changes, 'original', granularity)).toBe(original);
+    expect(rebuild(result.changes, 'modified', granularity)).toBe(modified);
+  });
+
+  it('reports identical texts as unchanged', () => {
+    const result = diff(ORIGINAL, ORIGINAL);
+
+    expect(result.changes.every(change => change.type === 'unchanged')).toBe(true);
+    expect(result.stats.unchanged).toBe(result.changes.length);
+  });
+
+  it('finds a shortest edit script', () => {
+    // The example from Myers' paper: the shortest script has 5 edits
+    const result = diff('abcabba', 'cbabac', { granularity: 'character' });
+
+    expect(result.stats.unchanged).toBe(4);
+  });
+
+  it('keeps the longest common subsequence of lines unchanged', () => {
+    const result = diff('a\nb\nc\nd\ne', 'a\nc\nd\nx\ne');
+
+    expect(result.changes.filter(change => change.type === 'unchanged').map(change => change.original))
+      .toEqual(['a', 'c', 'd', 'e']);
+  });
+
+  it('handles large inputs with few differences', () => {
+    const lines = Array.from({ length: 50_000 }, (_, k) => `line ${k}`);
+    const edited = [...lines];
+    edited[100] = 'changed';
+    edited.splice(30_000, 1);
+
+    const result = diff(lines.join('\n'), edited.join('\n'));
+
+    expect(result.stats.unchanged).toBe(49_998);
+    expect(rebuild(result.changes, 'modified')).toBe(edited.join('\n'));
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  diff,
+  diffWithEmbeddings,
+  embedTexts,
+} from '../core.js';
+import type { EmbeddingProvider } from '../core.js';
+import { diffCache } from '../utils.js';
+
+/**
+ * A provider with one axis per meaning, so paraphrases embed alike
+ */
+function meaningProvider(calls: string[][] = []): EmbeddingProvider {
+  const meanings: Record<string, number[]> = {
+    'The meeting is cancelled.': [1, 0],
+    'We called off the meeting.': [0.95, 0.05],
+    'Lunch is at noon.': [0, 1],
+  };
+  return {
+    name: 'meaning',
+    batchSize: 2,
+    embed: async texts => {
+      calls.push(texts);
+      return texts.map(text => meanings[text] ?? [0.5, 0.5]);
+    },
+  };
+}
+
+describe('embeddings', () => {
+  it('pairs paraphrases that share few words', async () => {
+    const original = 'Intro\nThe meeting is cancelled.\nOutro';
+    const modified = 'Intro\nWe called off the meeting.\nOutro';
+
+    expect(diff(original, modified, { similarityThreshold: 0.6 }).stats.modified).toBe(0);
+
+    const result = await diffWithEmbeddings(original, modified, meaningProvider(), { similarityThreshold: 0.6, semanticAnalysis: true });
+
+    expect(result.stats.modified).toBe(1);
+    expect(result.changes[1].similarity).toBeGreaterThan(0.9);
+  });
+
+  it('falls back to the lexical result when the provider fails', async () => {
+    const failing: EmbeddingProvider = { name: 'down', embed: async () => { throw new Error('connection refused'); } };
+    const result = await diffWithEmbeddings('a\nb', 'a\nc', failing);
+
+    expect(result.embeddingError).toBe('connection refused');
+    expect(result.changes).toEqual(diff('a\nb', 'a\nc').changes);
+  });
+
+  it('embeds in batches and reuses vectors it already has', async () => {
+    const calls: string[][] = [];
+    const provider = meaningProvider(calls);
+
+    await embedTexts(provider, ['The meeting is cancelled.', 'Lunch is at noon.', 'x']);
+    const vectors = await embedTexts(provider, ['Lunch is at noon.', 'y']);
+
+    expect(calls).toEqual([['The meeting is cancelled.', 'Lunch is at noon.'], ['x'], ['y']]);
+    expect(vectors.get('Lunch is at noon.')).toEqual([0, 1]);
+  });
+
+  it('rejects a provider that returns the wrong number of vectors', async () => {
+    const short: EmbeddingProvider = { name: 'short', embed: async () => [[1]] };
+
+    await expect(embedTexts(short, ['a', 'b'])).rejects.toThrow('returned 1 vectors for 2 texts');
+  });
+
+  it('embeds alike spelling alike with the hashing provider', async () => {
+    const provider = createHashingEmbeddingProvider(64);
+    const [a, b] = await provider.embed(['colour of the sky', 'color of the sky']);
+
+    expect(a).toHaveLength(64);
+    expect(a.reduce((dot, value, k) => dot + value * b[k], 0)).toBeGreaterThan(0.7);
+  });
+
+  it('orders vectors of an OpenAI-compatible response by index', async () => {
+    const originalFetch = globalThis.fetch;
+    let request: { url: string; body: unknown } | undefined;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      request = { url, body: JSON.parse(String(init.body)) };
+      return new Response(JSON.stringify({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] }));
+    }) as typeof fetch;
+    try {
+      const provider = createOpenAIEmbeddingProvider({ baseUrl: 'http://embed.local/', model: 'mini' });
+
+      expect(await provider.embed(['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+      expect(request).toEqual({ url: 'http://embed.local/v1/embeddings', body: { model: 'mini', input: ['a', 'b'] } });
+      expect(provider.name).toBe('openai:mini');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('keys cached diffs by embedding provider and semantic analysis', () => {
+    const result = diff('cache a', 'cache b');
+    diffCache.set('cache a', 'cache b', {}, result, 'openai:mini');
+
+    expect(diffCache.get('cache a', 'cache b', {}, 'openai:mini')).toBe(result);
+    expect(diffCache.get('cache a', 'cache b', {}, 'hashing-256')).toBeNull();
+    expect(diffCache.get('cache a', 'cache b', {})).toBeNull();
+    expect(diffCache.get('cache a', 'cache b', { semanticAnalysis: true }, 'openai:mini')).toBeNull();
+  });
+});
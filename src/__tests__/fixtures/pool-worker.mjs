@@ -0,0 +1,31 @@
+// Stand-in for worker.ts: the original text picks how the job behaves
+import { parentPort } from 'worker_threads';
+
+const stats = { added: 0, removed: 0, modified: 0, unchanged: 1, moved: 0 };
+
+parentPort.on('message', job => {
+  switch (job.original) {
+    case 'exit':
+      process.exit(3);
+      break;
+    case 'hang':
+      break;
+    case 'fail':
+      parentPort.postMessage({ id: job.id, type: 'error', message: 'bad input' });
+      break;
+    case 'slow':
+      setTimeout(() => parentPort.postMessage({ id: job.id, type: 'result', result: { changes: [], stats } }), 100);
+      break;
+    default:
+      if (job.kind === 'stream') {
+        for (const progress of [50, 100]) {
+          const event = { progress, changes: [], stats, complete: progress === 100 };
+          parentPort.postMessage({ id: job.id, type: 'event', event });
+        }
+        parentPort.postMessage({ id: job.id, type: 'done' });
+      } else {
+        const change = { type: 'unchanged', original: job.original, modified: job.modified };
+        parentPort.postMessage({ id: job.id, type: 'result', result: { changes: [change], stats } });
+      }
+  }
+});
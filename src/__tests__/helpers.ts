@@ -0,0 +1,12 @@
+import type { DiffChange, DiffOptions } from '../core.js';
+
+/**
+ * Rebuilds one side of a diff from its changes; line tokens lose their
+ * newline, word and character tokens keep their whitespace
+ */
+export function rebuild(changes: DiffChange[], side: 'original' | 'modified', granularity: DiffOptions['granularity'] = 'line'): string {
+  return changes
+    .filter(change => change[side] !== undefined)
+    .map(change => change[side])
+    .join(granularity === 'line' ? '\n' : '');
+}
@@ -0,0 +1,74 @@
+import { diff } from '../core.js';
+import type { DiffChange } from '../core.js';
+
+const ORIGINAL = 'The cat sat on the mat. It was warm.\n\nA second paragraph stays.';
+const MODIFIED = 'The dog sat on the mat. It was warm.\n\nA second paragraph stays.';
+
+describe('hierarchical granularity', () => {
+  it('breaks modified paragraphs down into sentences and words', () => {
+    const result = diff(ORIGINAL, MODIFIED, { granularity: 'hierarchical' });
+    const [paragraph] = result.changes;
+    const sentence = paragraph.children!.find(change => change.type === 'modified')!;
+
+    expect(result.stats).toMatchObject({ modified: 1, unchanged: 1 });
+    expect(paragraph).toMatchObject({ level: 'paragraph', childStats: { modified: 1 } });
+    expect(sentence).toMatchObject({ level: 'sentence', original: 'The cat sat on the mat' });
+    expect(sentence.children!.filter(change => change.type !== 'unchanged')).toEqual([
+      expect.objectContaining({ level: 'word', type: 'modified', original: 'cat', modified: 'dog' }),
+    ]);
+  });
+
+  it('sums the statistics of each level over the tree', () => {
+    const result = diff(ORIGINAL, MODIFIED, { granularity: 'hierarchical' });
+
+    expect(result.levelStats!.paragraph).toEqual(result.stats);
+    // The sentence splitter keeps the '. ' between sentences as a token of its own
+    expect(result.levelStats!.sentence).toMatchObject({ modified: 1, unchanged: 2 });
+    expect(result.levelStats!.word.modified).toBe(1);
+  });
+
+  it('gives children ranges into the whole input', () => {
+    const result = diff(ORIGINAL, MODIFIED, { granularity: 'hierarchical' });
+    const word = result.changes[0].children![0].children!.find(change => change.type === 'modified')!;
+    const { start, end } = word.modifiedRange!;
+
+    expect(MODIFIED.slice(start.offset, end.offset)).toBe('dog');
+    expect(start).toMatchObject({ line: 1, column: 5 });
+  });
+
+  it('keeps move ids unique across the tree', () => {
+    const moving = 'This sentence wanders about the paragraph freely.';
+    const original = `${moving} Middle stays here. End stays too.\n\n${moving} Other middle. Other end.`;
+    const modified = `Middle stays here. ${moving} End stays too.\n\nOther middle. ${moving} Other end.`;
+    const ids: number[] = [];
+    const collect = (changes: DiffChange[]) => changes.forEach(change => {
+      if (change.type === 'moved' && change.original !== undefined) ids.push(change.move!.id);
+      if (change.children) collect(change.children);
+    });
+
+    collect(diff(original, modified, { granularity: 'hierarchical' }).changes);
+
+    expect(ids).toHaveLength(2);
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it('shares one budget across the levels', () => {
+    const paragraph = (word: string) =>
+      Array.from({ length: 20 }, (_, k) => `Sentence ${k} talks about ${k % 5 === 0 ? word : 'the weather'}.`).join(' ');
+    const original = Array.from({ length: 20 }, (_, k) => paragraph(`cats ${k}`)).join('\n\n');
+    const modified = Array.from({ length: 20 }, (_, k) => paragraph(`dogs ${k}`)).join('\n\n');
+
+    const maxEditCost = 100;
+    // Every single level fits the budget; only the whole tree exceeds it
+    expect(diff(original, modified, { granularity: 'paragraph', maxEditCost }).approximate).toBeUndefined();
+    expect(diff(paragraph('cats 0'), paragraph('dogs 0'), { granularity: 'sentence', maxEditCost }).approximate).toBeUndefined();
+
+    const exact = diff(original, modified, { granularity: 'hierarchical' });
+    const result = diff(original, modified, { granularity: 'hierarchical', maxEditCost });
+
+    expect(exact.approximate).toBeUndefined();
+    expect(result).toMatchObject({ approximate: true, approximateReason: 'maxEditCost' });
+    expect(result.levelStats!.word.modified).toBeLessThan(exact.levelStats!.word.modified);
+    expect(result.changes.some(change => change.type === 'modified' && change.children === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { diff, jsonNestingDepth, JSON_MAX_DEPTH } from '../core.js';
+import type { DiffOptions } from '../core.js';
+
+const json = (original: unknown, modified: unknown, options: DiffOptions = {}) =>
+  diff(JSON.stringify(original), JSON.stringify(modified), { granularity: 'json', ...options });
+
+const changed = (original: string, modified: string, options: DiffOptions = {}) =>
+  diff(original, modified, { granularity: 'json', ...options }).changes.filter(change => change.type !== 'unchanged');
+
+describe('json granularity', () => {
+  it('addresses changes by JSONPath', () => {
+    const result = json({ items: [{ price: 10 }, { price: 20 }], 'unit name': 'kg' }, { items: [{ price: 10 }, { price: 25 }], 'unit name': 'g' });
+
+    expect(result.changes.filter(change => change.type !== 'unchanged').map(change => [change.path, change.original, change.modified])).toEqual([
+      ['$.items[1].price', '20', '25'],
+      ['$["unit name"]', '"kg"', '"g"'],
+    ]);
+  });
+
+  it('ignores formatting and key order by default', () => {
+    const original = '{\n  "a": 1,\n  "b": [1, 2]\n}';
+    const modified = '{"b":[1,2],"a":1}';
+
+    expect(changed(original, modified)).toEqual([]);
+    expect(changed(original, modified, { ignoreKeyOrder: false })).toMatchObject([
+      { type: 'modified', path: '$', explanation: 'Key order changed' },
+    ]);
+  });
+
+  it('reports added, removed and retyped values', () => {
+    const changes = changed('{"a":1,"b":"x"}', '{"a":"1","c":null}');
+
+    expect(changes.map(change => [change.type, change.path])).toEqual([
+      ['modified', '$.a'],
+      ['removed', '$.b'],
+      ['added', '$.c'],
+    ]);
+    expect(changes[0]).toMatchObject({ valueTypes: { original: 'number', modified: 'string' }, explanation: 'Type changed from number to string' });
+  });
+
+  it('matches array elements by arrayKey', () => {
+    const result = json(
+      { users: [{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob' }] },
+      { users: [{ id: 2, name: 'Bob' }, { id: 1, name: 'Anne' }] },
+      { arrayKey: 'id' }
+    );
+
+    expect(result.changes.filter(change => change.type !== 'unchanged')).toMatchObject([
+      { type: 'modified', path: '$.users[1].name', original: '"Ann"', modified: '"Anne"' },
+    ]);
+  });
+
+  it('compares integers beyond double precision exactly', () => {
+    const changes = changed('{"id": 12345678901234567890}', '{"id": 12345678901234567891}');
+
+    expect(changes).toMatchObject([{ type: 'modified', original: '12345678901234567890', modified: '12345678901234567891' }]);
+  });
+
+  it('compares numbers beyond the range of a double', () => {
+    expect(changed('[1e400]', '[2e400]')).toMatchObject([{ original: '1e+400', modified: '2e+400' }]);
+    expect(changed('[1e400]', '[10E399]')).toEqual([]);
+  });
+
+  it('treats numbers with the same decimal value as equal', () => {
+    expect(changed('[1.0, 100, 0.5, -0]', '[1, 1e2, 5e-1, 0]')).toEqual([]);
+  });
+
+  it('writes big numbers inside changed objects exactly', () => {
+    const [change] = changed('[1]', '[{"id": 9007199254740993, "n": 1.50}]').filter(c => c.type === 'added' || c.type === 'modified');
+
+    expect(change.modified).toBe('{"id":9007199254740993,"n":1.5}');
+  });
+
+  it('rejects invalid JSON with the position of the error', () => {
+    expect(() => diff('{"a": }', '{}', { granularity: 'json' })).toThrow(/original text at line 1, column 7/);
+  });
+
+  it('rejects nesting deeper than JSON_MAX_DEPTH', () => {
+    const deep = '['.repeat(JSON_MAX_DEPTH + 1) + ']'.repeat(JSON_MAX_DEPTH + 1);
+
+    expect(jsonNestingDepth(deep)).toBe(JSON_MAX_DEPTH + 1);
+    expect(jsonNestingDepth('{"a": "[[[", "b": [1]}')).toBe(2);
+    expect(() => diff(deep, '[]', { granularity: 'json' })).toThrow(`nested deeper than ${JSON_MAX_DEPTH} levels`);
+    expect(() => diff('['.repeat(JSON_MAX_DEPTH) + ']'.repeat(JSON_MAX_DEPTH), '[]', { granularity: 'json' })).not.toThrow();
+  });
+});
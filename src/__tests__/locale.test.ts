@@ -0,0 +1,53 @@
+import { diff } from '../core.js';
+import type { DiffOptions } from '../core.js';
+import { rebuild } from './helpers.js';
+
+describe('locale', () => {
+  it.each<[DiffOptions['granularity'], string, string]>([
+    ['character', 'thumbs 👍🏽 café', 'thumbs 👍🏿 café!'],
+    ['word', '東京は晴れです。', '京都は雨です。'],
+    ['sentence', 'Dr. Smith arrived. He sat down, e.g. on a chair. Then 3.14 was served.', 'Dr. Smith arrived. He stood up. Then 3.14 was served.'],
+  ])('reconstructs both inputs at %s granularity', (granularity, original, modified) => {
+    const result = diff(original, modified, { granularity, locale: 'en' });
+
+    expect(rebuild(result.changes, 'original', granularity)).toBe(original);
+    expect(rebuild(result.changes, 'modified', granularity)).toBe(modified);
+  });
+
+  it('compares grapheme clusters as characters', () => {
+    const result = diff('a👍🏽', 'a👍🏿', { granularity: 'character', locale: 'en' });
+
+    expect(result.changes.map(change => [change.type, change.original, change.modified])).toEqual([
+      ['unchanged', 'a', 'a'],
+      ['modified', '👍🏽', '👍🏿'],
+    ]);
+    expect(result.changes[1].originalRange).toMatchObject({ start: { offset: 1 }, end: { offset: 5 } });
+  });
+
+  it('splits text without spaces into words', () => {
+    const result = diff('東京は晴れです', '東京は雨です', { granularity: 'word', locale: 'ja' });
+    const unchanged = result.changes.filter(change => change.type === 'unchanged').map(change => change.original);
+
+    expect(unchanged).toContain('東京');
+    expect(result.stats.unchanged).toBeGreaterThan(1);
+  });
+
+  it('does not end sentences at abbreviations or decimals', () => {
+    const result = diff('See Dr. Lee at 3.14 p.m. today. Bye.', 'See Dr. Lee at 3.14 p.m. today. Bye now.', {
+      granularity: 'sentence',
+      locale: 'en',
+    });
+
+    expect(result.changes.map(change => change.original)).toEqual(['See Dr. Lee at 3.14 p.m. today. ', 'Bye.']);
+  });
+
+  it('segments the words of modified changes for the locale', () => {
+    const [change] = diff('東京は晴れ', '京都は晴れ', { locale: 'ja', similarityThreshold: 0 }).changes;
+
+    expect(change.segments?.words.map(segment => segment.type)).toContain('equal');
+  });
+
+  it('rejects locales that are not BCP 47 tags', () => {
+    expect(() => diff('a', 'b', { granularity: 'word', locale: 'not a locale!' })).toThrow('Invalid locale: not a locale!');
+  });
+});
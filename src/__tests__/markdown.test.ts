@@ -0,0 +1,106 @@
+import { diff, summarizeChanges } from '../core.js';
+
+const ORIGINAL = [
+  '---',
+  'title: Guide',
+  '---',
+  '',
+  '# Intro',
+  '',
+  'Welcome to the guide.',
+  '',
+  '## Setup',
+  '',
+  '- install node',
+  '- run npm install',
+  '',
+  '```sh',
+  '# not a heading',
+  'npm start',
+  '```',
+  '',
+  '| name | value |',
+  '| ---- | ----- |',
+  '| port | 3000  |',
+  '',
+  'Usage',
+  '-----',
+  '',
+  '> Note: read this first.',
+  '',
+  '***',
+].join('\n');
+
+const blockOf = (text: string, original: string) =>
+  diff(ORIGINAL, ORIGINAL.replace(original, text), { granularity: 'markdown' })
+    .changes.filter(change => change.type !== 'unchanged');
+
+describe('markdown granularity', () => {
+  it('labels every block with its kind and section', () => {
+    const blocks = diff(ORIGINAL, ORIGINAL, { granularity: 'markdown' }).changes
+      .filter(change => change.original!.trim() !== '')
+      .map(change => [change.block, change.headingPath]);
+
+    expect(blocks).toEqual([
+      ['front-matter', []],
+      ['heading', ['Intro']],
+      ['paragraph', ['Intro']],
+      ['heading', ['Intro', 'Setup']],
+      ['list-item', ['Intro', 'Setup']],
+      ['list-item', ['Intro', 'Setup']],
+      ['code', ['Intro', 'Setup']],
+      ['table-row', ['Intro', 'Setup']],
+      ['table-row', ['Intro', 'Setup']],
+      ['table-row', ['Intro', 'Setup']],
+      ['heading', ['Intro', 'Usage']],
+      ['quote', ['Intro', 'Usage']],
+      ['rule', ['Intro', 'Usage']],
+    ]);
+  });
+
+  it('reports a changed list item as one modified block', () => {
+    expect(blockOf('- run npm ci', '- run npm install')).toMatchObject([
+      { type: 'modified', original: '- run npm install', modified: '- run npm ci', block: 'list-item', headingPath: ['Intro', 'Setup'] },
+    ]);
+  });
+
+  it('keeps a fenced code block whole', () => {
+    const changes = blockOf('npm run start', 'npm start');
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ type: 'modified', block: 'code' });
+    expect(changes[0].original).toBe('```sh\n# not a heading\nnpm start\n```');
+  });
+
+  it('splits word segments of a table row by cell', () => {
+    const [change] = blockOf('| port | 8080  |', '| port | 3000  |');
+
+    expect(change.block).toBe('table-row');
+    expect(change.segments?.words.filter(segment => segment.type !== 'equal')).toEqual([
+      { type: 'removed', text: '| 3000  ' },
+      { type: 'added', text: '| 8080  ' },
+    ]);
+  });
+
+  it('points every block at its source text', () => {
+    const modified = ORIGINAL.replace('## Setup', '## Installation').replace('Welcome', 'Hello');
+    const result = diff(ORIGINAL, modified, { granularity: 'markdown' });
+
+    for (const change of result.changes) {
+      const { originalRange: from, modifiedRange: to } = change;
+      if (from) expect(ORIGINAL.slice(from.start.offset, from.end.offset)).toBe(change.original);
+      if (to) expect(modified.slice(to.start.offset, to.end.offset)).toBe(change.modified);
+    }
+  });
+
+  it('names the changed sections in the summary', () => {
+    const modified = ORIGINAL.replace('- install node', '- install node 20').replace('read this first', 'read this');
+    const summary = summarizeChanges(diff(ORIGINAL, modified, { granularity: 'markdown' }));
+
+    expect(summary.sections).toEqual([
+      { headingPath: ['Intro', 'Setup'], changes: 1 },
+      { headingPath: ['Intro', 'Usage'], changes: 1 },
+    ]);
+    expect(summary.summary).toContain('Intro › Setup');
+  });
+});
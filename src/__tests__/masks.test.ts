@@ -0,0 +1,81 @@
+import { diff } from '../core.js';
+import type { DiffMask } from '../core.js';
+
+const LOG1 = [
+  '2024-05-01T12:30:00Z request 3f2b9c1a-0d4e-4c7a-9b1e-2a6f8d0c5e71 from 10.0.0.1 took 120 ms',
+  'deploy a1b2c3d4e5 finished',
+].join('\n');
+const LOG2 = [
+  '2024-06-17T08:05:41+02:00 request 7c1e5a90-3b2f-4d6e-8a4c-9f0b1d2e3c4a from 192.168.1.20 took 98 ms',
+  'deploy 9f8e7d6c5b finished',
+].join('\n');
+
+describe('masks', () => {
+  it('compares volatile tokens as equal placeholders', () => {
+    const result = diff(LOG1, LOG2, { masks: ['iso-date', 'uuid', 'ip', 'number', 'hex-hash'] });
+
+    expect(result.stats).toMatchObject({ unchanged: 2, modified: 0, added: 0, removed: 0 });
+  });
+
+  it('reports the text as written with the masked spans', () => {
+    const [first] = diff(LOG1, LOG2, { masks: ['iso-date', 'uuid', 'ip', 'number'] }).changes;
+
+    expect(first.original).toBe(LOG1.split('\n')[0]);
+    expect(first.originalMasks?.map(span => [span.mask, first.original!.slice(span.start, span.end)])).toEqual([
+      ['iso-date', '2024-05-01T12:30:00Z'],
+      ['uuid', '3f2b9c1a-0d4e-4c7a-9b1e-2a6f8d0c5e71'],
+      ['ip', '10.0.0.1'],
+      ['number', '120'],
+    ]);
+    expect(first.modifiedMasks?.[0]).toEqual({ mask: 'iso-date', start: 0, end: 25 });
+  });
+
+  it('still tells other changes apart', () => {
+    const result = diff('took 120 ms', 'took 98 s', { granularity: 'word', masks: ['number'] });
+
+    expect(result.changes.filter(change => change.type !== 'unchanged')).toEqual([
+      expect.objectContaining({ original: 'ms', modified: 's' }),
+    ]);
+  });
+
+  it('leaves numbers inside words and version strings alone', () => {
+    expect(diff('build v2 of 1.2.3', 'build v3 of 1.2.4', { masks: ['number'] }).stats.modified).toBe(1);
+  });
+
+  it('masks a match that spans several tokens once', () => {
+    const result = diff('at 2024-05-01 12:30 ok', 'at 2025-01-09 07:15 ok', { granularity: 'word', masks: ['iso-date'] });
+
+    expect(result.stats).toMatchObject({ modified: 0, added: 0, removed: 0 });
+    expect(result.changes[2].originalMasks).toEqual([{ mask: 'iso-date', start: 0, end: 10 }]);
+    expect(result.changes[4].originalMasks).toEqual([{ mask: 'iso-date', start: 0, end: 5 }]);
+  });
+
+  it('uses custom patterns with their name', () => {
+    const masks: DiffMask[] = [{ pattern: 'req-\\d+', flags: 'i', name: 'request-id' }];
+    const result = diff('REQ-17 failed', 'req-204 failed', { masks });
+
+    expect(result.stats.unchanged).toBe(1);
+    expect(result.changes[0].originalMasks).toEqual([{ mask: 'request-id', start: 0, end: 6 }]);
+  });
+
+  it('lets the mask listed first win where two overlap', () => {
+    const [change] = diff('2024-05-01', '2024-05-02', { masks: ['number', 'iso-date'] }).changes;
+
+    // The year is a number, so the date mask that overlaps it is dropped
+    expect(change.originalMasks).toEqual([{ mask: 'number', start: 0, end: 4 }]);
+    expect(change.type).toBe('modified');
+  });
+
+  it('masks json values and csv cells one at a time', () => {
+    const json = diff('{"at":"2024-05-01","n":1}', '{"at":"2024-06-02","n":2}', { granularity: 'json', masks: ['iso-date', 'number'] });
+    const csv = diff('id,at\n1,2024-05-01\n', 'id,at\n1,2024-06-02\n', { granularity: 'csv', masks: [{ pattern: '^\\d{4}' }] });
+
+    expect(json.stats.modified).toBe(0);
+    expect(csv.stats.modified).toBe(1);
+  });
+
+  it('rejects unknown presets and patterns that do not compile', () => {
+    expect(() => diff('a', 'b', { masks: ['bogus' as DiffMask] })).toThrow('Unknown mask preset: bogus');
+    expect(() => diff('a', 'b', { masks: [{ pattern: '(' }] })).toThrow('Invalid mask pattern /(/');
+  });
+});
@@ -0,0 +1,87 @@
+import { merge3 } from '../core.js';
+
+const BASE = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta'].join('\n');
+
+const replace = (text: string, from: string, to: string) => text.replace(from, to);
+
+describe('merge3', () => {
+  it('combines changes to different regions', () => {
+    const ours = replace(BASE, 'beta', 'BETA');
+    const theirs = replace(BASE, 'zeta', 'ZETA');
+    const result = merge3(BASE, ours, theirs);
+
+    expect(result.clean).toBe(true);
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toBe(replace(ours, 'zeta', 'ZETA'));
+    expect(result.stats).toMatchObject({ ours: 1, theirs: 1, conflicts: 0 });
+  });
+
+  it('takes a change both sides made once', () => {
+    const both = replace(BASE, 'delta', 'DELTA');
+    const result = merge3(BASE, both, both);
+
+    expect(result.clean).toBe(true);
+    expect(result.merged).toBe(both);
+    expect(result.stats.both).toBe(1);
+  });
+
+  it('takes the only side that changed', () => {
+    const theirs = `${BASE}\ntheta`;
+
+    expect(merge3(BASE, BASE, theirs).merged).toBe(theirs);
+    expect(merge3(BASE, theirs, BASE).merged).toBe(theirs);
+  });
+
+  it('marks conflicting changes to the same region', () => {
+    const ours = replace(BASE, 'gamma', 'gamma from ours');
+    const theirs = replace(BASE, 'gamma', 'gamma from theirs');
+    const result = merge3(BASE, ours, theirs, { labels: { ours: 'HEAD', theirs: 'feature' } });
+
+    expect(result.clean).toBe(false);
+    expect(result.stats.conflicts).toBe(1);
+    expect(result.conflicts).toEqual([
+      {
+        mergedLine: 3,
+        base: { start: 3, lines: ['gamma'] },
+        ours: { start: 3, lines: ['gamma from ours'] },
+        theirs: { start: 3, lines: ['gamma from theirs'] },
+      },
+    ]);
+    expect(result.merged).toBe([
+      'alpha',
+      'beta',
+      '<<<<<<< HEAD',
+      'gamma from ours',
+      '=======',
+      'gamma from theirs',
+      '>>>>>>> feature',
+      'delta',
+      'epsilon',
+      'zeta',
+      'eta',
+    ].join('\n'));
+  });
+
+  it('includes the base section in diff3 style', () => {
+    const ours = replace(BASE, 'gamma', 'ours');
+    const theirs = replace(BASE, 'gamma', 'theirs');
+    const { merged } = merge3(BASE, ours, theirs, { conflictStyle: 'diff3' });
+
+    expect(merged).toContain('<<<<<<< ours\nours\n||||||| base\ngamma\n=======\ntheirs\n>>>>>>> theirs');
+  });
+
+  it('keeps the base lines in list style', () => {
+    const result = merge3(BASE, replace(BASE, 'gamma', 'ours'), replace(BASE, 'gamma', 'theirs'), { conflictStyle: 'list' });
+
+    expect(result.clean).toBe(false);
+    expect(result.merged).toBe(BASE);
+  });
+
+  it('treats whitespace-only edits as unchanged when ignoring whitespace', () => {
+    const ours = replace(BASE, 'beta', '  beta');
+    const theirs = replace(BASE, 'beta', 'beta two');
+
+    expect(merge3(BASE, ours, theirs).clean).toBe(false);
+    expect(merge3(BASE, ours, theirs, { ignoreWhitespace: true })).toMatchObject({ clean: true, merged: theirs });
+  });
+});
@@ -0,0 +1,59 @@
+import { diff } from '../core.js';
+import { rebuild } from './helpers.js';
+
+const BLOCK = ['function parseHeader(line) {', '  const [key, value] = line.split(":");', '  return { key, value };', '}'];
+const OTHER = ['const first = 1;', 'const second = 2;', 'const third = 3;', 'const fourth = 4;', 'const fifth = 5;', 'const sixth = 6;'];
+
+describe('move detection', () => {
+  it('reports a relocated block as moved at both ends', () => {
+    const original = [...BLOCK, ...OTHER].join('\n');
+    const modified = [...OTHER, ...BLOCK].join('\n');
+    const result = diff(original, modified);
+    const moved = result.changes.filter(change => change.type === 'moved');
+
+    expect(moved).toHaveLength(2 * BLOCK.length);
+    expect(result.stats.moved).toBe(BLOCK.length);
+    expect(moved[0].move).toMatchObject({ side: 'source', sourceLine: 1, destinationLine: 7, similarity: 1 });
+    expect(moved.find(change => change.move?.side === 'destination')?.modified).toBe(BLOCK[0]);
+    expect(rebuild(result.changes, 'original')).toBe(original);
+    expect(rebuild(result.changes, 'modified')).toBe(modified);
+  });
+
+  it('reports an edited block as moved with its similarity', () => {
+    const block = ['the quick brown fox jumps over the lazy dog again', '{', 'pack my box with five dozen liquor jugs now', '}'];
+    const edited = ['the quick brown cat jumps over the lazy dog again', '{', 'pack my box with six dozen liquor jugs now', '}'];
+    const result = diff([...block, ...OTHER].join('\n'), [...OTHER, ...edited].join('\n'));
+    const source = result.changes.find(change => change.move?.side === 'source');
+
+    expect(source?.move?.similarity).toBeGreaterThan(0.75);
+    expect(source?.move?.similarity).toBeLessThan(1);
+  });
+
+  it('does not report a block with shuffled lines as moved', () => {
+    const shuffled = [BLOCK[2], BLOCK[0], BLOCK[3], BLOCK[1]];
+    const result = diff([...BLOCK, ...OTHER].join('\n'), [...OTHER, ...shuffled].join('\n'), { detectMoves: true });
+
+    expect(result.changes.filter(change => change.type === 'moved' && change.move!.similarity < 1)).toEqual([]);
+  });
+
+  it('leaves short runs of punctuation alone', () => {
+    const result = diff('a = 1;\n}\n}\n}\nb = 2;', 'b = 2;\n}\n}\n}\nc = 3;');
+
+    expect(result.stats.moved).toBe(0);
+  });
+
+  it('explains moves when semantic analysis is on', () => {
+    const result = diff([...BLOCK, ...OTHER].join('\n'), [...OTHER, ...BLOCK].join('\n'), { semanticAnalysis: true });
+    const moved = result.changes.filter(change => change.type === 'moved');
+
+    expect(moved[0].explanation).toBe('Moved to line 7');
+    expect(moved[moved.length - 1].explanation).toBe('Moved from line 1');
+  });
+
+  it('reports removals and additions when disabled', () => {
+    const result = diff([...BLOCK, ...OTHER].join('\n'), [...OTHER, ...BLOCK].join('\n'), { detectMoves: false });
+
+    expect(result.stats.moved).toBe(0);
+    expect(result.changes.some(change => change.type === 'moved')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { applyPatch, diff, formatUnifiedDiff } from '../core.js';
+import type { DiffNormalizer, DiffOptions } from '../core.js';
+import { rebuild } from './helpers.js';
+
+// Each pair differs only in what its normalizer ignores
+const PAIRS: Record<Exclude<DiffNormalizer, 'blankLines'>, [string, string]> = {
+  lineEndings: ['one two\r\nthree\r', 'one two\nthree\n'],
+  trailingWhitespace: ['one two  \nthree\t\nfour ', 'one two\nthree\nfour'],
+  nfc: ['café crème', 'café crème'],
+  nfkc: ['ＡＢＣ x²', 'ABC x2'],
+  quotes: ['“quoted” and ‘single’', '"quoted" and \'single\''],
+  dashes: ['2019–2020 — a−b', '2019-2020 - a-b'],
+};
+
+describe('normalizers', () => {
+  describe.each<DiffOptions['granularity']>(['line', 'word', 'character'])('at %s granularity', granularity => {
+    it.each(Object.entries(PAIRS))('%s compares the variants equal', (normalizer, [original, modified]) => {
+      const result = diff(original, modified, { granularity, normalizers: [normalizer as DiffNormalizer] });
+
+      expect(result.changes.filter(change => change.type !== 'unchanged')).toEqual([]);
+      expect(rebuild(result.changes, 'modified', granularity)).toBe(modified);
+    });
+
+    it.each(Object.entries(PAIRS))('without %s the variants differ', (_, [original, modified]) => {
+      const result = diff(original, modified, { granularity });
+
+      expect(result.changes.some(change => change.type !== 'unchanged')).toBe(true);
+    });
+  });
+
+  it('compares compatibility forms that expand to several characters (nfkc)', () => {
+    expect(diff('ﬁle oﬃce', 'file office', { normalizers: ['nfkc'] }).stats.unchanged).toBe(1);
+    expect(diff('ﬁle oﬃce', 'file office', { granularity: 'word', normalizers: ['nfkc'] }).stats.unchanged).toBe(3);
+  });
+
+  it('keeps combining marks with their character (nfc)', () => {
+    const result = diff('cafe\u0301', 'café', { granularity: 'character', normalizers: ['nfc'] });
+
+    expect(result.changes.map(change => change.original)).toEqual(['c', 'a', 'f', 'e\u0301']);
+    expect(result.stats.unchanged).toBe(4);
+  });
+
+  it('keeps one-sided blank lines as ignored unchanged lines (blankLines)', () => {
+    const result = diff('one\n\ntwo\nthree', 'one\ntwo\n\n\nthree', { normalizers: ['blankLines'] });
+
+    expect(result.changes.every(change => change.type === 'unchanged')).toBe(true);
+    expect(result.changes.filter(change => change.ignored)).toHaveLength(3);
+    expect(rebuild(result.changes, 'original')).toBe('one\n\ntwo\nthree');
+    expect(rebuild(result.changes, 'modified')).toBe('one\ntwo\n\n\nthree');
+  });
+
+  it('never lets blank lines push content lines out of alignment (blankLines)', () => {
+    const result = diff('a\n\nb\nc', 'a\nb\n\nX\nc', { normalizers: ['blankLines'] });
+
+    expect(result.changes.filter(change => change.type !== 'unchanged')).toEqual([
+      expect.objectContaining({ type: 'added', modified: 'X' }),
+    ]);
+  });
+
+  it('compares blank lines at word granularity (blankLines)', () => {
+    const result = diff('one\n\ntwo', 'one\ntwo', { granularity: 'word', normalizers: ['blankLines'] });
+
+    expect(result.stats).toMatchObject({ added: 0, removed: 0, modified: 0 });
+  });
+
+  it('keeps spaces inside a line significant (trailingWhitespace)', () => {
+    const options: DiffOptions = { normalizers: ['trailingWhitespace'] };
+
+    expect(diff('a b\n  c', 'a  b\nc', { ...options, granularity: 'word' }).stats.modified).toBe(2);
+    expect(diff('a b', 'ab', { ...options, granularity: 'character' }).stats.removed).toBe(1);
+  });
+
+  it('reports trailing whitespace only one side has as ignored (trailingWhitespace)', () => {
+    const result = diff('ab  \nc', 'ab\nc', { granularity: 'character', normalizers: ['trailingWhitespace'] });
+
+    expect(result.changes.filter(change => change.ignored).map(change => change.original)).toEqual([' ', ' ']);
+  });
+
+  it('ends lines at a lone CR (lineEndings)', () => {
+    const result = diff('a\rb\r\nc', 'a\nb\nc', { normalizers: ['lineEndings'] });
+
+    expect(result.changes.map(change => change.original)).toEqual(['a', 'b', 'c']);
+    expect(result.changes[2].originalRange?.start).toMatchObject({ offset: 5 });
+  });
+
+  it('treats a CRLF as one character token (lineEndings)', () => {
+    const result = diff('a\r\nb', 'a\nb', { granularity: 'character', normalizers: ['lineEndings'] });
+
+    expect(result.changes.map(change => change.original)).toEqual(['a', '\r\n', 'b']);
+    expect(result.changes[1]).toMatchObject({ type: 'unchanged', modified: '\n' });
+  });
+
+  it('applies the chain in order', () => {
+    const result = diff('“A”  ', '"a"', { normalizers: ['trailingWhitespace', 'quotes'], ignoreCase: true });
+
+    expect(result.stats).toMatchObject({ unchanged: 1, modified: 0 });
+  });
+
+  it('rejects unknown normalizers', () => {
+    expect(() => diff('a', 'b', { normalizers: ['bogus' as DiffNormalizer] })).toThrow('Unknown normalizer: bogus');
+  });
+
+  it('round-trips patches with one-sided blank lines (blankLines)', () => {
+    const original = 'one\n\ntwo\nthree\n\n\nfour\n';
+    const modified = 'one\ntwo\n\nthree\nfour\nfive\n\n';
+    const patch = formatUnifiedDiff(diff(original, modified, { normalizers: ['blankLines'] }));
+
+    expect(applyPatch(original, patch).text).toBe(modified);
+    expect(applyPatch(modified, patch, { reverse: true }).text).toBe(original);
+  });
+});
@@ -0,0 +1,44 @@
+import { diff } from '../core.js';
+
+const types = (original: string, modified: string, options = {}) =>
+  diff(original, modified, options).changes.map(change => change.type);
+
+describe('pairing removed and added lines', () => {
+  it('pairs each rewritten line with its closest counterpart', () => {
+    const result = diff(
+      'keep\nthe cat sat on the mat\nsome unrelated text here\nkeep',
+      'keep\nbrand new line of words\nthe cat sat on a mat\nkeep',
+      { detectMoves: false }
+    );
+    const modified = result.changes.filter(change => change.type === 'modified');
+
+    expect(modified).toHaveLength(1);
+    expect(modified[0]).toMatchObject({ original: 'the cat sat on the mat', modified: 'the cat sat on a mat' });
+    expect(result.stats).toMatchObject({ modified: 1, removed: 1, added: 1 });
+  });
+
+  it('keeps dissimilar lines as removals and additions', () => {
+    expect(types('alpha beta gamma', 'completely different words')).toEqual(['removed', 'added']);
+  });
+
+  it('honours similarityThreshold', () => {
+    const original = 'one two three four';
+    const modified = 'one two three five';
+
+    expect(types(original, modified, { similarityThreshold: 0.5 })).toEqual(['modified']);
+    expect(types(original, modified, { similarityThreshold: 0.95 })).toEqual(['removed', 'added']);
+  });
+
+  it('pairs words by position', () => {
+    expect(types('red', 'blue', { granularity: 'word' })).toEqual(['modified']);
+  });
+
+  it('applies the threshold to hunks too large to align', () => {
+    const original = Array.from({ length: 200 }, (_, k) => `original line number ${k}`).join('\n');
+    const disjoint = Array.from({ length: 200 }, (_, k) => `${k} xyzzy plugh`).join('\n');
+    const similar = Array.from({ length: 200 }, (_, k) => `original line number ${k}!`).join('\n');
+
+    expect(diff(original, disjoint, { detectMoves: false }).stats).toMatchObject({ modified: 0, removed: 200, added: 200 });
+    expect(diff(original, similar, { detectMoves: false }).stats).toMatchObject({ modified: 200, removed: 0, added: 0 });
+  });
+});
@@ -0,0 +1,112 @@
+import { applyPatch, diff, formatUnifiedDiff, parsePatch } from '../core.js';
+import type { DiffOptions } from '../core.js';
+
+const lines = (count: number, label = 'line') => Array.from({ length: count }, (_, k) => `${label} ${k + 1}`);
+
+const ORIGINAL = [...lines(20), ''].join('\n');
+const MODIFIED = [
+  ...lines(3),
+  'inserted near the top',
+  ...lines(6).slice(4),
+  'line 7 changed',
+  ...lines(20).slice(7, 15),
+  ...lines(20).slice(16),
+  'appended at the end',
+  '',
+].join('\n');
+
+function patchFor(original: string, modified: string, options: DiffOptions = {}): string {
+  return formatUnifiedDiff(diff(original, modified, options));
+}
+
+describe('formatUnifiedDiff and applyPatch', () => {
+  it.each([
+    ['separate hunks', ORIGINAL, MODIFIED],
+    ['an empty original', '', 'a\nb\n'],
+    ['an emptied text', 'a\nb\n', ''],
+    ['a missing final newline', 'a\nb\nc\n', 'a\nb\nC'],
+    ['an added final newline', 'a\nb', 'a\nb\n'],
+  ])('round-trips %s', (_, original, modified) => {
+    const patch = patchFor(original, modified);
+    const result = applyPatch(original, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe(modified);
+    expect(applyPatch(modified, patch, { reverse: true }).text).toBe(original);
+  });
+
+  it('returns an empty patch for equal texts', () => {
+    expect(patchFor(ORIGINAL, ORIGINAL)).toBe('');
+  });
+
+  it('writes GNU-style headers and hunk ranges', () => {
+    const patch = patchFor('a\nb\nc\n', 'a\nB\nc\n', { granularity: 'line' });
+
+    expect(patch).toBe('--- original\n+++ modified\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+    expect(parsePatch(patch)[0].hunks).toHaveLength(1);
+  });
+
+  it('places hunks that moved by an offset', () => {
+    const patch = patchFor(ORIGINAL, MODIFIED);
+    const header = 'a new header\nand another line\n';
+    const result = applyPatch(header + ORIGINAL, patch);
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe(header + MODIFIED);
+    expect(result.applied.every(hunk => hunk.offset === 2)).toBe(true);
+  });
+
+  it('respects maxOffset', () => {
+    const patch = patchFor(ORIGINAL, MODIFIED);
+    const result = applyPatch('a new header\nand another line\n' + ORIGINAL, patch, { maxOffset: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.rejected.length).toBeGreaterThan(0);
+  });
+
+  it('applies with fuzz when outer context lines differ', () => {
+    const patch = patchFor(ORIGINAL, MODIFIED);
+    const drifted = ORIGINAL.replace('line 1\n', 'line one\n');
+
+    const fuzzy = applyPatch(drifted, patch);
+    expect(fuzzy.success).toBe(true);
+    expect(fuzzy.text).toBe(MODIFIED.replace('line 1\n', 'line one\n'));
+    expect(fuzzy.applied.some(hunk => hunk.fuzz > 0)).toBe(true);
+
+    const strict = applyPatch(drifted, patch, { fuzz: 0 });
+    expect(strict.success).toBe(false);
+    expect(strict.rejected).toHaveLength(1);
+  });
+
+  it('fails a reverse patch against the original text', () => {
+    const patch = patchFor('a\nb\nc\n', 'a\nB\nc\n');
+
+    expect(applyPatch('a\nb\nc\n', patch, { reverse: true }).success).toBe(false);
+  });
+});
+
+describe('parsePatch', () => {
+  it('splits a multi-file patch and reads hunk headers', () => {
+    const patch = [
+      '--- a/one.txt',
+      '+++ b/one.txt',
+      '@@ -1,2 +1,2 @@ section name',
+      ' a',
+      '-b',
+      '+B',
+      '--- a/two.txt',
+      '+++ b/two.txt',
+      '@@ -3 +3,2 @@',
+      ' x',
+      '+y',
+      '',
+    ].join('\n');
+
+    const [first, second] = parsePatch(patch);
+
+    expect(first).toMatchObject({ originalName: 'a/one.txt', modifiedName: 'b/one.txt' });
+    expect(first.hunks[0]).toMatchObject({ originalStart: 1, originalLines: 2, modifiedStart: 1, modifiedLines: 2, section: 'section name' });
+    expect(second.hunks[0]).toMatchObject({ originalStart: 3, originalLines: 1, modifiedStart: 3, modifiedLines: 2 });
+    expect(() => applyPatch('x', patch)).toThrow('Patch contains 2 files');
+  });
+});
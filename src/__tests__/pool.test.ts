@@ -0,0 +1,71 @@
+import { DiffWorkerPool, PoolQueueFullError, PoolTimeoutError } from '../utils.js';
+import type { DiffStreamEvent } from '../core.js';
+
+const WORKER = new URL('./fixtures/pool-worker.mjs', import.meta.url);
+
+describe('DiffWorkerPool', () => {
+  let pool: DiffWorkerPool;
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('runs diffs on worker threads', async () => {
+    pool = new DiffWorkerPool(2, 10, 5000, WORKER);
+    const results = await Promise.all(['a', 'b', 'c'].map(text => pool.runDiff(text, text, {})));
+
+    expect(results.map(result => result.changes[0].original)).toEqual(['a', 'b', 'c']);
+    expect(pool.getStats()).toMatchObject({ size: 2, completed: 3, failed: 0, queued: 0 });
+  });
+
+  it('forwards stream events', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+    const events: DiffStreamEvent[] = [];
+    await pool.runStream('a', 'b', {}, event => events.push(event));
+
+    expect(events.map(event => event.progress)).toEqual([50, 100]);
+  });
+
+  it('rejects with the error reported by the worker', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+
+    await expect(pool.runDiff('fail', '', {})).rejects.toThrow('bad input');
+    expect(pool.getStats().failed).toBe(1);
+  });
+
+  it('rejects jobs beyond the queue limit', async () => {
+    pool = new DiffWorkerPool(1, 1, 5000, WORKER);
+    const running = pool.runDiff('slow', '', {});
+    const queued = pool.runDiff('slow', '', {});
+
+    expect(pool.hasCapacity()).toBe(false);
+    await expect(pool.runDiff('slow', '', {})).rejects.toBeInstanceOf(PoolQueueFullError);
+    await Promise.all([running, queued]);
+    expect(pool.getStats()).toMatchObject({ completed: 2, rejected: 1 });
+  });
+
+  it('times out and replaces a worker that does not answer', async () => {
+    pool = new DiffWorkerPool(1, 10, 200, WORKER);
+
+    await expect(pool.runDiff('hang', '', {})).rejects.toBeInstanceOf(PoolTimeoutError);
+    await expect(pool.runDiff('a', 'a', {})).resolves.toMatchObject({ changes: [{ original: 'a' }] });
+    expect(pool.getStats().timedOut).toBe(1);
+  });
+
+  it('fails the job of a worker that exits and keeps serving', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+    const queued = pool.runDiff('b', 'b', {});
+
+    await expect(pool.runDiff('exit', '', {})).rejects.toThrow('Diff worker exited with code 3');
+    await expect(queued).resolves.toMatchObject({ changes: [{ original: 'b' }] });
+  });
+
+  it('rejects queued jobs on close', async () => {
+    pool = new DiffWorkerPool(1, 10, 5000, WORKER);
+    const running = expect(pool.runDiff('hang', '', {})).rejects.toThrow('Worker pool closed');
+    const queued = expect(pool.runDiff('a', 'a', {})).rejects.toThrow('Worker pool closed');
+    await pool.close();
+
+    await Promise.all([running, queued]);
+  });
+});
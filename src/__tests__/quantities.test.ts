@@ -0,0 +1,69 @@
+import { describeQuantityDelta, diff } from '../core.js';
+import type { DiffChange, QuantityDelta } from '../core.js';
+
+function modifiedChange(original: string, modified: string): DiffChange {
+  const result = diff(`keep\n${original}\nkeep`, `keep\n${modified}\nkeep`, { semanticAnalysis: true, similarityThreshold: 0 });
+  return result.changes.find(change => change.type === 'modified')!;
+}
+
+function quantitiesOf(original: string, modified: string): QuantityDelta[] | undefined {
+  return modifiedChange(original, modified).quantities;
+}
+
+describe('changed figures', () => {
+  it.each<[string, string, string, Partial<QuantityDelta>]>([
+    ['number', 'We have 12 seats', 'We have 15 seats', { kind: 'number', delta: 3, relativeChange: 0.25 }],
+    ['currency symbol', 'Price is $1,200', 'Price is $1,500', { kind: 'currency', unit: '$', delta: 300 }],
+    ['currency code', 'Fee of 40 EUR', 'Fee of 50 eur', { kind: 'currency', unit: 'EUR', delta: 10 }],
+    ['percentage', 'Rate is 5%', 'Rate is 7.5 percent', { kind: 'percentage', unit: '%', delta: 2.5 }],
+    ['measure', 'Ships in 30 days', 'Ships in 45 days', { kind: 'measure', unit: 'day', delta: 15 }],
+    ['ISO date', 'Due 2024-03-01', 'Due 2024-03-15', { kind: 'date', unit: 'day', delta: 14 }],
+    ['written date', 'Due March 5, 2024', 'Due 5 April 2024', { kind: 'date', delta: 31 }],
+  ])('pairs a changed %s', (_label, original, modified, expected) => {
+    expect(quantitiesOf(original, modified)).toEqual([expect.objectContaining(expected)]);
+  });
+
+  it('reads a leading minus as a negative value', () => {
+    expect(quantitiesOf('Balance -5', 'Balance 3')).toEqual([
+      expect.objectContaining({ originalValue: -5, modifiedValue: 3, delta: 8, relativeChange: 1.6 }),
+    ]);
+    expect(quantitiesOf('Change −3.5%', 'Change −1%')).toEqual([
+      expect.objectContaining({ kind: 'percentage', original: '−3.5%', originalValue: -3.5, modifiedValue: -1, delta: 2.5 }),
+    ]);
+    expect(quantitiesOf('Refund -$40', 'Refund $-25')).toEqual([
+      expect.objectContaining({ kind: 'currency', unit: '$', originalValue: -40, modifiedValue: -25, delta: 15 }),
+    ]);
+  });
+
+  it('does not read hyphens between words or numbers as minus signs', () => {
+    expect(quantitiesOf('pages 5-10 of COVID-19', 'pages 5-12 of COVID-19')).toEqual([
+      expect.objectContaining({ original: '10', modified: '12', delta: 2 }),
+    ]);
+  });
+
+  it('pairs figures around the ones that did not change', () => {
+    const quantities = quantitiesOf('Pay $10 now and $20 in 3 days', 'Pay $10 now, $25 later and $5 in 4 days');
+
+    expect(quantities?.map(quantity => [quantity.original, quantity.modified])).toEqual([['$20', '$25'], ['3 days', '4 days']]);
+  });
+
+  it('skips figures inside version strings and words', () => {
+    expect(quantitiesOf('Requires v1.2.3 on x86', 'Requires v1.2.4 on x64')).toBeUndefined();
+  });
+
+  it('describes deltas in the explanation', () => {
+    const change = modifiedChange('Ships in 30 days', 'Ships in 45 days');
+
+    expect(change.explanation).toMatch(/^Changed 30 days → 45 days \(\+15 days, \+50%\)\. /);
+  });
+
+  it.each<[string, QuantityDelta]>([
+    ['$1,200 → $900 (-$300, -25%)', { kind: 'currency', original: '$1,200', modified: '$900', originalValue: 1200, modifiedValue: 900, delta: -300, relativeChange: -0.25, unit: '$' }],
+    ['40 EUR → 41 EUR (+1 EUR, +2.5%)', { kind: 'currency', original: '40 EUR', modified: '41 EUR', originalValue: 40, modifiedValue: 41, delta: 1, relativeChange: 0.025, unit: 'EUR' }],
+    ['5% → 4% (-1 point, -20%)', { kind: 'percentage', original: '5%', modified: '4%', originalValue: 5, modifiedValue: 4, delta: -1, relativeChange: -0.2, unit: '%' }],
+    ['2024-03-01 → 2024-03-02 (+1 day)', { kind: 'date', original: '2024-03-01', modified: '2024-03-02', originalValue: 19783, modifiedValue: 19784, delta: 1, unit: 'day' }],
+    ['2 kg → 5 kg (+3 kg, +150%)', { kind: 'measure', original: '2 kg', modified: '5 kg', originalValue: 2, modifiedValue: 5, delta: 3, relativeChange: 1.5, unit: 'kg' }],
+  ])('describes %s', (text, quantity) => {
+    expect(describeQuantityDelta(quantity)).toBe(text);
+  });
+});
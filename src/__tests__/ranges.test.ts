@@ -0,0 +1,45 @@
+import { diff } from '../core.js';
+import type { DiffOptions, TextRange } from '../core.js';
+
+const slice = (text: string, range: TextRange) => text.slice(range.start.offset, range.end.offset);
+
+describe('change ranges', () => {
+  it('locates lines with line and column positions', () => {
+    const result = diff('first\nsecond\nthird', 'first\nsecond line\nthird');
+    const modified = result.changes.find(change => change.type === 'modified')!;
+
+    expect(modified.originalRange).toEqual({
+      start: { offset: 6, line: 2, column: 1 },
+      end: { offset: 12, line: 2, column: 7 },
+    });
+    expect(modified.modifiedRange?.end).toEqual({ offset: 17, line: 2, column: 12 });
+  });
+
+  it.each<DiffOptions['granularity']>(['line', 'word', 'character', 'sentence', 'paragraph'])(
+    'points every %s change at its own text',
+    granularity => {
+      const original = 'One fish. Two fish.\r\n\r\nRed fish, blue fish.\nThe end.';
+      const modified = 'One fish. Three fish.\n\nRed fish, old fish.\r\nThe end!';
+      const result = diff(original, modified, { granularity });
+
+      for (const change of result.changes) {
+        if (change.original !== undefined) expect(slice(original, change.originalRange!)).toBe(change.original);
+        if (change.modified !== undefined) expect(slice(modified, change.modifiedRange!)).toBe(change.modified);
+      }
+    }
+  );
+
+  it('keeps the carriage return of a CRLF line break out of the line range', () => {
+    const [first, second] = diff('a\r\nb', 'a\r\nc').changes;
+
+    expect(first.originalRange).toEqual({ start: { offset: 0, line: 1, column: 1 }, end: { offset: 1, line: 1, column: 2 } });
+    expect(second.originalRange?.start).toEqual({ offset: 3, line: 2, column: 1 });
+  });
+
+  it('counts columns in UTF-16 code units', () => {
+    const result = diff('😀 smile', '😀 grin', { granularity: 'word' });
+    const removed = result.changes.find(change => change.original === 'smile')!;
+
+    expect(removed.originalRange?.start).toEqual({ offset: 3, line: 1, column: 4 });
+  });
+});
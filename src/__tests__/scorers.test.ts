@@ -0,0 +1,69 @@
+import { diff, listSimilarityScorers, registerSimilarityScorer } from '../core.js';
+import type { DiffOptions } from '../core.js';
+
+function similarity(text1: string, text2: string, similarityScorer: DiffOptions['similarityScorer']): number {
+  const [change] = diff(text1, text2, { semanticAnalysis: true, similarityScorer, similarityThreshold: 0 }).changes;
+  return change.similarity!;
+}
+
+describe('similarity scorers', () => {
+  it('lists the built-in scorers', () => {
+    expect(listSimilarityScorers()).toEqual(expect.arrayContaining(['jaccard', 'levenshtein', 'ngram', 'tfidf', 'alignment']));
+  });
+
+  it('scores edit distance over characters (levenshtein)', () => {
+    expect(similarity('kitten', 'sitting', 'levenshtein')).toBeCloseTo(1 - 3 / 7);
+  });
+
+  it('counts shared words when texts are too long for an edit distance (levenshtein)', () => {
+    const words = Array.from({ length: 3000 }, (_, k) => `w${k}`);
+    const reversed = words.map((word, k) => (k < 1500 ? `x${k}` : word)).reverse();
+
+    // 1,500 words and all 2,999 separators are shared out of 5,999 tokens
+    expect(similarity(words.join(' '), reversed.join(' '), 'levenshtein')).toBeCloseTo(4499 / 5999);
+  });
+
+  it('lowers the score of reordered words (alignment)', () => {
+    const jaccard = similarity('one two three four', 'four three two one', 'jaccard');
+    const alignment = similarity('one two three four', 'four three two one', 'alignment');
+
+    expect(alignment).toBeLessThan(jaccard);
+    expect(alignment).toBeCloseTo(2 / 8);
+  });
+
+  it('tolerates typos (ngram)', () => {
+    expect(similarity('the quick brown fox', 'the quikc brown fox', 'ngram'))
+      .toBeGreaterThan(similarity('the quick brown fox', 'the quikc brown fox', 'jaccard'));
+  });
+
+  it('blends scorers by weight', () => {
+    const levenshtein = similarity('kitten', 'sitting', 'levenshtein');
+    const ngram = similarity('kitten', 'sitting', 'ngram');
+
+    expect(similarity('kitten', 'sitting', { levenshtein: 3, ngram: 1, tfidf: 0 })).toBeCloseTo((3 * levenshtein + ngram) / 4);
+  });
+
+  it('uses registered scorers and their comparison limit', () => {
+    let calls = 0;
+    registerSimilarityScorer({
+      name: 'counting',
+      maxComparisons: 4,
+      score: () => {
+        calls++;
+        return 1;
+      },
+    });
+
+    // 3 × 3 pairs exceed the limit, so only the lines at the same position are compared
+    const result = diff('a\nb\nc\nkeep', 'x x\ny y\nz z\nkeep', { similarityScorer: 'counting' });
+
+    expect(calls).toBe(3);
+    expect(result.stats.modified).toBe(3);
+  });
+
+  it('rejects taken names, unknown scorers and weights that are all zero', () => {
+    expect(() => registerSimilarityScorer({ name: 'jaccard', score: () => 0 })).toThrow('already registered');
+    expect(() => diff('a\nb', 'a\nc', { similarityScorer: 'bogus' })).toThrow('Unknown similarity scorer: bogus');
+    expect(() => diff('a b c\nd', 'a b x\nd', { similarityScorer: { ngram: 0 } })).toThrow('positive weight');
+  });
+});
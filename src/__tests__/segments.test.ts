@@ -0,0 +1,56 @@
+import { computeCharacterDiff, diff } from '../core.js';
+import type { DiffSegment } from '../core.js';
+
+const join = (segments: DiffSegment[], side: 'original' | 'modified') => segments
+  .filter(segment => segment.type === 'equal' || segment.type === (side === 'original' ? 'removed' : 'added'))
+  .map(segment => segment.text)
+  .join('');
+
+describe('segments', () => {
+  it('attaches word and character segments to modified lines', () => {
+    const [change] = diff('the quick brown fox', 'the quick red fox').changes;
+
+    expect(change.type).toBe('modified');
+    expect(change.segments?.words).toEqual([
+      { type: 'equal', text: 'the quick ' },
+      { type: 'removed', text: 'brown' },
+      { type: 'added', text: 'red' },
+      { type: 'equal', text: ' fox' },
+    ]);
+    expect(change.segments?.characters).toEqual([
+      { type: 'equal', text: 'the quick ' },
+      { type: 'removed', text: 'b' },
+      { type: 'equal', text: 'r' },
+      { type: 'removed', text: 'own' },
+      { type: 'added', text: 'ed' },
+      { type: 'equal', text: ' fox' },
+    ]);
+  });
+
+  it.each([
+    ['price: 10.00 USD', 'price: 12.50 EUR'],
+    ['', 'something new'],
+    ['naïve café', 'naive cafe'],
+    ['a, b, c', 'a; b; c; d'],
+  ])('rebuilds both sides from the segments of %j', (original, modified) => {
+    const { segments } = diff(`x\n${original}\ny`, `x\n${modified}\ny`, { similarityThreshold: 0 }).changes[1];
+
+    for (const level of [segments!.words, segments!.characters]) {
+      expect(join(level, 'original')).toBe(original);
+      expect(join(level, 'modified')).toBe(modified);
+    }
+  });
+
+  it('leaves unchanged, added and removed lines without segments', () => {
+    const result = diff('a\nb\n', 'a\n');
+
+    expect(result.changes.every(change => change.segments === undefined)).toBe(true);
+  });
+
+  it('marks characters with computeCharacterDiff', () => {
+    const { original, modified } = computeCharacterDiff('cat', 'cart');
+
+    expect(original.map(c => c.type)).toEqual(['unchanged', 'unchanged', 'unchanged']);
+    expect(modified.map(c => `${c.char}:${c.type}`)).toEqual(['c:unchanged', 'a:unchanged', 'r:added', 't:unchanged']);
+  });
+});
@@ -0,0 +1,62 @@
+import { diff, streamDiff } from '../core.js';
+import type { DiffStreamEvent } from '../core.js';
+import { rebuild } from './helpers.js';
+
+async function collect(stream: AsyncGenerator<DiffStreamEvent>): Promise<DiffStreamEvent[]> {
+  const events: DiffStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+const ORIGINAL = Array.from({ length: 400 }, (_, k) => `entry ${k}: value ${k * 7}`).join('\n');
+const MODIFIED = ORIGINAL
+  .replace('entry 10: value 70', 'entry 10: value 71')
+  .replace('entry 200: value 1400\n', '')
+  .replace('entry 399: value 2793', 'entry 399: value 2793\nentry 400: value 2800');
+
+describe('streamDiff', () => {
+  it('emits each change exactly once across chunks', async () => {
+    const events = await collect(streamDiff(ORIGINAL, MODIFIED, {}, 500));
+    const changes = events.flatMap(event => event.changes);
+
+    expect(events.length).toBeGreaterThan(1);
+    expect(rebuild(changes, 'original')).toBe(ORIGINAL);
+    expect(rebuild(changes, 'modified')).toBe(MODIFIED);
+    expect(events[events.length - 1].stats).toEqual(diff(ORIGINAL, MODIFIED).stats);
+  });
+
+  it('cuts on shared anchors so shifted text is not reported as changed', async () => {
+    const shifted = `a new first line that is rather long\n${ORIGINAL}`;
+    const events = await collect(streamDiff(ORIGINAL, shifted, {}, 200));
+
+    expect(events[events.length - 1].stats).toMatchObject({ added: 1, removed: 0, modified: 0, unchanged: 400 });
+  });
+
+  it('reports progress and completion', async () => {
+    const events = await collect(streamDiff(ORIGINAL, MODIFIED, {}, 500));
+    const progress = events.map(event => event.progress);
+
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(events.map(event => event.complete)).toEqual([...events.slice(1).map(() => false), true]);
+  });
+
+  it('keeps running stats cumulative', async () => {
+    const events = await collect(streamDiff(ORIGINAL, MODIFIED, {}, 500));
+    let unchanged = 0;
+
+    for (const event of events) {
+      unchanged += event.changes.filter(change => change.type === 'unchanged').length;
+      expect(event.stats.unchanged).toBe(unchanged);
+    }
+  });
+
+  it('emits a single complete event for empty inputs', async () => {
+    const events = await collect(streamDiff('', ''));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ progress: 100, complete: true });
+  });
+});
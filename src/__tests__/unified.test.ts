@@ -0,0 +1,72 @@
+import { diff, formatUnifiedDiff } from '../core.js';
+
+const ORIGINAL = 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\n';
+const MODIFIED = 'a\nB\nc\nd\ne\nf\ng\nh\nI\nj\n';
+
+// Expected outputs match `diff -u` (GNU diffutils) without timestamps
+describe('formatUnifiedDiff', () => {
+  it('splits changes further apart than twice the context into hunks', () => {
+    expect(formatUnifiedDiff(diff(ORIGINAL, MODIFIED), { context: 1 })).toBe([
+      '--- original',
+      '+++ modified',
+      '@@ -1,3 +1,3 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      '@@ -8,3 +8,3 @@',
+      ' h',
+      '-i',
+      '+I',
+      ' j',
+      '',
+    ].join('\n'));
+  });
+
+  it('merges hunks whose context overlaps', () => {
+    const patch = formatUnifiedDiff(diff(ORIGINAL, MODIFIED));
+
+    expect(patch.match(/^@@/gm)).toHaveLength(1);
+    expect(patch).toContain('@@ -1,10 +1,10 @@\n a\n-b\n+B\n c\n d\n e\n f\n g\n h\n-i\n+I\n j\n');
+  });
+
+  it('writes only changed lines with zero context', () => {
+    const patch = formatUnifiedDiff(diff(ORIGINAL, MODIFIED), { context: 0 });
+
+    expect(patch).toContain('@@ -2 +2 @@\n-b\n+B\n@@ -9 +9 @@\n-i\n+I\n');
+  });
+
+  it('points an empty range at the line before it', () => {
+    expect(formatUnifiedDiff(diff('', 'x\ny\n'))).toBe('--- original\n+++ modified\n@@ -0,0 +1,2 @@\n+x\n+y\n');
+  });
+
+  it('marks lines without a final newline', () => {
+    expect(formatUnifiedDiff(diff('a\nb', 'a\nc'))).toBe([
+      '--- original',
+      '+++ modified',
+      '@@ -1,2 +1,2 @@',
+      ' a',
+      '-b',
+      '\\ No newline at end of file',
+      '+c',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n'));
+  });
+
+  it('marks a final newline added to one side', () => {
+    expect(formatUnifiedDiff(diff('a\nb', 'a\nb\n'))).toBe(
+      '--- original\n+++ modified\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n'
+    );
+  });
+
+  it('uses the given file names', () => {
+    const patch = formatUnifiedDiff(diff('a\n', 'b\n'), { originalName: 'a/readme.md', modifiedName: 'b/readme.md' });
+
+    expect(patch.startsWith('--- a/readme.md\n+++ b/readme.md\n')).toBe(true);
+  });
+
+  it('returns an empty string when nothing changed', () => {
+    expect(formatUnifiedDiff(diff(ORIGINAL, ORIGINAL))).toBe('');
+  });
+});
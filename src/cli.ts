@@ -4,16 +4,68 @@
  * CLI entry point for text diff tool
  */
 
-import { readFileSync } from 'fs';
-import { diff, formatDiff, formatDiffJson, type DiffOptions } from './core.js';
+import { readFileSync, existsSync } from 'fs';
+import {
+  diff,
+  formatDiff,
+  formatDiffJson,
+  formatUnifiedDiff,
+  applyPatch,
+  merge3,
+  detectLanguage,
+  type CodeLanguage,
+  type DiffMask,
+  type DiffMaskPreset,
+  type DiffOptions,
+  type DiffAlgorithm,
+  type ApplyPatchOptions,
+  type Merge3Options,
+} from './core.js';
 import { VERSION } from './utils.js';
 
+/**
+ * Reads a --mask value: a preset name, or /pattern/flags with an optional name= prefix
+ */
+function parseMask(value: string | undefined): DiffMask {
+  if (!value) {
+    console.error('Error: --mask needs a preset or a /pattern/');
+    process.exit(1);
+  }
+  const custom = value.match(/^(?:([\w-]+)=)?\/(.*)\/([a-z]*)$/s);
+  if (custom) {
+    const [, name, pattern, flags] = custom;
+    return { pattern, flags: flags || undefined, name };
+  }
+  return value as DiffMaskPreset;
+}
+
+/**
+ * Reads a --scorer value: a scorer name, or name:weight pairs separated by commas
+ */
+function parseScorer(value: string | undefined): DiffOptions['similarityScorer'] {
+  if (!value) {
+    console.error('Error: --scorer needs a scorer name or name:weight,... pairs');
+    process.exit(1);
+  }
+  if (!value.includes(':')) return value;
+  const weights: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [name, weight] = pair.split(':');
+    weights[name.trim()] = Number(weight);
+    if (!name.trim() || !Number.isFinite(weights[name.trim()])) {
+      console.error(`Error: invalid --scorer weight "${pair}"`);
+      process.exit(1);
+    }
+  }
+  return weights;
+}
+
 function parseArgs(args: string[]): {
   original: string;
   modified: string;
-  options: DiffOptions & { output?: 'text' | 'json' };
+  options: DiffOptions & { output?: 'text' | 'json' | 'unified'; context?: number };
 } {
-  const options: DiffOptions & { output?: 'text' | 'json' } = {
+  const options: DiffOptions & { output?: 'text' | 'json' | 'unified'; context?: number } = {
     granularity: 'line',
     ignoreWhitespace: false,
     ignoreCase: false,
@@ -28,7 +80,11 @@ function parseArgs(args: string[]): {
     switch (arg) {
       case '--granularity':
       case '-g':
-        options.granularity = args[++i] as 'line' | 'word' | 'character';
+        options.granularity = args[++i] as DiffOptions['granularity'];
+        break;
+      case '--algorithm':
+      case '-a':
+        options.algorithm = args[++i] as DiffAlgorithm;
         break;
       case '--ignore-whitespace':
       case '-w':
@@ -38,9 +94,93 @@ function parseArgs(args: string[]): {
       case '-i':
         options.ignoreCase = true;
         break;
+      case '--ignore-trailing-space':
+      case '-Z':
+        options.normalizers = [...(options.normalizers || []), 'trailingWhitespace'];
+        break;
+      case '--ignore-blank-lines':
+      case '-B':
+        options.normalizers = [...(options.normalizers || []), 'blankLines'];
+        break;
+      case '--ignore-line-endings':
+        options.normalizers = [...(options.normalizers || []), 'lineEndings'];
+        break;
+      case '--unicode': {
+        const form = args[++i]?.toLowerCase();
+        if (form !== 'nfc' && form !== 'nfkc') {
+          console.error('Error: --unicode must be nfc or nfkc');
+          process.exit(1);
+        }
+        options.normalizers = [...(options.normalizers || []), form];
+        break;
+      }
+      case '--normalize-quotes':
+        options.normalizers = [...(options.normalizers || []), 'quotes'];
+        break;
+      case '--normalize-dashes':
+        options.normalizers = [...(options.normalizers || []), 'dashes'];
+        break;
+      case '--locale':
+        options.locale = args[++i];
+        break;
+      case '--mask':
+      case '-m':
+        options.masks = [...(options.masks || []), parseMask(args[++i])];
+        break;
+      case '--scorer':
+        options.similarityScorer = parseScorer(args[++i]);
+        break;
+      case '--no-moves':
+        options.detectMoves = false;
+        break;
+      case '--key-order':
+        options.ignoreKeyOrder = false;
+        break;
+      case '--array-key':
+        options.arrayKey = args[++i];
+        break;
+      case '--language':
+      case '-l':
+        options.language = args[++i] as CodeLanguage;
+        break;
+      case '--ignore-comments':
+        options.ignoreComments = true;
+        break;
+      case '--ignore-strings':
+        options.ignoreStringContents = true;
+        break;
+      case '--key':
+      case '-k':
+        options.keyColumns = [...(options.keyColumns || []), args[++i]];
+        break;
+      case '--delimiter':
+        options.delimiter = args[++i] === '\\t' ? '\t' : args[i];
+        break;
+      case '--timeout':
+        options.timeoutMs = parseInt(args[++i], 10);
+        if (isNaN(options.timeoutMs) || options.timeoutMs < 0) {
+          console.error('Error: --timeout must be a non-negative integer');
+          process.exit(1);
+        }
+        break;
+      case '--max-cost':
+        options.maxEditCost = parseInt(args[++i], 10);
+        if (isNaN(options.maxEditCost) || options.maxEditCost < 0) {
+          console.error('Error: --max-cost must be a non-negative integer');
+          process.exit(1);
+        }
+        break;
       case '--output':
       case '-o':
-        options.output = args[++i] as 'text' | 'json';
+        options.output = args[++i] as 'text' | 'json' | 'unified';
+        break;
+      case '--context':
+      case '-U':
+        options.context = parseInt(args[++i], 10);
+        if (isNaN(options.context) || options.context < 0) {
+          console.error('Error: --context must be a non-negative integer');
+          process.exit(1);
+        }
         break;
       case '--version':
       case '-v':
@@ -51,12 +191,40 @@ function parseArgs(args: string[]): {
       case '-h':
         console.log(`
 Usage: text-diff [options] <original> <modified>
+       text-diff patch [options] <file> <patchfile>
+       text-diff merge3 [options] <base> <ours> <theirs>
 
 Options:
-  -g, --granularity <level>    Diff granularity: line, word, or character (default: line)
+  -g, --granularity <level>    Diff granularity: line, word, character, sentence, paragraph,
+                               markdown, code, json, csv, or hierarchical (default: line)
+  -a, --algorithm <name>       Alignment algorithm: myers, patience, or histogram (default: myers)
   -w, --ignore-whitespace       Ignore whitespace differences
   -i, --ignore-case             Ignore case differences
-  -o, --output <format>         Output format: text or json (default: text)
+  -Z, --ignore-trailing-space   Ignore spaces and tabs at the end of lines
+  -B, --ignore-blank-lines      Ignore inserted and deleted blank lines (line granularity)
+      --ignore-line-endings     Treat CRLF and CR line endings as LF
+      --unicode <form>          Compare in Unicode normalization form nfc or nfkc
+      --normalize-quotes        Treat curly quotes as straight quotes
+      --normalize-dashes        Treat en/em dashes and minus signs as hyphens
+      --locale <tag>            Segment graphemes, words and sentences for this locale, e.g. en, ja
+  -m, --mask <mask>             Compare volatile tokens as equal: iso-date, uuid, hex-hash, ip, number,
+                               or /regex/flags (name=/regex/ to label it); repeatable
+      --scorer <name>           Similarity scorer for pairing lines and edited moves: jaccard,
+                               levenshtein, ngram, tfidf, or alignment (default: jaccard);
+                               name:weight,... blends several
+      --no-moves                Report moved blocks as removals and additions
+      --key-order               Report reordered object keys (json granularity)
+      --array-key <key>         Match array elements by this property (json granularity)
+  -l, --language <name>         Language for code granularity: javascript, typescript, python,
+                               json, or shell (default: from the file extension)
+      --ignore-comments         Ignore comment changes (code granularity)
+      --ignore-strings          Ignore changes inside string literals (code granularity)
+  -k, --key <column>            Match rows by this column; repeat for a composite key (csv granularity)
+      --delimiter <char>        Field separator, e.g. ';' or '\\t' (csv granularity; default: detected)
+      --timeout <ms>            Stop refining after this many milliseconds
+      --max-cost <n>            Stop refining after this many edit steps
+  -o, --output <format>         Output format: text, json, or unified (default: text)
+  -U, --context <lines>         Context lines for unified output (default: 3)
   -v, --version                 Show version number
   -h, --help                    Show this help message
 
@@ -67,8 +235,23 @@ Arguments:
 Examples:
   text-diff file1.txt file2.txt
   text-diff -g word "old text" "new text"
+  text-diff -g word --locale ja old-ja.txt new-ja.txt
   text-diff -w -i file1.txt file2.txt
+  text-diff -Z -B --normalize-quotes draft.txt final.txt
+  text-diff -m iso-date -m uuid -m 'request-id=/REQ-\\d+/' report-old.txt report-new.txt
+  text-diff -a patience old.js new.js
+  text-diff --scorer ngram:2,alignment:1 old.txt new.txt
+  text-diff -g markdown README.old.md README.md
+  text-diff -g hierarchical essay-v1.txt essay-v2.txt
+  text-diff -g json --array-key id old.json new.json
+  text-diff -g code --ignore-comments old.py new.py
+  text-diff -g csv -k id export-old.csv export-new.csv
+  text-diff --timeout 2000 huge-old.log huge-new.log
+  text-diff -o unified -U 5 old.txt new.txt > changes.patch
   echo "text1" | text-diff - "text2"
+  text-diff patch -F 3 draft.md review.patch > draft-patched.md
+
+Run "text-diff patch --help" or "text-diff merge3 --help" for command options.
         `);
         process.exit(0);
         break;
@@ -90,9 +273,185 @@ Examples:
     process.exit(1);
   }
 
+  if (options.granularity === 'code' && !options.language) {
+    options.language = detectLanguage(modified) ?? detectLanguage(original);
+  }
+
+  if ((options.granularity === 'json' || options.granularity === 'csv') && options.output === 'unified') {
+    console.error(`Error: ${options.granularity.toUpperCase()} diffs have no unified output; use --output text or json`);
+    process.exit(1);
+  }
+
   return { original, modified, options };
 }
 
+function parsePatchArgs(args: string[]): {
+  target: string;
+  patch: string;
+  options: ApplyPatchOptions;
+} {
+  const options: ApplyPatchOptions = {};
+
+  let target: string | undefined;
+  let patch: string | undefined;
+
+  const readCount = (name: string, value: string | undefined): number => {
+    const count = parseInt(value ?? '', 10);
+    if (isNaN(count) || count < 0) {
+      console.error(`Error: ${name} must be a non-negative integer`);
+      process.exit(1);
+    }
+    return count;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--reverse':
+      case '-R':
+        options.reverse = true;
+        break;
+      case '--fuzz':
+      case '-F':
+        options.fuzz = readCount('--fuzz', args[++i]);
+        break;
+      case '--max-offset':
+        options.maxOffset = readCount('--max-offset', args[++i]);
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Usage: text-diff patch [options] <file> <patchfile>
+
+Applies a unified diff to <file> and writes the result to stdout.
+Hunks that cannot be placed are reported on stderr and the exit code is 1.
+
+Options:
+  -R, --reverse                 Apply the patch in reverse
+  -F, --fuzz <lines>            Context lines that may be ignored per hunk end (default: 2)
+      --max-offset <lines>      Maximum lines a hunk may move (default: unlimited)
+  -h, --help                    Show this help message
+
+Arguments:
+  <file>                        File to patch (use - for stdin)
+  <patchfile>                   Unified diff to apply (use - for stdin)
+
+Examples:
+  text-diff patch notes.txt changes.patch > notes.new.txt
+  text-diff patch -R notes.new.txt changes.patch
+        `);
+        process.exit(0);
+        break;
+      default:
+        if (!target) {
+          target = arg;
+        } else if (!patch) {
+          patch = arg;
+        } else {
+          console.error(`Unknown argument: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  if (!target || !patch) {
+    console.error('Error: Both file and patchfile arguments are required');
+    console.error('Use text-diff patch --help for usage information');
+    process.exit(1);
+  }
+
+  return { target, patch, options };
+}
+
+function parseMergeArgs(args: string[]): {
+  base: string;
+  ours: string;
+  theirs: string;
+  options: Merge3Options & { output?: 'text' | 'json' };
+} {
+  const options: Merge3Options & { output?: 'text' | 'json' } = {
+    labels: {},
+    output: 'text',
+  };
+  const sources: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--algorithm':
+      case '-a':
+        options.algorithm = args[++i] as DiffAlgorithm;
+        break;
+      case '--ignore-whitespace':
+      case '-w':
+        options.ignoreWhitespace = true;
+        break;
+      case '--ignore-case':
+      case '-i':
+        options.ignoreCase = true;
+        break;
+      case '--style':
+      case '-s':
+        options.conflictStyle = args[++i] as 'markers' | 'diff3' | 'list';
+        break;
+      case '--ours-label':
+        options.labels!.ours = args[++i];
+        break;
+      case '--base-label':
+        options.labels!.base = args[++i];
+        break;
+      case '--theirs-label':
+        options.labels!.theirs = args[++i];
+        break;
+      case '--output':
+      case '-o':
+        options.output = args[++i] as 'text' | 'json';
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Usage: text-diff merge3 [options] <base> <ours> <theirs>
+
+Merges two versions edited from a common base and writes the result to stdout.
+The exit code is 1 when conflicts remain.
+
+Options:
+  -a, --algorithm <name>       Alignment algorithm: myers, patience, or histogram (default: myers)
+  -w, --ignore-whitespace       Ignore whitespace differences
+  -i, --ignore-case             Ignore case differences
+  -s, --style <style>           Conflict style: markers, diff3, or list (default: markers)
+      --ours-label <label>      Label after <<<<<<< (default: ours)
+      --base-label <label>      Label after ||||||| (default: base)
+      --theirs-label <label>    Label after >>>>>>> (default: theirs)
+  -o, --output <format>         Output format: text or json (default: text)
+  -h, --help                    Show this help message
+
+Examples:
+  text-diff merge3 base.md alice.md bob.md > merged.md
+  text-diff merge3 -s list base.md alice.md bob.md
+        `);
+        process.exit(0);
+        break;
+      default:
+        if (sources.length < 3) {
+          sources.push(arg);
+        } else {
+          console.error(`Unknown argument: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  if (sources.length < 3) {
+    console.error('Error: base, ours and theirs arguments are required');
+    console.error('Use text-diff merge3 --help for usage information');
+    process.exit(1);
+  }
+
+  const [base, ours, theirs] = sources;
+  return { base, ours, theirs, options };
+}
+
 function readText(source: string): string {
   if (source === '-') {
     return readFileSync(0, 'utf-8');
@@ -105,20 +464,112 @@ function readText(source: string): string {
   }
 }
 
+function sourceName(source: string, fallback: string): string {
+  if (source === '-') {
+    return 'stdin';
+  }
+  return existsSync(source) ? source : fallback;
+}
+
+function runPatch(args: string[]) {
+  const { target, patch, options } = parsePatchArgs(args);
+
+  let result;
+  try {
+    result = applyPatch(readText(target), readText(patch), options);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  for (const hunk of result.applied) {
+    if (hunk.offset !== 0 || hunk.fuzz !== 0) {
+      const details = [
+        hunk.fuzz !== 0 ? `fuzz ${hunk.fuzz}` : '',
+        hunk.offset !== 0 ? `offset ${hunk.offset} line${Math.abs(hunk.offset) !== 1 ? 's' : ''}` : '',
+      ].filter(Boolean).join(', ');
+      console.error(`Hunk #${hunk.index + 1} succeeded at ${hunk.line} (${details}).`);
+    }
+  }
+  for (const hunk of result.rejected) {
+    console.error(`${hunk.reason}; hunk FAILED`);
+  }
+
+  process.stdout.write(result.text);
+  process.exit(result.success ? 0 : 1);
+}
+
+function runMerge(args: string[]) {
+  const { base, ours, theirs, options } = parseMergeArgs(args);
+
+  let result;
+  try {
+    result = merge3(readText(base), readText(ours), readText(theirs), options);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (options.output === 'json') {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (options.conflictStyle === 'list') {
+    result.conflicts.forEach((conflict, index) => {
+      console.log(`Conflict ${index + 1} at merged line ${conflict.mergedLine}:`);
+      console.log(`  base   (line ${conflict.base.start}): ${conflict.base.lines.join('\n    ')}`);
+      console.log(`  ours   (line ${conflict.ours.start}): ${conflict.ours.lines.join('\n    ')}`);
+      console.log(`  theirs (line ${conflict.theirs.start}): ${conflict.theirs.lines.join('\n    ')}`);
+    });
+    console.log(`${result.conflicts.length} conflict${result.conflicts.length !== 1 ? 's' : ''}`);
+  } else {
+    process.stdout.write(result.merged);
+    if (!result.clean) {
+      console.error(`${result.conflicts.length} conflict${result.conflicts.length !== 1 ? 's' : ''}`);
+    }
+  }
+
+  process.exit(result.clean ? 0 : 1);
+}
+
 function main() {
   const args = process.argv.slice(2);
+  if (args[0] === 'patch') {
+    runPatch(args.slice(1));
+    return;
+  }
+  if (args[0] === 'merge3') {
+    runMerge(args.slice(1));
+    return;
+  }
+
   const { original, modified, options } = parseArgs(args);
 
   const originalText = readText(original);
   const modifiedText = readText(modified);
 
-  const result = diff(originalText, modifiedText, options);
+  let result;
+  try {
+    result = diff(originalText, modifiedText, options);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
 
   if (options.output === 'json') {
     console.log(formatDiffJson(result));
+  } else if (options.output === 'unified') {
+    process.stdout.write(formatUnifiedDiff(result, {
+      context: options.context,
+      originalName: sourceName(original, 'original'),
+      modifiedName: sourceName(modified, 'modified'),
+    }));
   } else {
     console.log(formatDiff(result, { color: true }));
   }
+
+  if (result.approximate) {
+    const limit = result.approximateReason === 'timeout' ? '--timeout' : '--max-cost';
+    console.error(`Warning: ${limit} budget reached; the diff is correct but may not be minimal`);
+  }
 }
 
 main();
@@ -6,12 +6,65 @@
 // Types
 // ============================================================================
 
+/**
+ * Levels of a hierarchical diff, outermost first
+ */
+export type DiffLevel = 'paragraph' | 'sentence' | 'word';
+
+/**
+ * What kind of edit a change is, from the most trivial to the most substantive:
+ * - 'whitespace': only spacing or line breaks differ
+ * - 'case': only letter case differs
+ * - 'punctuation': only punctuation differs
+ * - 'number': only numbers differ
+ * - 'typo': words were respelled by an edit or two each
+ * - 'reorder': the same words in a different order, or a moved block
+ * - 'rephrase': words swapped one for one, none added or removed, and at
+ *   least `similarityThreshold` similar
+ * - 'rewrite': substantively different, added or removed content
+ */
+export type ChangeCategory =
+  | 'whitespace'
+  | 'case'
+  | 'punctuation'
+  | 'number'
+  | 'typo'
+  | 'reorder'
+  | 'rephrase'
+  | 'rewrite';
+
+/**
+ * Kind of figure found in a change: a plain number, an amount of money, a
+ * percentage, a calendar date, or a number with a unit such as "30 days"
+ */
+export type QuantityKind = 'number' | 'currency' | 'percentage' | 'date' | 'measure';
+
+/**
+ * A figure that changed, paired between the two sides of a modified change
+ */
+export interface QuantityDelta {
+  kind: QuantityKind;
+  /** The figure as written in the original text, e.g. "$1,200" */
+  original: string;
+  /** The figure as written in the modified text */
+  modified: string;
+  /** Parsed values; dates are days since 1970-01-01 */
+  originalValue: number;
+  modifiedValue: number;
+  /** modifiedValue - originalValue: days for dates, percentage points for percentages */
+  delta: number;
+  /** delta as a fraction of originalValue, e.g. 0.25 for +25%; absent for dates and when originalValue is 0 */
+  relativeChange?: number;
+  /** Currency symbol or code, '%', or the unit of a measure in singular, e.g. 'day' or 'kg' */
+  unit?: string;
+}
+
 /**
  * Represents a single change in a diff operation
  */
 export interface DiffChange {
   /** The type of change */
-  type: 'added' | 'removed' | 'modified' | 'unchanged';
+  type: 'added' | 'removed' | 'modified' | 'unchanged' | 'moved';
   /** The original text (for removed/modified) */
   original?: string;
   /** The new text (for added/modified) */
@@ -20,8 +73,16 @@ export interface DiffChange {
   originalLine?: number;
   /** Line number in the modified text (1-indexed) */
   modifiedLine?: number;
+  /** Where `original` sits in the original text */
+  originalRange?: TextRange;
+  /** Where `modified` sits in the modified text */
+  modifiedRange?: TextRange;
   /** Semantic similarity score (0-1) for modified changes */
   similarity?: number;
+  /** What kind of edit the change is; set on every change that is not unchanged, unless the budget ran out */
+  category?: ChangeCategory;
+  /** Numbers, amounts, percentages, dates and measures that changed (modified changes with semantic analysis only) */
+  quantities?: QuantityDelta[];
   /** Explanation of the change for agent understanding */
   explanation?: string;
   /** Key words that changed */
@@ -29,6 +90,170 @@ export interface DiffChange {
     added: string[];
     removed: string[];
   };
+  /** Links the two ends of a moved block (moved changes only) */
+  move?: DiffMove;
+  /** What changed inside the text, at word and character level (modified changes only) */
+  segments?: {
+    words: DiffSegment[];
+    characters: DiffSegment[];
+  };
+  /** JSONPath of the value, e.g. `$.items[3].price` (json granularity only) */
+  path?: string;
+  /** Keys leading from the root to the value; the parsed form of `path` */
+  pathKeys?: Array<string | number>;
+  /** JSON types of the values (json granularity only); they differ when the type changed */
+  valueTypes?: {
+    original?: JsonValueType;
+    modified?: JsonValueType;
+  };
+  /** Kind of block the change belongs to (markdown granularity only) */
+  block?: MarkdownBlockType;
+  /** Headings of the sections containing the change, outermost first (markdown granularity only) */
+  headingPath?: string[];
+  /** Kind of token that changed (code granularity only) */
+  tokenKind?: CodeTokenKind;
+  /** Values of the row's key columns (csv granularity with keyColumns) */
+  rowKey?: string[];
+  /** The row's cells, in the order of `DiffResult.columns` (csv granularity only) */
+  cells?: TableCell[];
+  /**
+   * A blank line (blankLines normalizer) or trailing whitespace token
+   * (trailingWhitespace) only one text has, kept as unchanged. It carries only
+   * the side it is on, `original` or `modified`.
+   */
+  ignored?: boolean;
+  /** Level of the change in a hierarchical diff */
+  level?: DiffLevel;
+  /**
+   * Changes one level down inside a modified paragraph or sentence
+   * (hierarchical granularity); their ranges index into the whole input
+   */
+  children?: DiffChange[];
+  /** Statistics of `children` */
+  childStats?: DiffResult['stats'];
+  /** Parts of `original` that a mask matched (masks option) */
+  originalMasks?: MaskedSpan[];
+  /** Parts of `modified` that a mask matched (masks option) */
+  modifiedMasks?: MaskedSpan[];
+}
+
+/**
+ * A part of a change's text that a mask matched; offsets are into the text
+ */
+export interface MaskedSpan {
+  /** The preset, or the name of the custom mask */
+  mask: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A column of two compared tables (csv granularity). Columns are matched by
+ * header, so a column that only one table has is added or removed.
+ */
+export interface TableColumn {
+  name: string;
+  type: 'added' | 'removed' | 'unchanged';
+  /** Whether rows are matched by this column (keyColumns) */
+  key?: boolean;
+}
+
+/**
+ * A cell of a row compared by csv granularity. Cells of added and removed
+ * columns have the type of their column.
+ */
+export interface TableCell {
+  column: string;
+  type: 'added' | 'removed' | 'modified' | 'unchanged';
+  original?: string;
+  modified?: string;
+}
+
+/**
+ * A location in an input text
+ */
+export interface TextPosition {
+  /** Offset into the input in UTF-16 code units (0-indexed) */
+  offset: number;
+  /** Line number (1-indexed) */
+  line: number;
+  /** Column in UTF-16 code units (1-indexed) */
+  column: number;
+}
+
+/**
+ * A span of an input text; `end` is exclusive
+ */
+export interface TextRange {
+  start: TextPosition;
+  end: TextPosition;
+}
+
+/**
+ * A run of text inside a modified change. Joining the equal and removed
+ * segments gives `original`; joining the equal and added segments gives `modified`.
+ */
+export interface DiffSegment {
+  /** 'equal' text is on both sides, 'removed' only in original, 'added' only in modified */
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Kind of block produced by markdown granularity
+ */
+export type MarkdownBlockType =
+  | 'front-matter'
+  | 'heading'
+  | 'paragraph'
+  | 'list-item'
+  | 'table-row'
+  | 'code'
+  | 'quote'
+  | 'rule';
+
+/**
+ * Language of the inputs for code granularity
+ */
+export type CodeLanguage = 'javascript' | 'typescript' | 'python' | 'json' | 'shell';
+
+/**
+ * Kind of token produced by code granularity
+ */
+export type CodeTokenKind =
+  | 'keyword'
+  | 'identifier'
+  | 'string'
+  | 'regex'
+  | 'number'
+  | 'comment'
+  | 'punctuation'
+  | 'whitespace';
+
+/**
+ * Type of a JSON value as reported by json granularity
+ */
+export type JsonValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * Describes a block that was moved. The source end carries `original`
+ * and the destination end carries `modified`.
+ */
+export interface DiffMove {
+  /** Identifier shared by both ends of the move */
+  id: number;
+  /** Which end of the move this change belongs to */
+  side: 'source' | 'destination';
+  /** Index in `changes` (or the `children` holding it) of the first change of the source block */
+  sourceIndex: number;
+  /** Index in `changes` (or the `children` holding it) of the first change of the destination block */
+  destinationIndex: number;
+  /** First line of the block in the original text (line granularity) */
+  sourceLine?: number;
+  /** First line of the block in the modified text (line granularity) */
+  destinationLine?: number;
+  /** Similarity between the two ends (1 for identical blocks) */
+  similarity: number;
 }
 
 /**
@@ -43,23 +268,606 @@ export interface DiffResult {
     removed: number;
     modified: number;
     unchanged: number;
+    /** Moved tokens, counted once at their source */
+    moved: number;
+  };
+  /** True when a budget ran out and the alignment is coarser than a full diff */
+  approximate?: boolean;
+  /** Which budget ran out */
+  approximateReason?: DiffBudgetReason;
+  /** Columns of both tables, in modified order with removed ones where they were (csv granularity only) */
+  columns?: TableColumn[];
+  /** Statistics of each level of the change tree, summed over the whole tree (hierarchical granularity only) */
+  levelStats?: Record<DiffLevel, DiffResult['stats']>;
+  /** Why the embedding provider failed, when diffWithEmbeddings fell back to `similarityScorer` */
+  embeddingError?: string;
+}
+
+/**
+ * Why a diff stopped searching early: the `timeoutMs` or the `maxEditCost` budget ran out
+ */
+export type DiffBudgetReason = 'timeout' | 'maxEditCost';
+
+/**
+ * Options for unified diff output
+ */
+export interface UnifiedDiffOptions {
+  /** Number of unchanged lines shown around each change (default: 3) */
+  context?: number;
+  /** Name shown in the `---` header (default: 'original') */
+  originalName?: string;
+  /** Name shown in the `+++` header (default: 'modified') */
+  modifiedName?: string;
+}
+
+/**
+ * A single line of a unified diff hunk
+ */
+export interface PatchLine {
+  /** ' ' for context, '-' for removed, '+' for added */
+  op: ' ' | '-' | '+';
+  /** Line content without the prefix */
+  text: string;
+  /** Set when the line is followed by "\ No newline at end of file" */
+  noNewline?: boolean;
+}
+
+/**
+ * A hunk of a unified diff
+ */
+export interface PatchHunk {
+  /** First original line covered by the hunk (1-indexed) */
+  originalStart: number;
+  /** Number of original lines covered by the hunk */
+  originalLines: number;
+  /** First modified line covered by the hunk (1-indexed) */
+  modifiedStart: number;
+  /** Number of modified lines covered by the hunk */
+  modifiedLines: number;
+  /** Section text following the closing `@@`, if any */
+  section?: string;
+  /** Hunk body */
+  lines: PatchLine[];
+}
+
+/**
+ * The changes to a single file in a unified diff
+ */
+export interface ParsedPatch {
+  /** Name from the `---` header */
+  originalName?: string;
+  /** Name from the `+++` header */
+  modifiedName?: string;
+  /** Hunks in file order */
+  hunks: PatchHunk[];
+}
+
+/**
+ * Options for applying a patch
+ */
+export interface ApplyPatchOptions {
+  /** Maximum context lines that may be ignored at each end of a hunk (default: 2) */
+  fuzz?: number;
+  /** Maximum distance in lines a hunk may be moved from its expected position (default: unlimited) */
+  maxOffset?: number;
+  /** Apply the patch in reverse, turning the modified text back into the original */
+  reverse?: boolean;
+}
+
+/**
+ * Result of applying a patch
+ */
+export interface ApplyPatchResult {
+  /** The patched text (rejected hunks are left unapplied) */
+  text: string;
+  /** Whether every hunk applied */
+  success: boolean;
+  /** Hunks that applied, with the offset and fuzz that were needed */
+  applied: Array<{ index: number; line: number; offset: number; fuzz: number }>;
+  /** Hunks that could not be placed */
+  rejected: Array<{ index: number; hunk: PatchHunk; reason: string }>;
+}
+
+/**
+ * Options for a three-way merge
+ */
+export interface Merge3Options {
+  /** Alignment algorithm used against the base (default: 'myers') */
+  algorithm?: DiffAlgorithm;
+  /** Whether to ignore whitespace differences when comparing lines */
+  ignoreWhitespace?: boolean;
+  /** Whether to ignore case differences when comparing lines */
+  ignoreCase?: boolean;
+  /**
+   * How conflicts appear in the merged text: 'markers' (git-style
+   * <<<<<<< / ======= / >>>>>>>), 'diff3' (markers plus the base section),
+   * or 'list' (the base lines are kept and conflicts are only reported)
+   */
+  conflictStyle?: 'markers' | 'diff3' | 'list';
+  /** Labels written after the conflict markers */
+  labels?: {
+    ours?: string;
+    base?: string;
+    theirs?: string;
+  };
+}
+
+/**
+ * A region where both sides changed the base differently
+ */
+export interface Merge3Conflict {
+  /** Line in the merged text where the conflict starts (1-indexed) */
+  mergedLine: number;
+  /** Base lines of the region; `start` is 1-indexed */
+  base: { start: number; lines: string[] };
+  /** Our version of the region */
+  ours: { start: number; lines: string[] };
+  /** Their version of the region */
+  theirs: { start: number; lines: string[] };
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface Merge3Result {
+  /** Merged text, rendered according to `conflictStyle` */
+  merged: string;
+  /** Whether the merge completed without conflicts */
+  clean: boolean;
+  /** Conflicting regions in merged-text order */
+  conflicts: Merge3Conflict[];
+  /** Number of changed regions per outcome */
+  stats: {
+    ours: number;
+    theirs: number;
+    both: number;
+    conflicts: number;
   };
 }
 
+/**
+ * One event emitted by `streamDiff`
+ */
+export interface DiffStreamEvent {
+  /** Share of both inputs processed so far (0-100) */
+  progress: number;
+  /** Changes produced since the previous event */
+  changes: DiffChange[];
+  /** Running totals over every change emitted so far */
+  stats: DiffResult['stats'];
+  /** True on the last event */
+  complete: boolean;
+  /** Set once a budget has run out; unresolved ranges are then reported as replaced */
+  approximate?: boolean;
+  approximateReason?: DiffBudgetReason;
+  /** Columns of both tables (csv granularity) */
+  columns?: TableColumn[];
+  /** Statistics of each level of the change tree (hierarchical granularity) */
+  levelStats?: Record<DiffLevel, DiffResult['stats']>;
+}
+
+/**
+ * A step of the normalizer chain:
+ * - 'lineEndings': CRLF and CR compare as LF; a lone CR ends a line and a CRLF is
+ *   one character token
+ * - 'trailingWhitespace': spaces and tabs at the end of a line are ignored; at
+ *   word, character and code granularity they are reported like blank lines
+ * - 'blankLines': inserted and deleted blank lines are ignored (line granularity)
+ * - 'nfc' / 'nfkc': Unicode normalization form, so composed and decomposed
+ *   (or, with NFKC, compatibility) characters compare equal; a character token
+ *   is a code point with its combining marks
+ * - 'quotes': curly quotes compare as straight ones
+ * - 'dashes': hyphen, en and em dash variants and the minus sign compare as '-'
+ */
+export type DiffNormalizer = 'lineEndings' | 'trailingWhitespace' | 'blankLines' | 'nfc' | 'nfkc' | 'quotes' | 'dashes';
+
+/**
+ * A built-in mask for a kind of volatile token:
+ * - 'iso-date': ISO 8601 dates and timestamps, e.g. 2024-05-01T12:30:00Z
+ * - 'uuid': UUIDs in 8-4-4-4-12 form
+ * - 'hex-hash': runs of 7 or more hex digits holding both a digit and a letter
+ * - 'ip': IPv4 addresses and full-form IPv6 addresses
+ * - 'number': integers and decimals, not parts of words or version strings
+ */
+export type DiffMaskPreset = 'iso-date' | 'uuid' | 'hex-hash' | 'ip' | 'number';
+
+/**
+ * A custom mask: a regular expression and the name its matches are shown
+ * under (default 'custom')
+ */
+export interface DiffMaskPattern {
+  pattern: string;
+  flags?: string;
+  name?: string;
+}
+
+export type DiffMask = DiffMaskPreset | DiffMaskPattern;
+
+/**
+ * Scores how alike two texts are, from 0 (nothing in common) to 1 (the same)
+ */
+export interface SimilarityScorer {
+  /** Name the scorer is selected by in `DiffOptions.similarityScorer` */
+  name: string;
+  score(text1: string, text2: string): number;
+  /**
+   * Most removed × added pairs of one hunk to score before pairing by
+   * position instead; lower it for scorers that are slow on long texts
+   */
+  maxComparisons?: number;
+}
+
+/**
+ * Turns texts into embedding vectors, for similarity that sees paraphrases
+ */
+export interface EmbeddingProvider {
+  /** Identifies the provider and model, e.g. in logs and cache keys */
+  name: string;
+  /** Most texts sent per `embed` call (default: 64) */
+  batchSize?: number;
+  /** One vector per text, in the order given */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * Token alignment strategy used by the diff engine
+ */
+export type DiffAlgorithm = 'myers' | 'patience' | 'histogram';
+
 /**
  * Options for diff operations
  */
 export interface DiffOptions {
-  /** Granularity level: 'line', 'word', 'character', 'sentence', or 'paragraph' */
-  granularity?: 'line' | 'word' | 'character' | 'sentence' | 'paragraph';
+  /**
+   * Granularity level: 'line', 'word', 'character', 'sentence', 'paragraph',
+   * 'markdown' to compare markdown block by block, 'code' to compare source
+   * code token by token, 'json' to compare two JSON documents value by value,
+   * 'csv' to compare two tables row by row and cell by cell, or
+   * 'hierarchical' to align paragraphs, then the sentences of modified
+   * paragraphs, then the words of modified sentences, as a change tree
+   */
+  granularity?:
+    | 'line' | 'word' | 'character' | 'sentence' | 'paragraph' | 'markdown' | 'code' | 'json' | 'csv' | 'hierarchical';
   /** Whether to ignore whitespace differences */
   ignoreWhitespace?: boolean;
   /** Whether to ignore case differences */
   ignoreCase?: boolean;
+  /**
+   * Normalizations applied, in order, before tokens are compared; the
+   * changes still show the text as written. With 'blankLines', blank lines
+   * that only one side has are left out of the changes.
+   */
+  normalizers?: DiffNormalizer[];
+  /**
+   * Volatile tokens to compare as equal placeholders, such as timestamps and
+   * request IDs. Where masks overlap the earlier one wins. The changes show
+   * the text as written and mark the masked parts.
+   */
+  masks?: DiffMask[];
+  /**
+   * BCP 47 locale, e.g. 'en', 'ja' or 'zh-Hant'. When set, character
+   * granularity compares grapheme clusters, so an emoji or a letter with
+   * combining marks is one token, and word and sentence granularity use
+   * Intl.Segmenter, which also splits Chinese and Japanese into words.
+   * Sentences do not end at abbreviations such as "e.g.". Without
+   * Intl.Segmenter, graphemes fall back to code points and sentences to
+   * punctuation followed by whitespace.
+   */
+  locale?: string;
   /** Whether to enable semantic analysis for better text understanding */
   semanticAnalysis?: boolean;
+  /**
+   * How similarity is scored when pairing changed lines, detecting edited
+   * moves and explaining changes: a scorer's name ('jaccard', 'levenshtein',
+   * 'ngram', 'tfidf', 'alignment' or one registered with
+   * registerSimilarityScorer), or names with weights, e.g.
+   * `{ ngram: 2, alignment: 1 }`, whose weighted average is used.
+   * Default: 'jaccard'.
+   */
+  similarityScorer?: string | Record<string, number>;
+  /**
+   * Embedding vectors by text, trimmed. Where both texts of a pair have a
+   * vector, their cosine similarity replaces `similarityScorer`; other pairs
+   * keep it. Usually filled in by diffWithEmbeddings.
+   */
+  embeddingVectors?: Record<string, number[]>;
   /** Minimum similarity threshold for semantic matching (0-1) */
   similarityThreshold?: number;
+  /** Alignment algorithm: 'myers' (default), 'patience', or 'histogram' */
+  algorithm?: DiffAlgorithm;
+  /** Whether to report blocks that moved as 'moved' changes (default: true) */
+  detectMoves?: boolean;
+  /**
+   * Time budget in milliseconds. When it runs out the engine stops searching,
+   * reports the unresolved ranges as replaced and marks the result approximate.
+   */
+  timeoutMs?: number;
+  /** Maximum number of edit steps the engine may explore, with the same fallback */
+  maxEditCost?: number;
+  /**
+   * Whether objects whose keys only differ in order are equal (json
+   * granularity, default: true). When false a reordering is reported as a
+   * modified change at the object's path.
+   */
+  ignoreKeyOrder?: boolean;
+  /**
+   * Property that identifies array elements (json granularity), e.g. 'id'.
+   * Objects with the same value for it are compared with each other wherever
+   * they sit in the array; other elements are aligned by content.
+   */
+  arrayKey?: string;
+  /** Language of the inputs (code granularity, default: 'javascript'); see detectLanguage */
+  language?: CodeLanguage;
+  /**
+   * Whether to compare code as if its comments were not there (code
+   * granularity). Each comment is merged with the whitespace around it, and
+   * that run compares as its line breaks and indentation alone.
+   */
+  ignoreComments?: boolean;
+  /**
+   * Whether string literals compare equal whatever they contain and however
+   * they are quoted (code granularity). Prefixes such as Python's `f` and
+   * JavaScript template literals still count.
+   */
+  ignoreStringContents?: boolean;
+  /**
+   * Field separator (csv granularity), e.g. '\t' for TSV. By default it is
+   * detected from the first line: a comma, tab, semicolon or pipe.
+   */
+  delimiter?: string;
+  /**
+   * Headers of the columns that identify a row (csv granularity). Rows with
+   * the same key are compared wherever they sit; without key columns rows
+   * are aligned by content.
+   */
+  keyColumns?: string[];
+  /**
+   * Cancels the computation. It is checked before tokenizing and before each
+   * range is aligned (each chunk, for streamDiff); once aborted the call
+   * throws the signal's reason.
+   */
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Masks
+// ============================================================================
+
+const MASK_PRESETS: Record<DiffMaskPreset, RegExp> = {
+  'iso-date': /\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?(?![\w.])/g,
+  uuid: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+  'hex-hash': /\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,}\b/gi,
+  ip: /(?<![\w.])(?:(?:\d{1,3}\.){3}\d{1,3}|(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4})(?![\w.])/gi,
+  number: /(?<![\w.-])-?\d+(?:\.\d+)?(?![\w.])/g,
+};
+
+interface CompiledMask {
+  name: string;
+  pattern: RegExp;
+}
+
+const compiledMasks = new WeakMap<DiffMask[], CompiledMask[]>();
+
+/**
+ * Turns masks into global regular expressions; custom patterns that do not
+ * compile and unknown presets throw
+ */
+function compileMasks(masks: DiffMask[]): CompiledMask[] {
+  let compiled = compiledMasks.get(masks);
+  if (!compiled) {
+    compiled = masks.map(mask => {
+      if (typeof mask === 'string') {
+        const pattern = MASK_PRESETS[mask];
+        if (!pattern) {
+          throw new Error(`Unknown mask preset: ${mask}`);
+        }
+        return { name: mask, pattern };
+      }
+      const flags = (mask.flags || '').replace('g', '') + 'g';
+      try {
+        return { name: mask.name || 'custom', pattern: new RegExp(mask.pattern, flags) };
+      } catch (error) {
+        throw new Error(`Invalid mask pattern /${mask.pattern}/: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    compiledMasks.set(masks, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Finds the spans of `text` the masks match, in text order. A match that
+ * overlaps one of an earlier mask is dropped; empty matches are skipped.
+ */
+function findMaskedSpans(text: string, masks: DiffMask[]): MaskedSpan[] {
+  let spans: MaskedSpan[] = [];
+  for (const { name, pattern } of compileMasks(masks)) {
+    // Matches arrive in text order, so one cursor walks the earlier spans
+    const added: MaskedSpan[] = [];
+    let taken = 0;
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      const start = match.index;
+      const end = start + match[0].length;
+      while (taken < spans.length && spans[taken].end <= start) taken++;
+      if (taken === spans.length || spans[taken].start >= end) {
+        added.push({ mask: name, start, end });
+      }
+    }
+    spans = [...spans, ...added].sort((a, b) => a.start - b.start);
+  }
+  return spans;
+}
+
+/**
+ * Replaces the part of `text` (which starts at `offset` in the masked
+ * document) that `spans` cover with placeholders, looking from span `first`
+ * on. A span that starts in an earlier token leaves nothing behind, so it is
+ * only compared once.
+ */
+function maskText(text: string, offset: number, spans: MaskedSpan[], first = 0): string {
+  const end = offset + text.length;
+  let masked = '';
+  let cursor = offset;
+  for (let k = first; k < spans.length; k++) {
+    const span = spans[k];
+    if (span.start >= end) break;
+    if (span.end <= cursor) continue;
+    masked += text.slice(cursor - offset, Math.max(span.start, cursor) - offset);
+    if (span.start >= offset) masked += `\u0000${span.mask}\u0000`;
+    cursor = Math.min(span.end, end);
+  }
+  return masked + text.slice(cursor - offset);
+}
+
+/**
+ * Masks each token of a text with the spans found in the whole text, so a
+ * match that crosses token boundaries is still compared as one placeholder
+ */
+function maskTokens(tokens: string[], locate: TokenLocator, spans: MaskedSpan[]): string[] {
+  let first = 0;
+  return tokens.map((token, k) => {
+    const offset = locate(k).start.offset;
+    while (first < spans.length && spans[first].end <= offset) first++;
+    return maskText(token, offset, spans, first);
+  });
+}
+
+/**
+ * The spans that overlap `range`, clipped to it and made relative to its start
+ */
+function clipMaskedSpans(spans: MaskedSpan[], range: TextRange): MaskedSpan[] | undefined {
+  const start = range.start.offset;
+  const end = range.end.offset;
+  // Spans do not overlap, so their ends are sorted too: find the first one ending after `start`
+  let lo = 0;
+  let hi = spans.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (spans[mid].end <= start) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  const clipped: MaskedSpan[] = [];
+  for (let k = lo; k < spans.length && spans[k].start < end; k++) {
+    clipped.push({ mask: spans[k].mask, start: Math.max(spans[k].start, start) - start, end: Math.min(spans[k].end, end) - start });
+  }
+  return clipped.length > 0 ? clipped : undefined;
+}
+
+/**
+ * Marks the masked parts of each change, from the spans found in both texts
+ */
+function markMaskedSpans(changes: DiffChange[], spans1: MaskedSpan[], spans2: MaskedSpan[]): void {
+  for (const change of changes) {
+    if (change.originalRange) change.originalMasks = clipMaskedSpans(spans1, change.originalRange);
+    if (change.modifiedRange) change.modifiedMasks = clipMaskedSpans(spans2, change.modifiedRange);
+  }
+}
+
+// ============================================================================
+// Locale Segmentation
+// ============================================================================
+
+type SegmentUnit = 'grapheme' | 'word' | 'sentence';
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Returns a cached segmenter, or undefined where the runtime has no
+ * Intl.Segmenter. A locale that is not a valid BCP 47 tag throws.
+ */
+function getSegmenter(locale: string, unit: SegmentUnit): Intl.Segmenter | undefined {
+  if (typeof Intl.Segmenter !== 'function') {
+    return undefined;
+  }
+  const key = `${locale}|${unit}`;
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity: unit });
+    } catch {
+      throw new Error(`Invalid locale: ${locale}`);
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/**
+ * Words that end in a period without ending the sentence
+ */
+const SENTENCE_ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'cf', 'al', 'approx', 'ca', 'no', 'nr', 'fig', 'vol', 'p', 'pp',
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'inc', 'ltd', 'co', 'corp', 'dept',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+/**
+ * Whether a sentence piece stops at an abbreviation or an initial rather
+ * than at the end of a sentence
+ */
+function endsWithAbbreviation(piece: string): boolean {
+  const word = piece.trimEnd().match(/([\p{L}.]+)\.$/u)?.[1];
+  return word !== undefined && (SENTENCE_ABBREVIATIONS.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word));
+}
+
+/**
+ * Splits sentences without Intl.Segmenter: after terminal punctuation and
+ * any closing quotes or brackets, where whitespace follows and the next
+ * sentence does not start in lower case. Decimals like 3.14 never split.
+ */
+function splitSentences(text: string): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/[.!?\u3002\uFF01\uFF1F]+["'\u2019\u201D)\]]*(?:\s+(?=[^\s\p{Ll}])|\s*$)/gu)) {
+    const end = match.index! + match[0].length;
+    pieces.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) {
+    pieces.push(text.slice(start));
+  }
+  return pieces;
+}
+
+/**
+ * Splits text into grapheme clusters, words (including the spaces and
+ * punctuation between them) or sentences for a locale. The pieces always
+ * join back into the text, so offsets into it stay correct. Sentences that
+ * stop at an abbreviation such as "e.g." are joined with the next one.
+ */
+function segmentText(text: string, unit: SegmentUnit, locale: string): string[] {
+  const segmenter = getSegmenter(locale, unit);
+  let pieces: string[];
+  if (segmenter) {
+    pieces = Array.from(segmenter.segment(text), segment => segment.segment);
+  } else if (unit === 'grapheme') {
+    pieces = Array.from(text);
+  } else if (unit === 'word') {
+    pieces = text.split(/(\s+)/).filter(token => token.length > 0);
+  } else {
+    pieces = splitSentences(text);
+  }
+  if (unit !== 'sentence') {
+    return pieces;
+  }
+
+  const sentences: string[] = [];
+  for (const piece of pieces) {
+    if (sentences.length > 0 && endsWithAbbreviation(sentences[sentences.length - 1])) {
+      sentences[sentences.length - 1] += piece;
+    } else {
+      sentences.push(piece);
+    }
+  }
+  return sentences;
 }
 
 // ============================================================================
@@ -67,10 +875,40 @@ export interface DiffOptions {
 // ============================================================================
 
 /**
- * Normalizes text based on options
+ * Granularities whose tokens can end inside a line. Their trailing whitespace
+ * is told apart by the tokens after it, in prepareDiff.
+ */
+const INLINE_GRANULARITIES = new Set<DiffOptions['granularity']>(['word', 'character', 'code']);
+
+/**
+ * The steps of the normalizer chain; `inline` is set for tokens that can end
+ * inside a line
+ */
+const NORMALIZERS: Record<DiffNormalizer, (text: string, inline: boolean) => string> = {
+  lineEndings: text => text.replace(/\r\n?/g, '\n'),
+  trailingWhitespace: (text, inline) => text.replace(inline ? /[ \t]+(?=\r?\n|\r)/g : /[ \t]+(?=\r?\n|\r|$)/g, ''),
+  // Blank lines also get ids of their own in prepareDiff (line granularity)
+  blankLines: text => (text.trim() === '' ? '' : text),
+  nfc: text => text.normalize('NFC'),
+  nfkc: text => text.normalize('NFKC'),
+  quotes: text => text.replace(/[\u2018\u2019\u201A\u201B]/g, "'").replace(/[\u201C\u201D\u201E\u201F]/g, '"'),
+  dashes: text => text.replace(/[\u2010-\u2015\u2212]/g, '-'),
+};
+
+/**
+ * Normalizes text based on options: masks, the normalizer chain in order,
+ * then ignoreWhitespace and ignoreCase
  */
 function normalize(text: string, options: DiffOptions): string {
-  let normalized = text;
+  const inline = INLINE_GRANULARITIES.has(options.granularity);
+  let normalized = options.masks?.length ? maskText(text, 0, findMaskedSpans(text, options.masks)) : text;
+  for (const normalizer of options.normalizers || []) {
+    const step = NORMALIZERS[normalizer];
+    if (!step) {
+      throw new Error(`Unknown normalizer: ${normalizer}`);
+    }
+    normalized = step(normalized, inline);
+  }
   if (options.ignoreWhitespace) {
     normalized = normalized.replace(/\s+/g, ' ').trim();
   }
@@ -81,496 +919,4498 @@ function normalize(text: string, options: DiffOptions): string {
 }
 
 /**
- * Splits text into tokens based on granularity
+ * Granularities that split the input into tokens
+ */
+type TextGranularity = Exclude<NonNullable<DiffOptions['granularity']>, 'json' | 'csv' | 'hierarchical'>;
+
+/**
+ * Splits text into tokens based on granularity. With a locale, characters
+ * are grapheme clusters and words and sentences come from Intl.Segmenter.
+ * With lineEndings, a lone CR also ends a line. Without a locale, the
+ * normalizers decide what a character is: a CRLF is one token with
+ * lineEndings, and a code point with its combining marks is one with nfc or
+ * nfkc, so they compare as a whole (grapheme clusters already do both).
  */
-function tokenize(text: string, granularity: 'line' | 'word' | 'character' | 'sentence' | 'paragraph'): string[] {
+function tokenize(text: string, granularity: TextGranularity, normalizers: DiffNormalizer[] = [], locale?: string): string[] {
   switch (granularity) {
     case 'line':
-      return text.split(/\r?\n/);
+      return text.split(normalizers.includes('lineEndings') ? /\r\n?|\n/ : /\r?\n/);
     case 'word':
-      return text.split(/(\s+)/).filter(token => token.length > 0);
-    case 'character':
-      return text.split('');
+      return locale ? segmentText(text, 'word', locale) : text.split(/(\s+)/).filter(token => token.length > 0);
+    case 'character': {
+      if (locale) {
+        return segmentText(text, 'grapheme', locale);
+      }
+      const crlf = normalizers.includes('lineEndings');
+      const marks = normalizers.includes('nfc') || normalizers.includes('nfkc');
+      if (!crlf && !marks) {
+        return text.split('');
+      }
+      return text.match(new RegExp(`${crlf ? '\\r\\n|' : ''}${marks ? '\\P{M}\\p{M}*|' : ''}[\\s\\S]`, marks ? 'gu' : 'g')) ?? [];
+    }
     case 'sentence':
+      if (locale) {
+        return segmentText(text, 'sentence', locale);
+      }
       // Split by sentence endings, preserving punctuation
       return text.split(/([.!?]+[\s\n]+)/).filter(s => s.trim().length > 0);
     case 'paragraph':
       // Split by double newlines or significant whitespace
       return text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+    case 'markdown':
+      return parseMarkdownBlocks(text).map(block => block.text);
     default:
       return [text];
   }
 }
 
 /**
- * Computes semantic similarity between two text strings
- * Uses simple word overlap and edit distance for text content
+ * Maps a token index to the range it covers in the input text
  */
-function computeSemanticSimilarity(text1: string, text2: string): number {
-  const words1 = new Set(text1.toLowerCase().match(/\b\w+\b/g) || []);
-  const words2 = new Set(text2.toLowerCase().match(/\b\w+\b/g) || []);
-  
-  if (words1.size === 0 && words2.size === 0) return 1.0;
-  if (words1.size === 0 || words2.size === 0) return 0.0;
-  
-  const intersection = new Set([...words1].filter(w => words2.has(w)));
-  const union = new Set([...words1, ...words2]);
-  
-  // Jaccard similarity
-  const jaccard = intersection.size / union.size;
-  
-  // Also consider length similarity
-  const lengthRatio = Math.min(text1.length, text2.length) / Math.max(text1.length, text2.length);
-  
-  // Weighted combination
-  return (jaccard * 0.7 + lengthRatio * 0.3);
+type TokenLocator = (index: number) => TextRange;
+
+/**
+ * Creates a locator for the tokens produced by `tokenize(text, granularity)`.
+ * Offsets index into the untouched input, so a CRLF line break counts as two
+ * characters and its `\r` is never part of a line's range.
+ */
+function createTokenLocator(
+  text: string,
+  tokens: string[],
+  granularity: TextGranularity
+): TokenLocator {
+  const offsets = new Array<number>(tokens.length);
+  let cursor = 0;
+  for (let k = 0; k < tokens.length; k++) {
+    if (granularity === 'line' && k > 0) {
+      // Step over the line break that split() consumed
+      cursor += text.startsWith('\r\n', cursor) ? 2 : 1;
+    }
+    offsets[k] = text.indexOf(tokens[k], cursor);
+    cursor = offsets[k] + tokens[k].length;
+  }
+
+  const position = createPositionLocator(text);
+  return index => ({
+    start: position(offsets[index]),
+    end: position(offsets[index] + tokens[index].length),
+  });
 }
 
 /**
- * Computes the longest common subsequence (LCS) between two arrays
+ * Creates a function that converts an offset into `text` to a line and column
  */
-function lcs<T>(arr1: T[], arr2: T[]): T[] {
-  const m = arr1.length;
-  const n = arr2.length;
-  const dp: number[][] = Array(m + 1)
-    .fill(null)
-    .map(() => Array(n + 1).fill(0));
+function createPositionLocator(text: string): (offset: number) => TextPosition {
+  const lineStarts = [0];
+  for (let k = text.indexOf('\n'); k !== -1; k = text.indexOf('\n', k + 1)) {
+    lineStarts.push(k + 1);
+  }
 
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (arr1[i - 1] === arr2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
+  return offset => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        lo = mid;
       } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+        hi = mid - 1;
       }
     }
-  }
+    return { offset, line: lo + 1, column: offset - lineStarts[lo] + 1 };
+  };
+}
 
-  const result: T[] = [];
-  let i = m;
-  let j = n;
-  while (i > 0 && j > 0) {
-    if (arr1[i - 1] === arr2[j - 1]) {
-      result.unshift(arr1[i - 1]);
-      i--;
-      j--;
-    } else if (dp[i - 1][j] > dp[i][j - 1]) {
-      i--;
-    } else {
-      j--;
-    }
-  }
+// ============================================================================
+// Similarity Scorers
+// ============================================================================
 
-  return result;
+/**
+ * Words of a text for the word-based scorers, lower-cased
+ */
+function scorerWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
 }
 
 /**
- * Performs a diff operation between two texts
+ * Above this many DP cells, once the common prefix and suffix are trimmed,
+ * Levenshtein compares words instead of characters, and above it for words
+ * too, it counts the words both texts share
  */
-export function diff(
-  original: string,
-  modified: string,
+const LEVENSHTEIN_MAX_CELLS = 1_000_000;
+
+/**
+ * Drops the tokens two lists share at both ends, which edits leave untouched
+ */
+function trimCommonEnds<T>(a: T[], b: T[]): [T[], T[]] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  return [a.slice(start, a.length - end), b.slice(start, b.length - end)];
+}
+
+/**
+ * Edit distance between two token lists, in two rows of memory
+ */
+function levenshteinDistance<T>(a: T[], b: T[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Cosine of two term-count vectors, each term weighted by `weight`
+ */
+function cosine(counts1: Map<string, number>, counts2: Map<string, number>, weight = (_term: string) => 1): number {
+  let dot = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+  for (const [term, count] of counts1) {
+    const w = count * weight(term);
+    norm1 += w * w;
+    const other = counts2.get(term);
+    if (other !== undefined) dot += w * other * weight(term);
+  }
+  for (const [term, count] of counts2) {
+    const w = count * weight(term);
+    norm2 += w * w;
+  }
+  return norm1 === 0 || norm2 === 0 ? (norm1 === norm2 ? 1 : 0) : dot / Math.sqrt(norm1 * norm2);
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) || 0) + 1);
+  return counts;
+}
+
+/**
+ * Overlapping character n-grams of a text, lower-cased with whitespace collapsed
+ */
+function shingles(text: string, n: number): string[] {
+  const chars = Array.from(text.toLowerCase().replace(/\s+/g, ' ').trim());
+  if (chars.length <= n) return chars.length > 0 ? [chars.join('')] : [];
+  return Array.from({ length: chars.length - n + 1 }, (_, k) => chars.slice(k, k + n).join(''));
+}
+
+/**
+ * Length of the longest common subsequence of two token lists
+ */
+function lcsLength(a: string[], b: string[]): number {
+  const { ids1, ids2 } = internTokens(a, b);
+  return myersDiff(ids1, ids2).length;
+}
+
+/**
+ * The built-in scorers:
+ * - 'jaccard': 0.7 × word-set Jaccard + 0.3 × length ratio; the default,
+ *   but blind to word order
+ * - 'levenshtein': 1 - edit distance / longer length, over characters
+ *   (words for long texts, and the share of words in common for very long ones)
+ * - 'ngram': cosine of character trigram counts, robust to typos and inflection
+ * - 'tfidf': cosine of word TF-IDF vectors, with document frequencies taken
+ *   over the two texts, so words only one side uses weigh more
+ * - 'alignment': Dice coefficient of the longest in-order word alignment,
+ *   so reordered words count against the score
+ */
+const BUILTIN_SCORERS: SimilarityScorer[] = [
+  {
+    name: 'jaccard',
+    score(text1, text2) {
+      const words1 = new Set(text1.toLowerCase().match(/\b\w+\b/g) || []);
+      const words2 = new Set(text2.toLowerCase().match(/\b\w+\b/g) || []);
+      if (words1.size === 0 && words2.size === 0) return 1.0;
+      if (words1.size === 0 || words2.size === 0) return 0.0;
+      const intersection = [...words1].filter(w => words2.has(w)).length;
+      const jaccard = intersection / (words1.size + words2.size - intersection);
+      const lengthRatio = Math.min(text1.length, text2.length) / Math.max(text1.length, text2.length);
+      return jaccard * 0.7 + lengthRatio * 0.3;
+    },
+  },
+  {
+    name: 'levenshtein',
+    maxComparisons: 1000,
+    score(text1, text2) {
+      let chars1 = Array.from(text1);
+      let chars2 = Array.from(text2);
+      const longest = Math.max(chars1.length, chars2.length);
+      if (longest === 0) return 1;
+      [chars1, chars2] = trimCommonEnds(chars1, chars2);
+      if (chars1.length * chars2.length <= LEVENSHTEIN_MAX_CELLS) {
+        return 1 - levenshteinDistance(chars1, chars2) / longest;
+      }
+      const words1 = text1.split(/(\s+)/);
+      const words2 = text2.split(/(\s+)/);
+      const [rest1, rest2] = trimCommonEnds(words1, words2);
+      if (rest1.length * rest2.length <= LEVENSHTEIN_MAX_CELLS) {
+        return 1 - levenshteinDistance(rest1, rest2) / Math.max(words1.length, words2.length);
+      }
+      // The edit distance is at least the longer length minus the words both share
+      const counts2 = countTerms(rest2);
+      let shared = words1.length - rest1.length;
+      for (const word of rest1) {
+        const count = counts2.get(word);
+        if (count) {
+          shared++;
+          counts2.set(word, count - 1);
+        }
+      }
+      return shared / Math.max(words1.length, words2.length);
+    },
+  },
+  {
+    name: 'ngram',
+    score: (text1, text2) => cosine(countTerms(shingles(text1, 3)), countTerms(shingles(text2, 3))),
+  },
+  {
+    name: 'tfidf',
+    score(text1, text2) {
+      const counts1 = countTerms(scorerWords(text1));
+      const counts2 = countTerms(scorerWords(text2));
+      // Smoothed inverse document frequency over the two texts
+      const idf = (term: string) => Math.log(3 / (1 + Number(counts1.has(term)) + Number(counts2.has(term)))) + 1;
+      return cosine(counts1, counts2, idf);
+    },
+  },
+  {
+    name: 'alignment',
+    maxComparisons: 1000,
+    score(text1, text2) {
+      const words1 = scorerWords(text1);
+      const words2 = scorerWords(text2);
+      if (words1.length + words2.length === 0) return 1;
+      return (2 * lcsLength(words1, words2)) / (words1.length + words2.length);
+    },
+  },
+];
+
+const similarityScorers = new Map<string, SimilarityScorer>(BUILTIN_SCORERS.map(scorer => [scorer.name, scorer]));
+
+/**
+ * Makes a scorer selectable by name in `DiffOptions.similarityScorer`.
+ * Names are unique; registering a taken name throws.
+ */
+export function registerSimilarityScorer(scorer: SimilarityScorer): void {
+  if (similarityScorers.has(scorer.name)) {
+    throw new Error(`Similarity scorer "${scorer.name}" is already registered`);
+  }
+  similarityScorers.set(scorer.name, scorer);
+}
+
+/**
+ * Names of the built-in and registered scorers
+ */
+export function listSimilarityScorers(): string[] {
+  return [...similarityScorers.keys()];
+}
+
+function lookupScorer(name: string): SimilarityScorer {
+  const scorer = similarityScorers.get(name);
+  if (!scorer) {
+    throw new Error(`Unknown similarity scorer: ${name}`);
+  }
+  return scorer;
+}
+
+/**
+ * Cosine similarity of two embedding vectors, with opposed vectors scoring 0
+ */
+function vectorSimilarity(vector1: number[], vector2: number[]): number {
+  let dot = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+  for (let i = 0; i < Math.min(vector1.length, vector2.length); i++) {
+    dot += vector1[i] * vector2[i];
+    norm1 += vector1[i] * vector1[i];
+    norm2 += vector2[i] * vector2[i];
+  }
+  return norm1 === 0 || norm2 === 0 ? 0 : Math.min(1, Math.max(0, dot / Math.sqrt(norm1 * norm2)));
+}
+
+/**
+ * Computes semantic similarity between two text strings: the cosine of
+ * their embedding vectors when both have one, otherwise the selected
+ * scorer, or the weighted average of several; 'jaccard' by default
+ */
+function computeSemanticSimilarity(text1: string, text2: string, options: DiffOptions = {}): number {
+  const vectors = options.embeddingVectors;
+  if (vectors && Object.hasOwn(vectors, text1.trim()) && Object.hasOwn(vectors, text2.trim())) {
+    return vectorSimilarity(vectors[text1.trim()], vectors[text2.trim()]);
+  }
+
+  const selection = options.similarityScorer ?? 'jaccard';
+  if (typeof selection === 'string') {
+    return lookupScorer(selection).score(text1, text2);
+  }
+
+  let total = 0;
+  let weights = 0;
+  for (const [name, weight] of Object.entries(selection)) {
+    if (weight > 0) {
+      total += weight * lookupScorer(name).score(text1, text2);
+      weights += weight;
+    }
+  }
+  if (weights === 0) {
+    throw new Error('Similarity scorer weights must include a positive weight');
+  }
+  return total / weights;
+}
+
+// ============================================================================
+// Markdown Blocks
+// ============================================================================
+
+/**
+ * A block of a markdown document, the token of markdown granularity
+ */
+interface MarkdownBlock {
+  type: MarkdownBlockType;
+  /** Source text of the block, without the line break that ends it */
+  text: string;
+  /** Offset of the block in the document */
+  start: number;
+  /** Headings of the sections that contain the block, outermost first */
+  headingPath: string[];
+}
+
+const MD_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const MD_ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const MD_SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)[ \t]*$/;
+const MD_RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const MD_LIST_ITEM = /^[ \t]*(?:[-*+]|\d{1,9}[.)])(?:[ \t]|$)/;
+const MD_QUOTE = /^ {0,3}>/;
+const MD_TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+/**
+ * Units compared inside a modified block: lines in code and front matter,
+ * cells in table rows, words everywhere else
+ */
+const MD_SEGMENT_PATTERNS: Partial<Record<MarkdownBlockType, RegExp>> = {
+  'code': /[^\n]*\n|[^\n]+/g,
+  'front-matter': /[^\n]*\n|[^\n]+/g,
+  'table-row': /\|[^|\n]*|[^|\n]+/g,
+};
+
+/**
+ * Splits a markdown document into front matter, headings (ATX and setext),
+ * fenced code, list items, table rows, block quotes, rules and paragraphs.
+ * Blank lines between blocks are dropped; each block's text is an exact
+ * slice of the input.
+ */
+function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  // Line bounds, with the \r of a CRLF break outside the line
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (let pos = 0; ;) {
+    const newline = text.indexOf('\n', pos);
+    const end = newline === -1 ? text.length : newline;
+    starts.push(pos);
+    ends.push(end > pos && text[end - 1] === '\r' ? end - 1 : end);
+    if (newline === -1) break;
+    pos = newline + 1;
+  }
+  const count = starts.length;
+  const line = (k: number) => text.slice(starts[k], ends[k]);
+  const blank = (k: number) => line(k).trim() === '';
+  const tableStart = (k: number) => k + 1 < count && line(k).includes('|')
+    && line(k + 1).includes('|') && MD_TABLE_DELIMITER.test(line(k + 1));
+  const startsBlock = (k: number) => MD_FENCE.test(line(k)) || MD_ATX_HEADING.test(line(k))
+    || MD_RULE.test(line(k)) || MD_LIST_ITEM.test(line(k)) || MD_QUOTE.test(line(k)) || tableStart(k);
+
+  const blocks: MarkdownBlock[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  const push = (type: MarkdownBlockType, first: number, last: number) => {
+    blocks.push({
+      type,
+      text: text.slice(starts[first], ends[last]),
+      start: starts[first],
+      headingPath: headings.map(heading => heading.title),
+    });
+  };
+  const openSection = (level: number, title: string) => {
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+      headings.pop();
+    }
+    headings.push({ level, title });
+  };
+
+  let k = 0;
+  const frontMatter = line(0).trim();
+  if (frontMatter === '---' || frontMatter === '+++') {
+    for (let e = 1; e < count; e++) {
+      if (line(e).trim() === frontMatter || (frontMatter === '---' && line(e).trim() === '...')) {
+        push('front-matter', 0, e);
+        k = e + 1;
+        break;
+      }
+    }
+  }
+
+  while (k < count) {
+    const current = line(k);
+    if (blank(k)) {
+      k++;
+      continue;
+    }
+
+    const fence = MD_FENCE.exec(current);
+    if (fence) {
+      // Runs to a closing fence of the same character that is at least as long, or to the end
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}[ \\t]*$`);
+      let e = k + 1;
+      while (e < count && !closing.test(line(e))) e++;
+      push('code', k, Math.min(e, count - 1));
+      k = e + 1;
+      continue;
+    }
+
+    const atx = MD_ATX_HEADING.exec(current);
+    if (atx) {
+      openSection(atx[1].length, (atx[2] || '').trim());
+      push('heading', k, k);
+      k++;
+      continue;
+    }
+
+    if (MD_RULE.test(current)) {
+      push('rule', k, k);
+      k++;
+      continue;
+    }
+
+    if (tableStart(k)) {
+      for (; k < count && !blank(k) && line(k).includes('|'); k++) {
+        push('table-row', k, k);
+      }
+      continue;
+    }
+
+    let e = k;
+    if (MD_QUOTE.test(current)) {
+      while (e + 1 < count && MD_QUOTE.test(line(e + 1))) e++;
+      push('quote', k, e);
+    } else if (MD_LIST_ITEM.test(current)) {
+      // Continuation lines belong to the item; a nested item starts a block of its own
+      while (e + 1 < count && !blank(e + 1) && !startsBlock(e + 1)) e++;
+      push('list-item', k, e);
+    } else {
+      while (e + 1 < count && !blank(e + 1) && !startsBlock(e + 1) && !MD_SETEXT_UNDERLINE.test(line(e + 1))) e++;
+      if (e + 1 < count && !blank(e + 1) && MD_SETEXT_UNDERLINE.test(line(e + 1))) {
+        openSection(line(e + 1).trim()[0] === '=' ? 1 : 2, text.slice(starts[k], ends[e]).replace(/\s+/g, ' ').trim());
+        e++;
+        push('heading', k, e);
+      } else {
+        push('paragraph', k, e);
+      }
+    }
+    k = e + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Finds the last of `items` (sorted by start) that starts at or before `offset`
+ */
+function findAtOffset<T extends { start: number }>(items: T[], offset: number): T {
+  let lo = 0;
+  let hi = items.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (items[mid].start <= offset) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return items[lo];
+}
+
+// ============================================================================
+// Code Tokens
+// ============================================================================
+
+/**
+ * A token of source code, the token of code granularity
+ */
+interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+  /** Offset of the token in the input */
+  start: number;
+  /** Whitespace of a merged comment run with the comments taken out (ignoreComments) */
+  spacing?: string;
+}
+
+/**
+ * How a language writes comments, strings and keywords. Patterns are sticky
+ * and tried at each position; anything else is whitespace, a number, an
+ * identifier or punctuation.
+ */
+interface CodeLanguageSpec {
+  comment: RegExp;
+  string: RegExp;
+  identifier: RegExp;
+  keywords: Set<string>;
+  /** Regular expression literals, tried only where a value may start (see `lexCode`) */
+  regex?: RegExp;
+  /** Comments only start at the beginning of a word, as `#` in shell */
+  commentAtWordStart?: boolean;
+}
+
+const C_COMMENT = /\/\/[^\r\n]*|\/\*[\s\S]*?(?:\*\/|$)/y;
+const HASH_COMMENT = /#[^\r\n]*/y;
+const CODE_IDENTIFIER = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const CODE_WHITESPACE = /\s+/y;
+const CODE_NUMBER = /(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[njJ]?/y;
+const CODE_PUNCTUATION = /===|!==|>>>=|\*\*=|\.\.\.|<<=|>>=|>>>|\?\?=|&&=|\|\|=|=>|->|::|\?\.|\?\?|&&|\|\||\+\+|--|\*\*|<<|>>|[-+*\/%&|^<>!=:]=|[\s\S]/uy;
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+  'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield',
+];
+
+const JS_STRING = /'(?:[^'\\\r\n]|\\[\s\S])*'?|"(?:[^"\\\r\n]|\\[\s\S])*"?|`(?:[^`\\]|\\[\s\S])*`?/y;
+const JS_REGEX = /\/(?![*/])(?:[^\\/[\r\n]|\\[^\r\n]|\[(?:[^\]\\\r\n]|\\[^\r\n])*\])+\/[\p{L}\p{N}_$]*/uy;
+
+/**
+ * Keywords that end a value, so a `/` after them divides
+ */
+const JS_VALUE_KEYWORDS = new Set(['this', 'super', 'true', 'false', 'null', 'undefined']);
+
+const CODE_LANGUAGES: Record<CodeLanguage, CodeLanguageSpec> = {
+  javascript: {
+    comment: C_COMMENT,
+    string: JS_STRING,
+    identifier: CODE_IDENTIFIER,
+    keywords: new Set(JS_KEYWORDS),
+    regex: JS_REGEX,
+  },
+  typescript: {
+    comment: C_COMMENT,
+    string: JS_STRING,
+    identifier: CODE_IDENTIFIER,
+    regex: JS_REGEX,
+    keywords: new Set([
+      ...JS_KEYWORDS,
+      'abstract', 'any', 'as', 'asserts', 'bigint', 'boolean', 'declare', 'enum', 'implements', 'infer',
+      'interface', 'is', 'keyof', 'namespace', 'never', 'number', 'object', 'private', 'protected',
+      'public', 'readonly', 'satisfies', 'string', 'symbol', 'type', 'unknown',
+    ]),
+  },
+  python: {
+    comment: HASH_COMMENT,
+    string: /[rRbBuUfF]{0,2}(?:'''[\s\S]*?(?:'''|$)|"""[\s\S]*?(?:"""|$)|'(?:[^'\\\r\n]|\\[\s\S])*'?|"(?:[^"\\\r\n]|\\[\s\S])*"?)/y,
+    identifier: /[\p{L}_][\p{L}\p{N}_]*/uy,
+    keywords: new Set([
+      'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'case', 'class',
+      'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if',
+      'import', 'in', 'is', 'lambda', 'match', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return',
+      'try', 'while', 'with', 'yield',
+    ]),
+  },
+  json: {
+    // Comments as written in JSONC files
+    comment: C_COMMENT,
+    string: /"(?:[^"\\\r\n]|\\[\s\S])*"?/y,
+    identifier: CODE_IDENTIFIER,
+    keywords: new Set(['true', 'false', 'null']),
+  },
+  shell: {
+    comment: HASH_COMMENT,
+    string: /'[^']*'?|"(?:[^"\\]|\\[\s\S])*"?/y,
+    // Variables ($name, ${name}, $1, $?) count as identifiers
+    identifier: /\$\{[^}\s]*\}?|\$[\p{L}_][\p{L}\p{N}_]*|\$[\d#?@*$!-]|[\p{L}_][\p{L}\p{N}_]*/uy,
+    keywords: new Set([
+      'break', 'case', 'continue', 'declare', 'do', 'done', 'elif', 'else', 'esac', 'exit', 'export',
+      'fi', 'for', 'function', 'if', 'in', 'local', 'readonly', 'return', 'select', 'shift', 'then',
+      'time', 'unset', 'until', 'while',
+    ]),
+    commentAtWordStart: true,
+  },
+};
+
+const CODE_EXTENSIONS: Record<string, CodeLanguage> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  pyi: 'python',
+  json: 'json',
+  jsonc: 'json',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+};
+
+/**
+ * Picks the code granularity language for a file name by its extension,
+ * e.g. `src/app.tsx` -> 'typescript'. Returns undefined for other files.
+ */
+export function detectLanguage(fileName: string): CodeLanguage | undefined {
+  const extension = /\.([^./\\]+)$/.exec(fileName);
+  return extension ? CODE_EXTENSIONS[extension[1].toLowerCase()] : undefined;
+}
+
+/**
+ * Splits source code into comments, strings, numbers, keywords, identifiers,
+ * punctuation and runs of whitespace. The tokens cover the input exactly.
+ * Unterminated strings and comments run to the end of the line or input.
+ * A `/` starts a regular expression literal only where a value may start,
+ * judged by the previous token other than whitespace and comments: not after
+ * an identifier, number, string, closing bracket or a keyword such as `this`.
+ */
+function lexCode(text: string, language: CodeLanguage): CodeToken[] {
+  const spec = CODE_LANGUAGES[language];
+  if (!spec) {
+    throw new Error(`Unknown language: ${language}`);
+  }
+
+  const tokens: CodeToken[] = [];
+  const matchAt = (pattern: RegExp, pos: number): string | undefined => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    return match && match[0].length > 0 ? match[0] : undefined;
+  };
+
+  let previous: CodeToken | undefined;
+  const valueMayStart = () => {
+    switch (previous?.kind) {
+      case undefined:
+        return true;
+      case 'punctuation':
+        return !/^(?:[)\]}]|\+\+|--)$/.test(previous.text);
+      case 'keyword':
+        return !JS_VALUE_KEYWORDS.has(previous.text);
+      default:
+        return false;
+    }
+  };
+
+  for (let pos = 0; pos < text.length;) {
+    const wordStart = pos === 0 || /\s/.test(text[pos - 1]);
+    let kind: CodeTokenKind;
+    let token: string | undefined;
+    if ((token = matchAt(CODE_WHITESPACE, pos))) {
+      kind = 'whitespace';
+    } else if ((!spec.commentAtWordStart || wordStart) && (token = matchAt(spec.comment, pos))) {
+      kind = 'comment';
+    } else if ((token = matchAt(spec.string, pos))) {
+      kind = 'string';
+    } else if (spec.regex && text[pos] === '/' && valueMayStart() && (token = matchAt(spec.regex, pos))) {
+      kind = 'regex';
+    } else if ((token = matchAt(CODE_NUMBER, pos))) {
+      kind = 'number';
+    } else if ((token = matchAt(spec.identifier, pos))) {
+      kind = spec.keywords.has(token) ? 'keyword' : 'identifier';
+    } else {
+      token = matchAt(CODE_PUNCTUATION, pos)!;
+      kind = 'punctuation';
+    }
+    tokens.push({ kind, text: token, start: pos });
+    if (kind !== 'whitespace' && kind !== 'comment') {
+      previous = tokens[tokens.length - 1];
+    }
+    pos += token.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Merges each run of comments and whitespace that holds a comment into one
+ * comment token, so that the run is compared by its `spacing` (ignoreComments)
+ */
+function mergeCommentRuns(tokens: CodeToken[]): CodeToken[] {
+  const merged: CodeToken[] = [];
+  for (let k = 0; k < tokens.length;) {
+    let end = k;
+    let hasComment = false;
+    while (end < tokens.length && (tokens[end].kind === 'comment' || tokens[end].kind === 'whitespace')) {
+      hasComment ||= tokens[end].kind === 'comment';
+      end++;
+    }
+    if (!hasComment) {
+      merged.push(tokens[k]);
+      k++;
+      continue;
+    }
+
+    const run = tokens.slice(k, end);
+    merged.push({
+      kind: 'comment',
+      text: run.map(token => token.text).join(''),
+      start: run[0].start,
+      spacing: run.filter(token => token.kind === 'whitespace').map(token => token.text).join(''),
+    });
+    k = end;
+  }
+  return merged;
+}
+
+/**
+ * The form of a code token that is compared. Whitespace keeps only its line
+ * breaks and final indentation once comments are ignored, since removing a
+ * comment leaves blank lines and trailing spaces behind. When string contents
+ * are ignored a string keeps only its prefix and whether it is a template.
+ */
+function comparableCodeToken(token: CodeToken, options: DiffOptions): string {
+  if (options.ignoreComments && (token.kind === 'whitespace' || token.spacing !== undefined)) {
+    const spacing = token.spacing ?? token.text;
+    if (!spacing.includes('\n')) {
+      return spacing.length > 0 ? ' ' : '';
+    }
+    return spacing.replace(/[ \t]*\r?\n/g, '\n').replace(/\n+/g, '\n');
+  }
+  if (options.ignoreStringContents && token.kind === 'string') {
+    const quote = /^([^'"`]*)(['"`])/.exec(token.text);
+    return quote ? `${quote[1]}${quote[2] === '`' ? '``' : '""'}` : token.text;
+  }
+  return token.text;
+}
+
+// ============================================================================
+// Myers Diff Engine
+// ============================================================================
+
+/**
+ * A pair of aligned token indices: [index in original, index in modified]
+ */
+type TokenMatch = [number, number];
+
+/**
+ * A half-open token range on both sides: [aLo, aHi, bLo, bHi]
+ */
+type TokenRange = [number, number, number, number];
+
+/**
+ * Maps tokens to integer ids so the diff engine compares numbers instead of strings
+ */
+function internTokens(tokens1: string[], tokens2: string[]): { ids1: Int32Array; ids2: Int32Array } {
+  const table = new Map<string, number>();
+  const intern = (tokens: string[]): Int32Array => {
+    const ids = new Int32Array(tokens.length);
+    for (let i = 0; i < tokens.length; i++) {
+      let id = table.get(tokens[i]);
+      if (id === undefined) {
+        id = table.size;
+        table.set(tokens[i], id);
+      }
+      ids[i] = id;
+    }
+    return ids;
+  };
+  return { ids1: intern(tokens1), ids2: intern(tokens2) };
+}
+
+/**
+ * Time and edit-cost limits for one diff, shared by every engine call it makes
+ */
+interface DiffBudget {
+  deadline: number;
+  maxCost: number;
+  cost: number;
+  /** Set once a limit is hit; engines then stop searching */
+  exhausted?: DiffBudgetReason;
+}
+
+function createBudget(options: DiffOptions): DiffBudget {
+  return {
+    deadline: options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : Infinity,
+    maxCost: options.maxEditCost ?? Infinity,
+    cost: 0,
+  };
+}
+
+/**
+ * Charges `cost` edit steps to the budget and checks the deadline.
+ * Returns false once the budget is exhausted.
+ */
+function spendBudget(budget: DiffBudget, cost: number): boolean {
+  if (budget.exhausted) {
+    return false;
+  }
+  budget.cost += cost;
+  if (budget.cost > budget.maxCost) {
+    budget.exhausted = 'maxEditCost';
+  } else if (Date.now() > budget.deadline) {
+    budget.exhausted = 'timeout';
+  }
+  return !budget.exhausted;
+}
+
+/**
+ * Finds the middle snake of a[aLo..aHi) against b[bLo..bHi) by running the
+ * Myers search from both ends at once. Only two diagonal vectors are kept,
+ * so memory is linear in the input size. Returns the split point in absolute
+ * coordinates, or null when the ranges have nothing in common or the budget
+ * runs out; either way the caller treats the range as replaced.
+ */
+function bisect(
+  a: Int32Array,
+  aLo: number,
+  aHi: number,
+  b: Int32Array,
+  bLo: number,
+  bHi: number,
+  budget?: DiffBudget
+): TokenMatch | null {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const vOffset = maxD;
+  const vLength = 2 * maxD + 2;
+  const v1 = new Int32Array(vLength).fill(-1);
+  const v2 = new Int32Array(vLength).fill(-1);
+  v1[vOffset + 1] = 0;
+  v2[vOffset + 1] = 0;
+
+  const delta = n - m;
+  // If the total number of tokens is odd, the front path collides with the reverse path
+  const front = delta % 2 !== 0;
+  // Offsets for the start and end of the k loops, which prevent mapping off the grid
+  let k1Start = 0;
+  let k1End = 0;
+  let k2Start = 0;
+  let k2End = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    if (budget && !spendBudget(budget, 1)) {
+      return null;
+    }
+
+    // Walk the front path one step
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const k1Offset = vOffset + k1;
+      let x1 = k1 === -d || (k1 !== d && v1[k1Offset - 1] < v1[k1Offset + 1])
+        ? v1[k1Offset + 1]
+        : v1[k1Offset - 1] + 1;
+      let y1 = x1 - k1;
+      while (x1 < n && y1 < m && a[aLo + x1] === b[bLo + y1]) {
+        x1++;
+        y1++;
+      }
+      v1[k1Offset] = x1;
+      if (x1 > n) {
+        k1End += 2;
+      } else if (y1 > m) {
+        k1Start += 2;
+      } else if (front) {
+        const k2Offset = vOffset + delta - k1;
+        if (k2Offset >= 0 && k2Offset < vLength && v2[k2Offset] !== -1) {
+          // Mirror x2 onto the top-left coordinate system
+          if (x1 >= n - v2[k2Offset]) {
+            return [aLo + x1, bLo + y1];
+          }
+        }
+      }
+    }
+
+    // Walk the reverse path one step
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const k2Offset = vOffset + k2;
+      let x2 = k2 === -d || (k2 !== d && v2[k2Offset - 1] < v2[k2Offset + 1])
+        ? v2[k2Offset + 1]
+        : v2[k2Offset - 1] + 1;
+      let y2 = x2 - k2;
+      while (x2 < n && y2 < m && a[aHi - x2 - 1] === b[bHi - y2 - 1]) {
+        x2++;
+        y2++;
+      }
+      v2[k2Offset] = x2;
+      if (x2 > n) {
+        k2End += 2;
+      } else if (y2 > m) {
+        k2Start += 2;
+      } else if (!front) {
+        const k1Offset = vOffset + delta - k2;
+        if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1) {
+          const x1 = v1[k1Offset];
+          const y1 = vOffset + x1 - k1Offset;
+          if (x1 >= n - x2) {
+            return [aLo + x1, bLo + y1];
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strips the common prefix and suffix of a token range, recording them as
+ * matches. Returns the remaining range, or null when one side is exhausted.
+ */
+function trimCommon(a: Int32Array, b: Int32Array, range: TokenRange, matches: TokenMatch[]): TokenRange | null {
+  let [aLo, aHi, bLo, bHi] = range;
+
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    matches.push([aLo, bLo]);
+    aLo++;
+    bLo++;
+  }
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+    aHi--;
+    bHi--;
+    matches.push([aHi, bHi]);
+  }
+
+  return aLo === aHi || bLo === bHi ? null : [aLo, aHi, bLo, bHi];
+}
+
+/**
+ * Aligns a token range with Myers' O(ND) algorithm in linear space,
+ * appending the matches (unordered) to `matches`
+ */
+function myersRange(
+  a: Int32Array,
+  b: Int32Array,
+  range: TokenRange,
+  matches: TokenMatch[],
+  budget?: DiffBudget
+): void {
+  // Explicit work stack instead of recursion so deep splits cannot overflow the call stack
+  const stack: TokenRange[] = [range];
+
+  while (stack.length > 0) {
+    const trimmed = trimCommon(a, b, stack.pop()!, matches);
+    if (!trimmed) {
+      continue;
+    }
+
+    const [aLo, aHi, bLo, bHi] = trimmed;
+    const split = bisect(a, aLo, aHi, b, bLo, bHi, budget);
+    if (split) {
+      stack.push([aLo, split[0], bLo, split[1]], [split[0], aHi, split[1], bHi]);
+    }
+  }
+}
+
+/**
+ * Computes the aligned token pairs of a shortest edit script between two
+ * token id sequences using Myers' O(ND) algorithm in linear space.
+ * Matches are returned in ascending order on both sides.
+ */
+function myersDiff(a: Int32Array, b: Int32Array, budget?: DiffBudget): TokenMatch[] {
+  const matches: TokenMatch[] = [];
+  myersRange(a, b, [0, a.length, 0, b.length], matches, budget);
+  return matches.sort((x, y) => x[0] - y[0]);
+}
+
+// ============================================================================
+// Patience Diff Engine
+// ============================================================================
+
+/**
+ * Returns the longest increasing subsequence of `pairs` by original index.
+ * Pairs must already be ordered by modified index.
+ */
+function longestIncreasingPairs(pairs: TokenMatch[]): TokenMatch[] {
+  // tails[k] holds the index of the smallest pair ending an increasing run of length k + 1
+  const tails: number[] = [];
+  const previous = new Int32Array(pairs.length).fill(-1);
+
+  for (let p = 0; p < pairs.length; p++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]][0] < pairs[p][0]) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    previous[p] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = p;
+  }
+
+  const result: TokenMatch[] = [];
+  for (let p = tails.length > 0 ? tails[tails.length - 1] : -1; p !== -1; p = previous[p]) {
+    result.push(pairs[p]);
+  }
+  return result.reverse();
+}
+
+/**
+ * Pairs the tokens that occur exactly once in both ranges and keeps the
+ * longest run of those pairs that is in order on both sides
+ */
+function uniqueAnchors(a: Int32Array, b: Int32Array, [aLo, aHi, bLo, bHi]: TokenRange): TokenMatch[] {
+  // Count occurrences; -1 marks a token seen more than once
+  const uniqueA = new Map<number, number>();
+  for (let i = aLo; i < aHi; i++) {
+    uniqueA.set(a[i], uniqueA.has(a[i]) ? -1 : i);
+  }
+  const uniqueB = new Map<number, number>();
+  for (let j = bLo; j < bHi; j++) {
+    uniqueB.set(b[j], uniqueB.has(b[j]) ? -1 : j);
+  }
+
+  const candidates: TokenMatch[] = [];
+  for (let j = bLo; j < bHi; j++) {
+    const i = uniqueA.get(b[j]);
+    if (i !== undefined && i !== -1 && uniqueB.get(b[j]) === j) {
+      candidates.push([i, j]);
+    }
+  }
+
+  return longestIncreasingPairs(candidates);
+}
+
+/**
+ * Aligns tokens with the patience algorithm: tokens that occur exactly once
+ * on both sides anchor the alignment, and the ranges between anchors are
+ * solved recursively. Ranges without unique tokens fall back to Myers.
+ * Repeated tokens such as blank lines or closing braces can never anchor,
+ * which keeps hunks aligned on distinctive content.
+ */
+function patienceDiff(a: Int32Array, b: Int32Array, budget?: DiffBudget): TokenMatch[] {
+  const matches: TokenMatch[] = [];
+  const stack: TokenRange[] = [[0, a.length, 0, b.length]];
+
+  while (stack.length > 0) {
+    const trimmed = trimCommon(a, b, stack.pop()!, matches);
+    // Out of budget: leave the range as a replacement
+    if (!trimmed || (budget && !spendBudget(budget, 0))) {
+      continue;
+    }
+
+    const [aLo, aHi, bLo, bHi] = trimmed;
+    const anchors = uniqueAnchors(a, b, trimmed);
+    if (anchors.length === 0) {
+      myersRange(a, b, trimmed, matches, budget);
+      continue;
+    }
+
+    let prevI = aLo;
+    let prevJ = bLo;
+    for (const [i, j] of anchors) {
+      matches.push([i, j]);
+      stack.push([prevI, i, prevJ, j]);
+      prevI = i + 1;
+      prevJ = j + 1;
+    }
+    stack.push([prevI, aHi, prevJ, bHi]);
+  }
+
+  return matches.sort((x, y) => x[0] - y[0]);
+}
+
+// ============================================================================
+// Histogram Diff Engine
+// ============================================================================
+
+/**
+ * Tokens occurring more often than this in a range are not used as anchors
+ * by the histogram engine; such ranges are handed to Myers instead
+ */
+const HISTOGRAM_MAX_CHAIN = 64;
+
+/**
+ * Aligns tokens with the histogram algorithm (as in git): each range is split
+ * around the longest common region built from its least frequent tokens, and
+ * both sides of the region are solved recursively. Like patience it prefers
+ * rare tokens as anchors, but it still anchors on repeated ones when nothing
+ * unique is available.
+ */
+function histogramDiff(a: Int32Array, b: Int32Array, budget?: DiffBudget): TokenMatch[] {
+  const matches: TokenMatch[] = [];
+  const stack: TokenRange[] = [[0, a.length, 0, b.length]];
+
+  while (stack.length > 0) {
+    const trimmed = trimCommon(a, b, stack.pop()!, matches);
+    // Out of budget: leave the range as a replacement
+    if (!trimmed || (budget && !spendBudget(budget, 0))) {
+      continue;
+    }
+
+    const [aLo, aHi, bLo, bHi] = trimmed;
+
+    const occurrences = new Map<number, number[]>();
+    for (let i = aLo; i < aHi; i++) {
+      const positions = occurrences.get(a[i]);
+      if (positions) {
+        positions.push(i);
+      } else {
+        occurrences.set(a[i], [i]);
+      }
+    }
+
+    let best: { aStart: number; bStart: number; length: number; count: number } | null = null;
+
+    for (let j = bLo; j < bHi;) {
+      const positions = occurrences.get(b[j]);
+      let nextJ = j + 1;
+
+      if (positions && positions.length <= HISTOGRAM_MAX_CHAIN && (!best || positions.length <= best.count)) {
+        for (const i of positions) {
+          let aStart = i;
+          let bStart = j;
+          while (aStart > aLo && bStart > bLo && a[aStart - 1] === b[bStart - 1]) {
+            aStart--;
+            bStart--;
+          }
+          let aEnd = i + 1;
+          let bEnd = j + 1;
+          while (aEnd < aHi && bEnd < bHi && a[aEnd] === b[bEnd]) {
+            aEnd++;
+            bEnd++;
+          }
+
+          let count = Infinity;
+          for (let k = aStart; k < aEnd; k++) {
+            count = Math.min(count, occurrences.get(a[k])!.length);
+          }
+
+          const length = aEnd - aStart;
+          if (!best || count < best.count || (count === best.count && length > best.length)) {
+            best = { aStart, bStart, length, count };
+          }
+          nextJ = Math.max(nextJ, bEnd);
+        }
+      }
+
+      j = nextJ;
+    }
+
+    if (!best) {
+      // No token within the chain limit is shared; fall back to Myers if anything is shared at all
+      let shared = false;
+      for (let j = bLo; j < bHi && !shared; j++) {
+        shared = occurrences.has(b[j]);
+      }
+      if (shared) {
+        myersRange(a, b, trimmed, matches, budget);
+      }
+      continue;
+    }
+
+    for (let k = 0; k < best.length; k++) {
+      matches.push([best.aStart + k, best.bStart + k]);
+    }
+    stack.push(
+      [aLo, best.aStart, bLo, best.bStart],
+      [best.aStart + best.length, aHi, best.bStart + best.length, bHi]
+    );
+  }
+
+  return matches.sort((x, y) => x[0] - y[0]);
+}
+
+/**
+ * Diff engines by algorithm name
+ */
+const DIFF_ENGINES: Record<DiffAlgorithm, (a: Int32Array, b: Int32Array, budget?: DiffBudget) => TokenMatch[]> = {
+  myers: myersDiff,
+  patience: patienceDiff,
+  histogram: histogramDiff,
+};
+
+// ============================================================================
+// Intra-line Segments
+// ============================================================================
+
+/**
+ * Splits a line into words, whitespace runs and single punctuation marks
+ */
+const SEGMENT_WORD_PATTERN = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Sub-diffs with more tokens than this are reported as a single replacement
+ */
+const SEGMENT_MAX_TOKENS = 10000;
+
+/**
+ * Appends text to a segment list, merging it into the last segment when the types match
+ */
+function appendSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string): void {
+  if (text.length === 0) {
+    return;
+  }
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diffs two token lists with Myers and returns the result as segments
+ */
+function diffSegments(tokens1: string[], tokens2: string[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  if (tokens1.length + tokens2.length > SEGMENT_MAX_TOKENS) {
+    appendSegment(segments, 'removed', tokens1.join(''));
+    appendSegment(segments, 'added', tokens2.join(''));
+    return segments;
+  }
+
+  const { ids1, ids2 } = internTokens(tokens1, tokens2);
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of [...myersDiff(ids1, ids2), [tokens1.length, tokens2.length] as TokenMatch]) {
+    appendSegment(segments, 'removed', tokens1.slice(i, matchI).join(''));
+    appendSegment(segments, 'added', tokens2.slice(j, matchJ).join(''));
+    if (matchI < tokens1.length) {
+      appendSegment(segments, 'equal', tokens1[matchI]);
+    }
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+  return segments;
+}
+
+/**
+ * Computes word- and character-level segments for a pair of texts. The
+ * character level refines each replaced run of words on its own, so
+ * unrelated words never share stray matching letters. With a locale,
+ * characters are grapheme clusters and, unless a word pattern is given,
+ * words come from Intl.Segmenter.
+ */
+function computeSegments(
+  original: string,
+  modified: string,
+  wordPattern?: RegExp,
+  locale?: string
+): { words: DiffSegment[]; characters: DiffSegment[] } {
+  const splitWords = (text: string) => (locale && !wordPattern
+    ? segmentText(text, 'word', locale)
+    : text.match(wordPattern || SEGMENT_WORD_PATTERN) || []);
+  const splitCharacters = (text: string) => (locale ? segmentText(text, 'grapheme', locale) : Array.from(text));
+  const words = diffSegments(splitWords(original), splitWords(modified));
+
+  const characters: DiffSegment[] = [];
+  for (let k = 0; k < words.length; k++) {
+    const segment = words[k];
+    const next = words[k + 1];
+    if (segment.type === 'removed' && next?.type === 'added') {
+      for (const refined of diffSegments(splitCharacters(segment.text), splitCharacters(next.text))) {
+        appendSegment(characters, refined.type, refined.text);
+      }
+      k++;
+    } else {
+      appendSegment(characters, segment.type, segment.text);
+    }
+  }
+
+  return { words, characters };
+}
+
+// ============================================================================
+// Change Categories
+// ============================================================================
+
+/**
+ * Edit distance counting a swap of adjacent characters as one edit, so
+ * 'teh' → 'the' is a single typo. Distances above `limit` all come back as
+ * `limit + 1`: only the band of cells within `limit` of the diagonal is
+ * filled, in three rows, and the search stops once a row exceeds it.
+ */
+function transpositionDistance(a: string, b: string, limit: number): number {
+  const over = limit + 1;
+  if (Math.abs(a.length - b.length) > limit) return over;
+
+  let beforePrevious = new Int32Array(b.length + 1).fill(over);
+  let previous = Int32Array.from({ length: b.length + 1 }, (_, j) => Math.min(j, over));
+  let current = new Int32Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    current.fill(over);
+    if (i <= limit) current[0] = i;
+    let rowMin = current[0];
+    for (let j = Math.max(1, i - limit); j <= Math.min(b.length, i + limit); j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let cell = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        cell = Math.min(cell, beforePrevious[j - 2] + 1);
+      }
+      current[j] = Math.min(cell, over);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return over;
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
+  }
+  return previous[b.length];
+}
+
+/**
+ * Words longer than this are never typos of each other: long tokens such as
+ * hashes or URLs that differ are substantive changes
+ */
+const TYPO_MAX_WORD_LENGTH = 64;
+
+/**
+ * Whether two word lists differ only by misspellings: word for word, each
+ * differing word is within one edit, or two for words over four letters.
+ * Words of one or two letters have no room for a typo, and words over
+ * `TYPO_MAX_WORD_LENGTH` none either.
+ */
+function isTypoFix(words1: string[], words2: string[]): boolean {
+  if (words1.length !== words2.length) return false;
+  let fixes = 0;
+  for (let k = 0; k < words1.length; k++) {
+    if (words1[k] === words2[k]) continue;
+    const length = Math.max(words1[k].length, words2[k].length);
+    if (length > TYPO_MAX_WORD_LENGTH) return false;
+    const allowed = length > 4 ? 2 : length > 2 ? 1 : 0;
+    if (allowed === 0 || transpositionDistance(words1[k], words2[k], allowed) > allowed) return false;
+    fixes++;
+  }
+  return fixes > 0;
+}
+
+/**
+ * Whether the second word list only swaps words of the first one for one:
+ * between words both keep in order, as many words are removed as added
+ */
+function isSubstitution(words1: string[], words2: string[]): boolean {
+  if (words1.length !== words2.length) return false;
+  const { ids1, ids2 } = internTokens(words1, words2);
+  return myersDiff(ids1, ids2).every(([i, j]) => i === j);
+}
+
+/**
+ * Words and numbers of a text, lower-cased, with every number as '#'
+ */
+function numberlessTerms(text: string): string[] {
+  return (text.toLowerCase().match(/\d+(?:[.,]\d+)*|[\p{L}\p{N}_]+/gu) || []).map(term => (/\d/.test(term) ? '#' : term));
+}
+
+/**
+ * Classifies a change with the most trivial category that explains it;
+ * see ChangeCategory. Added and removed text is whitespace, punctuation or
+ * number when that is all it holds, and a rewrite otherwise.
+ */
+function categorizeChange(change: DiffChange, options: DiffOptions): ChangeCategory {
+  if (change.type === 'moved') return 'reorder';
+
+  const squash = (text: string) => text.replace(/\s+/g, '');
+  const unpunctuate = (text: string) => squash(text).toLowerCase().replace(/\p{P}/gu, '');
+
+  if (change.type !== 'modified') {
+    const text = change.original ?? change.modified ?? '';
+    if (!squash(text)) return 'whitespace';
+    if (!unpunctuate(text)) return 'punctuation';
+    if (numberlessTerms(text).every(term => term === '#')) return 'number';
+    return 'rewrite';
+  }
+
+  const original = change.original!;
+  const modified = change.modified!;
+  if (squash(original) === squash(modified)) return 'whitespace';
+  if (squash(original).toLowerCase() === squash(modified).toLowerCase()) return 'case';
+  if (unpunctuate(original) === unpunctuate(modified)) return 'punctuation';
+  if (numberlessTerms(original).join(' ') === numberlessTerms(modified).join(' ')) return 'number';
+
+  const words1 = scorerWords(original);
+  const words2 = scorerWords(modified);
+  if (words1.join(' ') !== words2.join(' ') && [...words1].sort().join(' ') === [...words2].sort().join(' ')) {
+    return 'reorder';
+  }
+  if (isTypoFix(words1, words2)) return 'typo';
+
+  if (!isSubstitution(words1, words2)) return 'rewrite';
+  const similarity = change.similarity ?? computeSemanticSimilarity(original, modified, options);
+  return similarity >= (options.similarityThreshold ?? 0.5) ? 'rephrase' : 'rewrite';
+}
+
+/**
+ * Sets the category of every change that is not unchanged. Stops once the
+ * budget is spent, so approximate results can leave changes uncategorized
+ */
+function categorizeChanges(changes: DiffChange[], options: DiffOptions, budget?: DiffBudget): void {
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    if (budget && i % 1024 === 0 && !spendBudget(budget, 0)) return;
+    if (change.type !== 'unchanged') {
+      change.category = categorizeChange(change, options);
+    }
+  }
+}
+
+// ============================================================================
+// Quantities
+// ============================================================================
+
+/**
+ * A figure found in a text, before pairing
+ */
+interface Quantity {
+  kind: QuantityKind;
+  text: string;
+  value: number;
+  unit?: string;
+}
+
+const MONTH_NAMES = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+/**
+ * ISO dates, also at the start of a timestamp, "March 5, 2024" and "5 March 2024"
+ */
+const DATE_PATTERN = new RegExp(
+  `\\b(\\d{4})-(\\d{2})-(\\d{2})(?!\\d)`
+    + `|\\b(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`
+    + `|\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\.?,?\\s+(\\d{4})\\b`,
+  'gi'
+);
+
+/**
+ * Unit spellings, lower-cased, to the singular unit they are reported as
+ */
+const MEASURE_UNITS: Record<string, string> = Object.fromEntries([
+  ['ms', 'ms'], ['millisecond', 'ms'], ['milliseconds', 'ms'],
+  ['sec', 'second'], ['secs', 'second'], ['second', 'second'], ['seconds', 'second'],
+  ['min', 'minute'], ['mins', 'minute'], ['minute', 'minute'], ['minutes', 'minute'],
+  ['hr', 'hour'], ['hrs', 'hour'], ['hour', 'hour'], ['hours', 'hour'],
+  ['day', 'day'], ['days', 'day'], ['week', 'week'], ['weeks', 'week'],
+  ['month', 'month'], ['months', 'month'], ['year', 'year'], ['years', 'year'],
+  ['mg', 'mg'], ['g', 'g'], ['kg', 'kg'], ['lb', 'lb'], ['lbs', 'lb'], ['oz', 'oz'],
+  ['mm', 'mm'], ['cm', 'cm'], ['m', 'm'], ['km', 'km'], ['ft', 'ft'], ['mi', 'mi'], ['mile', 'mile'], ['miles', 'mile'],
+  ['kb', 'KB'], ['mb', 'MB'], ['gb', 'GB'], ['tb', 'TB'],
+]);
+
+const CURRENCY_CODES = 'USD|EUR|GBP|JPY|CNY|INR|CAD|AUD|CHF';
+
+/**
+ * A number, with an optional currency symbol before it and an optional
+ * percent sign, currency code or unit after it. A minus sign (`-` or `−`)
+ * right before the number or its currency symbol makes it negative, unless
+ * it joins two words or numbers, as in `5-10`. Digits that are part of a
+ * word or a version string are skipped.
+ */
+const QUANTITY_PATTERN = new RegExp(
+  `(?:(?<![\\p{L}\\p{N}_.])([-−]))?(?:([$€£¥₹])([-−])?)?(?<![\\p{L}\\p{N}_.])(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)(?![\\p{N}_]|\\.\\d)`
+    + `(?:\\s?(%)|\\s?(percent)\\b|\\s?(${CURRENCY_CODES})\\b|\\s?(${Object.keys(MEASURE_UNITS).join('|')})\\b)?`,
+  'giu'
+);
+
+/**
+ * Days since 1970-01-01 of a calendar date, or undefined when it does not exist
+ */
+function dayNumber(year: number, month: number, day: number): number | undefined {
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? time / 86_400_000 : undefined;
+}
+
+/**
+ * Finds the figures in a text, in order; dates are found first so their
+ * digits are not read as plain numbers
+ */
+function extractQuantities(text: string): Quantity[] {
+  const found: Array<Quantity & { index: number }> = [];
+  const monthOf = (name: string) =>
+    ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+  const masked = text.replace(DATE_PATTERN, (match, ...groups) => {
+    const index = groups[9] as number;
+    const [isoYear, isoMonth, isoDay, month1, day1, year1, day2, month2, year2] = groups as string[];
+    const value = isoYear
+      ? dayNumber(Number(isoYear), Number(isoMonth), Number(isoDay))
+      : month1
+        ? dayNumber(Number(year1), monthOf(month1), Number(day1))
+        : dayNumber(Number(year2), monthOf(month2), Number(day2));
+    if (value === undefined) return match;
+    found.push({ kind: 'date', text: match, value, unit: 'day', index });
+    return ' '.repeat(match.length);
+  });
+
+  for (const match of masked.matchAll(QUANTITY_PATTERN)) {
+    const [whole, sign, symbol, symbolSign, digits, percent, percentWord, code, unit] = match;
+    const value = (sign || symbolSign ? -1 : 1) * Number(digits.replace(/,/g, ''));
+    const quantity: Quantity = symbol || code
+      ? { kind: 'currency', text: whole, value, unit: symbol || code.toUpperCase() }
+      : percent || percentWord
+        ? { kind: 'percentage', text: whole, value, unit: '%' }
+        : unit
+          ? { kind: 'measure', text: whole, value, unit: MEASURE_UNITS[unit.toLowerCase()] }
+          : { kind: 'number', text: whole, value };
+    found.push({ ...quantity, index: match.index! });
+  }
+
+  return found.sort((a, b) => a.index - b.index).map(({ index, ...quantity }) => quantity);
+}
+
+/**
+ * Pairs the figures of two texts: figures equal on both sides are aligned
+ * and dropped, and the rest are paired in order between those anchors when
+ * their kind and unit agree
+ */
+function pairQuantities(quantities1: Quantity[], quantities2: Quantity[]): QuantityDelta[] {
+  const key = (quantity: Quantity) => `${quantity.kind}|${quantity.unit ?? ''}|${quantity.value}`;
+  const { ids1, ids2 } = internTokens(quantities1.map(key), quantities2.map(key));
+  const anchors = [...myersDiff(ids1, ids2), [quantities1.length, quantities2.length] as TokenMatch];
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  const deltas: QuantityDelta[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [anchor1, anchor2] of anchors) {
+    const added = quantities2.slice(j, anchor2);
+    let from = 0;
+    for (const removed of quantities1.slice(i, anchor1)) {
+      const k = added.findIndex((candidate, index) =>
+        index >= from && candidate.kind === removed.kind && candidate.unit === removed.unit
+      );
+      if (k === -1) continue;
+      from = k + 1;
+      const delta = round(added[k].value - removed.value);
+      deltas.push({
+        kind: removed.kind,
+        original: removed.text,
+        modified: added[k].text,
+        originalValue: removed.value,
+        modifiedValue: added[k].value,
+        delta,
+        ...(removed.kind !== 'date' && removed.value !== 0 && { relativeChange: round(delta / Math.abs(removed.value)) }),
+        ...(removed.unit !== undefined && { unit: removed.unit }),
+      });
+    }
+    i = anchor1 + 1;
+    j = anchor2 + 1;
+  }
+  return deltas;
+}
+
+/**
+ * Describes a changed figure, e.g. "30 days → 45 days (+15 days, +50%)"
+ */
+export function describeQuantityDelta(quantity: QuantityDelta): string {
+  const sign = quantity.delta < 0 ? '-' : '+';
+  const amount = Math.abs(quantity.delta).toLocaleString('en-US', { maximumFractionDigits: 4 });
+  const plural = Math.abs(quantity.delta) === 1 ? '' : 's';
+  let change: string;
+  switch (quantity.kind) {
+    case 'currency':
+      change = /^[A-Z]{3}$/.test(quantity.unit!) ? `${sign}${amount} ${quantity.unit}` : `${sign}${quantity.unit}${amount}`;
+      break;
+    case 'percentage':
+      change = `${sign}${amount} point${plural}`;
+      break;
+    case 'date':
+      change = `${sign}${amount} day${plural}`;
+      break;
+    case 'measure':
+      // Spelled-out units take a plural; abbreviations such as "kg" do not
+      change = `${sign}${amount} ${quantity.unit}${quantity.unit!.length > 2 && quantity.unit !== 'ms' ? plural : ''}`;
+      break;
+    default:
+      change = `${sign}${amount}`;
+  }
+  const relative = quantity.relativeChange !== undefined
+    ? `, ${sign}${Math.round(Math.abs(quantity.relativeChange) * 1000) / 10}%`
+    : '';
+  return `${quantity.original} → ${quantity.modified} (${change}${relative})`;
+}
+
+// ============================================================================
+// Diff Computation
+// ============================================================================
+
+/**
+ * Builds a modified change, attaching semantic metadata when enabled
+ */
+function createModifiedChange(
+  origText: string,
+  modText: string,
+  options: DiffOptions,
+  originalLine?: number,
+  modifiedLine?: number,
+  segmentPattern?: RegExp
+): DiffChange {
+  const change: DiffChange = {
+    type: 'modified',
+    original: origText,
+    modified: modText,
+    originalLine,
+    modifiedLine,
+    segments: computeSegments(origText, modText, segmentPattern, options.locale),
+  };
+
+  if (options.semanticAnalysis) {
+    const similarity = computeSemanticSimilarity(origText, modText, options);
+    change.similarity = similarity;
+
+    // Generate explanation and key words
+    const origWords = new Set((origText.toLowerCase().match(/\b\w+\b/g) || []).filter(w => w.length > 3));
+    const modWords = new Set((modText.toLowerCase().match(/\b\w+\b/g) || []).filter(w => w.length > 3));
+    const addedWords = [...modWords].filter(w => !origWords.has(w));
+    const removedWords = [...origWords].filter(w => !modWords.has(w));
+
+    change.keyWords = {
+      added: addedWords.slice(0, 5),
+      removed: removedWords.slice(0, 5),
+    };
+
+    // Generate explanation
+    if (similarity >= (options.similarityThreshold ?? 0.5)) {
+      change.explanation = `Reworded with ${Math.round(similarity * 100)}% similarity. Key changes: ${addedWords.length > 0 ? `added "${addedWords[0]}"` : ''} ${removedWords.length > 0 ? `removed "${removedWords[0]}"` : ''}`.trim();
+    } else {
+      change.explanation = `Significantly modified. New focus: ${addedWords.slice(0, 2).join(', ')}`;
+    }
+
+    // Lead with the figures that changed, which matter more than the wording
+    const quantities = pairQuantities(extractQuantities(origText), extractQuantities(modText));
+    if (quantities.length > 0) {
+      change.quantities = quantities;
+      const more = quantities.length - 2;
+      change.explanation = `Changed ${quantities.slice(0, 2).map(describeQuantityDelta).join('; ')}`
+        + `${more > 0 ? ` and ${more} more figure${more !== 1 ? 's' : ''}` : ''}. ${change.explanation}`;
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Moved blocks must contain at least this many non-whitespace characters,
+ * so stray braces or short repeated tokens are not reported as moves
+ */
+const MOVE_MIN_CHARS = 12;
+
+/**
+ * Tokens with more candidate destinations than this are not used to seed exact moves
+ */
+const MOVE_MAX_CANDIDATES = 64;
+
+/**
+ * Near-identical move pairing is skipped when it would compare more block pairs than this
+ */
+const MOVE_MAX_COMPARISONS = 10000;
+
+/**
+ * Token indices that belong to moved blocks, mapped to their move id
+ */
+interface MoveAssignment {
+  source: Map<number, number>;
+  destination: Map<number, number>;
+  similarity: number[];
+}
+
+/**
+ * Returns the non-empty ranges between consecutive matches
+ */
+function computeGaps(matches: TokenMatch[], [aLo, aHi, bLo, bHi]: TokenRange): TokenRange[] {
+  const gaps: TokenRange[] = [];
+  let i = aLo;
+  let j = bLo;
+  for (const [matchI, matchJ] of [...matches, [aHi, bHi] as TokenMatch]) {
+    if (matchI > i || matchJ > j) {
+      gaps.push([i, matchI, j, matchJ]);
+    }
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+  return gaps;
+}
+
+/**
+ * Pairs the ignorable tokens left in each gap between matches, in order, so
+ * unchanged blank lines and trailing whitespace still show up as unchanged.
+ * They are kept out of the engine's alignment so they never win over content.
+ */
+function matchIgnorable(
+  ignorable1: Set<number>,
+  ignorable2: Set<number>,
+  matches: TokenMatch[],
+  [aLo, aHi, bLo, bHi]: TokenRange
+): TokenMatch[] {
+  const result: TokenMatch[] = [];
+  let i = aLo;
+  let j = bLo;
+  for (const match of [...matches, [aHi, bHi] as TokenMatch]) {
+    for (; i < match[0]; i++) {
+      if (!ignorable1.has(i)) continue;
+      while (j < match[1] && !ignorable2.has(j)) j++;
+      if (j === match[1]) break;
+      result.push([i, j++]);
+    }
+    if (match[0] < aHi) result.push(match);
+    i = match[0] + 1;
+    j = match[1] + 1;
+  }
+  return result;
+}
+
+/**
+ * Finds the tokens the normalizer chain leaves out of the alignment: blank
+ * lines (blankLines, line granularity) and, where tokens end inside a line,
+ * tokens of spaces and tabs that only whitespace separates from the line's end
+ * (trailingWhitespace)
+ */
+function findIgnorable(tokens: string[], granularity: TextGranularity, normalizers: DiffNormalizer[]): Set<number> {
+  const ignorable = new Set<number>();
+  if (granularity === 'line' && normalizers.includes('blankLines')) {
+    tokens.forEach((token, k) => { if (token.trim() === '') ignorable.add(k); });
+  }
+  if (INLINE_GRANULARITIES.has(granularity) && normalizers.includes('trailingWhitespace')) {
+    // Walk backwards, remembering whether the tokens after this one start a line break
+    let atLineEnd = true;
+    for (let k = tokens.length - 1; k >= 0; k--) {
+      if (/^[ \t]+$/.test(tokens[k])) {
+        if (atLineEnd) ignorable.add(k);
+      } else {
+        atLineEnd = /^[\r\n]/.test(tokens[k]);
+      }
+    }
+  }
+  return ignorable;
+}
+
+/**
+ * Counts the non-whitespace characters of a token run
+ */
+function blockWeight(tokens: string[], start: number, end: number): number {
+  let weight = 0;
+  for (let k = start; k < end; k++) {
+    weight += tokens[k].replace(/\s+/g, '').length;
+  }
+  return weight;
+}
+
+/**
+ * Counts the non-whitespace characters of the distinct tokens of a run, so
+ * runs of a few repeated short lines stay below `MOVE_MIN_CHARS`
+ */
+function distinctWeight(normalized: string[], start: number, end: number): number {
+  let weight = 0;
+  for (const token of new Set(normalized.slice(start, end))) {
+    weight += token.replace(/\s+/g, '').length;
+  }
+  return weight;
+}
+
+/**
+ * Order-aware similarity of two token runs: the Dice coefficient of an in-order
+ * alignment of their tokens. Identical tokens are aligned first (longest common
+ * subsequence); tokens left between two aligned ones are paired in order and
+ * count for their similarity. Reordered blocks therefore score low even when
+ * they hold the same tokens.
+ */
+function blockSimilarity(
+  tokens1: string[],
+  tokens2: string[],
+  normalized1: string[],
+  normalized2: string[],
+  options: DiffOptions,
+  budget: DiffBudget
+): number {
+  if (tokens1.length + tokens2.length === 0) return 1;
+  const { ids1, ids2 } = internTokens(normalized1, normalized2);
+  let aligned = 0;
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of [...myersDiff(ids1, ids2, budget), [tokens1.length, tokens2.length] as TokenMatch]) {
+    for (let k = 0; k < Math.min(matchI - i, matchJ - j); k++) {
+      aligned += computeSemanticSimilarity(tokens1[i + k], tokens2[j + k], options);
+    }
+    if (matchI < tokens1.length) aligned++;
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+  return (2 * aligned) / (tokens1.length + tokens2.length);
+}
+
+/**
+ * Finds blocks that were removed in one gap and added in another. Identical
+ * runs are paired first; the remaining runs are then paired when their
+ * similarity (see `blockSimilarity`) reaches the midpoint between
+ * `similarityThreshold` and 1, so the default threshold of 0.5 requires 75%
+ * similarity for a move.
+ */
+function detectMoves(
+  tokens1: string[],
+  tokens2: string[],
+  normalized1: string[],
+  normalized2: string[],
+  gaps: TokenRange[],
+  options: DiffOptions,
+  budget: DiffBudget
+): MoveAssignment {
+  const moves: MoveAssignment = { source: new Map(), destination: new Map(), similarity: [] };
+  const gapOf2 = new Map<number, number>();
+  const candidates = new Map<string, number[]>();
+
+  gaps.forEach(([, , bLo, bHi], g) => {
+    for (let j = bLo; j < bHi; j++) {
+      gapOf2.set(j, g);
+      const positions = candidates.get(normalized2[j]);
+      if (positions) {
+        positions.push(j);
+      } else {
+        candidates.set(normalized2[j], [j]);
+      }
+    }
+  });
+
+  // Identical blocks
+  gaps.forEach(([aLo, aHi], g) => {
+    for (let i = aLo; i < aHi; i++) {
+      const positions = candidates.get(normalized1[i]);
+      if (!positions || positions.length > MOVE_MAX_CANDIDATES || normalized1[i].trim() === '') {
+        continue;
+      }
+
+      let best = { j: -1, length: 0 };
+      for (const j of positions) {
+        const gap = gapOf2.get(j)!;
+        if (gap === g || moves.destination.has(j)) {
+          continue;
+        }
+        const bHi = gaps[gap][3];
+        let length = 0;
+        while (
+          i + length < aHi
+          && j + length < bHi
+          && !moves.destination.has(j + length)
+          && normalized1[i + length] === normalized2[j + length]
+        ) {
+          length++;
+        }
+        if (length > best.length) {
+          best = { j, length };
+        }
+      }
+
+      if (best.length > 0 && blockWeight(tokens1, i, i + best.length) >= MOVE_MIN_CHARS) {
+        const id = moves.similarity.length;
+        moves.similarity.push(1);
+        for (let k = 0; k < best.length; k++) {
+          moves.source.set(i + k, id);
+          moves.destination.set(best.j + k, id);
+        }
+        i += best.length - 1;
+      }
+    }
+  });
+
+  // Near-identical blocks: pair the leftover runs of each gap by similarity
+  const collectRuns = (side: 'source' | 'destination', tokens: string[], normalized: string[]) => {
+    const runs: Array<{ gap: number; start: number; end: number }> = [];
+    gaps.forEach((gapRange, g) => {
+      const [lo, hi] = side === 'source' ? [gapRange[0], gapRange[1]] : [gapRange[2], gapRange[3]];
+      let start = lo;
+      for (let k = lo; k <= hi; k++) {
+        if (k === hi || moves[side].has(k)) {
+          // Leave blank tokens at the edges of a run where they are
+          let end = k;
+          while (start < end && tokens[start].trim() === '') start++;
+          while (end > start && tokens[end - 1].trim() === '') end--;
+          if (distinctWeight(normalized, start, end) >= MOVE_MIN_CHARS) {
+            runs.push({ gap: g, start, end });
+          }
+          start = k + 1;
+        }
+      }
+    });
+    return runs;
+  };
+
+  const sourceRuns = collectRuns('source', tokens1, normalized1);
+  const destinationRuns = collectRuns('destination', tokens2, normalized2);
+  if (sourceRuns.length * destinationRuns.length > MOVE_MAX_COMPARISONS) {
+    return moves;
+  }
+
+  const threshold = (1 + (options.similarityThreshold ?? 0.5)) / 2;
+  const pairs: Array<{ s: number; d: number; similarity: number }> = [];
+  sourceRuns.forEach((source, s) => {
+    destinationRuns.forEach((destination, d) => {
+      if (source.gap === destination.gap || budget.exhausted) {
+        return;
+      }
+      const similarity = blockSimilarity(
+        tokens1.slice(source.start, source.end),
+        tokens2.slice(destination.start, destination.end),
+        normalized1.slice(source.start, source.end),
+        normalized2.slice(destination.start, destination.end),
+        options,
+        budget
+      );
+      if (similarity >= threshold) {
+        pairs.push({ s, d, similarity });
+      }
+    });
+  });
+
+  const usedSources = new Set<number>();
+  const usedDestinations = new Set<number>();
+  for (const { s, d, similarity } of pairs.sort((x, y) => y.similarity - x.similarity)) {
+    if (usedSources.has(s) || usedDestinations.has(d)) {
+      continue;
+    }
+    usedSources.add(s);
+    usedDestinations.add(d);
+
+    const id = moves.similarity.length;
+    moves.similarity.push(similarity);
+    for (let k = sourceRuns[s].start; k < sourceRuns[s].end; k++) {
+      moves.source.set(k, id);
+    }
+    for (let k = destinationRuns[d].start; k < destinationRuns[d].end; k++) {
+      moves.destination.set(k, id);
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Hunks with more removed × added pairs than this, or than the selected
+ * scorers allow (`SimilarityScorer.maxComparisons`), only compare the tokens
+ * at the same position
+ */
+const PAIRING_MAX_COMPARISONS = 10000;
+
+function pairingLimit(options: DiffOptions): number {
+  const selection = options.similarityScorer ?? 'jaccard';
+  const names = typeof selection === 'string'
+    ? [selection]
+    : Object.keys(selection).filter(name => selection[name] > 0);
+  return Math.min(PAIRING_MAX_COMPARISONS, ...names.map(name => lookupScorer(name).maxComparisons ?? Infinity));
+}
+
+/**
+ * Chooses which removed and added tokens of a hunk are reported together as
+ * modified changes. Lines, sentences and paragraphs are aligned in order so
+ * that the total similarity of the pairs is as high as possible, and only
+ * pairs reaching `similarityThreshold` are kept; hunks too large to align
+ * only compare the tokens at the same position. Words, characters and code
+ * tokens carry too little text to compare, so they are paired by position.
+ * If the budget runs out while comparing, nothing is paired.
+ */
+function pairTokens(removed: string[], added: string[], options: DiffOptions, budget?: DiffBudget): TokenMatch[] {
+  const granularity = options.granularity || 'line';
+  if (granularity === 'word' || granularity === 'character' || granularity === 'code') {
+    return Array.from({ length: Math.min(removed.length, added.length) }, (_, k): TokenMatch => [k, k]);
+  }
+
+  const threshold = options.similarityThreshold ?? 0.5;
+  if (removed.length * added.length > pairingLimit(options)) {
+    const pairs: TokenMatch[] = [];
+    for (let k = 0; k < Math.min(removed.length, added.length); k++) {
+      if (computeSemanticSimilarity(removed[k], added[k], options) >= threshold) {
+        pairs.push([k, k]);
+      }
+    }
+    return pairs;
+  }
+
+  const columns = added.length + 1;
+  const score = new Float64Array((removed.length + 1) * columns);
+  const similarity = new Float64Array(score.length).fill(-1);
+
+  for (let r = 1; r <= removed.length; r++) {
+    if (budget && !spendBudget(budget, 0)) return [];
+    for (let a = 1; a <= added.length; a++) {
+      const cell = r * columns + a;
+      score[cell] = Math.max(score[cell - columns], score[cell - 1]);
+      const pairSimilarity = computeSemanticSimilarity(removed[r - 1], added[a - 1], options);
+      if (pairSimilarity >= threshold) {
+        similarity[cell] = pairSimilarity;
+        score[cell] = Math.max(score[cell], score[cell - columns - 1] + pairSimilarity);
+      }
+    }
+  }
+
+  const pairs: TokenMatch[] = [];
+  let r = removed.length;
+  let a = added.length;
+  while (r > 0 && a > 0) {
+    const cell = r * columns + a;
+    if (similarity[cell] >= 0 && score[cell] === score[cell - columns - 1] + similarity[cell]) {
+      pairs.push([r - 1, a - 1]);
+      r--;
+      a--;
+    } else if (score[cell] === score[cell - columns]) {
+      r--;
+    } else {
+      a--;
+    }
+  }
+
+  return pairs.reverse();
+}
+
+/**
+ * Converts aligned token pairs into diff changes. Within each gap between
+ * matches, moved tokens become moved changes, similar removed and added
+ * tokens are paired up as modified changes (see `pairTokens`), and the rest
+ * become removed or added changes. The order of both texts is preserved.
+ */
+function buildChanges(
+  prepared: PreparedDiff,
+  matches: TokenMatch[],
+  moves: MoveAssignment,
+  [aStart, aEnd, bStart, bEnd]: TokenRange
+): DiffChange[] {
+  const { tokens1, tokens2, locate1, locate2, options } = prepared;
+  const lineNumbers = (options.granularity || 'line') === 'line';
+  const changes: DiffChange[] = [];
+  const moveIds: number[] = [];
+
+  // Blank lines and trailing whitespace that were only added or removed are reported as ignored unchanged tokens
+  const { ignorable1, ignorable2 } = prepared;
+
+  const emitGap = ([aLo, aHi, bLo, bHi]: TokenRange) => {
+    const removed: number[] = [];
+    const added: number[] = [];
+    for (let i = aLo; i < aHi; i++) {
+      if (!moves.source.has(i) && !ignorable1.has(i)) removed.push(i);
+    }
+    for (let j = bLo; j < bHi; j++) {
+      if (!moves.destination.has(j) && !ignorable2.has(j)) added.push(j);
+    }
+    // Once the budget is spent, gaps stay plain removed and added runs: pairing
+    // and the segments of each pair would cost more than the search that was cut short
+    const partners = new Map<number, number>();
+    const pairs = spendBudget(prepared.budget, 0)
+      ? pairTokens(removed.map(i => tokens1[i]), added.map(j => tokens2[j]), options, prepared.budget)
+      : [];
+    for (const [r, a] of pairs) {
+      partners.set(removed[r], added[a]);
+    }
+
+    // Emit removals up to the next pair, then additions up to its partner, then the pair itself
+    let i = aLo;
+    let j = bLo;
+    while (i < aHi || j < bHi) {
+      if (i < aHi && moves.source.has(i)) {
+        moveIds[changes.length] = moves.source.get(i)!;
+        changes.push({
+          type: 'moved',
+          original: tokens1[i],
+          originalLine: lineNumbers ? i + 1 : undefined,
+          originalRange: locate1(i),
+        });
+        i++;
+      } else if (i < aHi && !partners.has(i)) {
+        changes.push({
+          type: ignorable1.has(i) ? 'unchanged' : 'removed',
+          original: tokens1[i],
+          originalLine: lineNumbers ? i + 1 : undefined,
+          originalRange: locate1(i),
+          ...(ignorable1.has(i) && { ignored: true }),
+        });
+        i++;
+      } else if (j < bHi && (i === aHi || j < partners.get(i)!)) {
+        if (moves.destination.has(j)) {
+          moveIds[changes.length] = moves.destination.get(j)!;
+          changes.push({
+            type: 'moved',
+            modified: tokens2[j],
+            modifiedLine: lineNumbers ? j + 1 : undefined,
+            modifiedRange: locate2(j),
+          });
+        } else {
+          changes.push({
+            type: ignorable2.has(j) ? 'unchanged' : 'added',
+            modified: tokens2[j],
+            modifiedLine: lineNumbers ? j + 1 : undefined,
+            modifiedRange: locate2(j),
+            ...(ignorable2.has(j) && { ignored: true }),
+          });
+        }
+        j++;
+      } else {
+        changes.push({
+          ...createModifiedChange(
+            tokens1[i],
+            tokens2[j],
+            options,
+            lineNumbers ? i + 1 : undefined,
+            lineNumbers ? j + 1 : undefined,
+            prepared.blocks1 && MD_SEGMENT_PATTERNS[prepared.blocks1[i].type]
+          ),
+          originalRange: locate1(i),
+          modifiedRange: locate2(j),
+        });
+        i++;
+        j++;
+      }
+    }
+  };
+
+  let i = aStart;
+  let j = bStart;
+  for (const [matchI, matchJ] of matches) {
+    if (matchI > i || matchJ > j) {
+      emitGap([i, matchI, j, matchJ]);
+    }
+    changes.push({
+      type: 'unchanged',
+      original: tokens1[matchI],
+      modified: tokens2[matchJ],
+      originalLine: lineNumbers ? matchI + 1 : undefined,
+      modifiedLine: lineNumbers ? matchJ + 1 : undefined,
+      originalRange: locate1(matchI),
+      modifiedRange: locate2(matchJ),
+    });
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+  if (aEnd > i || bEnd > j) {
+    emitGap([i, aEnd, j, bEnd]);
+  }
+
+  linkMoves(changes, moveIds, moves, options);
+  return changes;
+}
+
+/**
+ * Attaches move metadata to both ends of every moved block
+ */
+function linkMoves(changes: DiffChange[], moveIds: number[], moves: MoveAssignment, options: DiffOptions): void {
+  const ends = moves.similarity.map(() => ({ source: -1, destination: -1 }));
+  moveIds.forEach((id, index) => {
+    const side = changes[index].original !== undefined ? 'source' : 'destination';
+    if (ends[id][side] === -1) {
+      ends[id][side] = index;
+    }
+  });
+
+  moveIds.forEach((id, index) => {
+    const change = changes[index];
+    const side = change.original !== undefined ? 'source' : 'destination';
+    const source = changes[ends[id].source];
+    const destination = changes[ends[id].destination];
+
+    change.move = {
+      id,
+      side,
+      sourceIndex: ends[id].source,
+      destinationIndex: ends[id].destination,
+      sourceLine: source.originalLine,
+      destinationLine: destination.modifiedLine,
+      similarity: moves.similarity[id],
+    };
+
+    if (options.semanticAnalysis) {
+      const similarityNote = moves.similarity[id] < 1
+        ? ` with ${Math.round(moves.similarity[id] * 100)}% similarity`
+        : '';
+      const where = side === 'source'
+        ? `Moved to ${destination.modifiedLine !== undefined ? `line ${destination.modifiedLine}` : 'a later or earlier position'}`
+        : `Moved from ${source.originalLine !== undefined ? `line ${source.originalLine}` : 'another position'}`;
+      change.explanation = change.explanation
+        ? `${where}${similarityNote}. ${change.explanation}`
+        : `${where}${similarityNote}`;
+    }
+  });
+}
+
+/**
+ * Counts changes by type. Moved tokens are counted once, at their source.
+ */
+function computeStats(changes: DiffChange[]): DiffResult['stats'] {
+  const stats = { added: 0, removed: 0, modified: 0, unchanged: 0, moved: 0 };
+  for (const change of changes) {
+    if (change.type !== 'moved') {
+      stats[change.type]++;
+    } else if (change.move?.side === 'source') {
+      stats.moved++;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Performs a diff operation between two texts
+ */
+export function diff(
+  original: string,
+  modified: string,
   options: DiffOptions = {}
 ): DiffResult {
+  if (options.granularity === 'json') {
+    return diffJson(original, modified, options);
+  }
+  if (options.granularity === 'csv') {
+    return diffCsv(original, modified, options);
+  }
+  if (options.granularity === 'hierarchical') {
+    return diffHierarchical(original, modified, options);
+  }
+
+  const prepared = prepareDiff(original, modified, options);
+  const changes = diffRange(prepared, [0, prepared.tokens1.length, 0, prepared.tokens2.length]);
+  const result: DiffResult = { changes, stats: computeStats(changes) };
+  if (prepared.budget.exhausted) {
+    result.approximate = true;
+    result.approximateReason = prepared.budget.exhausted;
+  }
+  return result;
+}
+
+/**
+ * Tokenized and interned input, shared by every range diffed from it
+ */
+interface PreparedDiff {
+  tokens1: string[];
+  tokens2: string[];
+  normalized1: string[];
+  normalized2: string[];
+  ids1: Int32Array;
+  ids2: Int32Array;
+  locate1: TokenLocator;
+  locate2: TokenLocator;
+  engine: (a: Int32Array, b: Int32Array, budget?: DiffBudget) => TokenMatch[];
+  budget: DiffBudget;
+  /** Blocks behind the tokens (markdown granularity) */
+  blocks1?: MarkdownBlock[];
+  blocks2?: MarkdownBlock[];
+  /** Lexed tokens behind the tokens (code granularity) */
+  lexemes1?: CodeToken[];
+  lexemes2?: CodeToken[];
+  /** Spans the masks matched in each text (masks option) */
+  masks1?: MaskedSpan[];
+  masks2?: MaskedSpan[];
+  /**
+   * Tokens aligned apart from content and never reported as removed or added:
+   * blank lines (blankLines) and trailing whitespace tokens (trailingWhitespace)
+   */
+  ignorable1: Set<number>;
+  ignorable2: Set<number>;
+  /** Options with `granularity` resolved */
+  options: DiffOptions;
+}
+
+/**
+ * Tokenizes, normalizes and interns both texts. Diffs made of several text
+ * diffs pass one budget to all of them.
+ */
+function prepareDiff(
+  original: string,
+  modified: string,
+  options: DiffOptions,
+  budget: DiffBudget = createBudget(options)
+): PreparedDiff {
+  options.signal?.throwIfAborted();
+
+  const {
+    granularity = 'line',
+    ignoreWhitespace = false,
+    ignoreCase = false,
+    normalizers = [],
+    algorithm = 'myers',
+  } = options;
+  if (granularity === 'json' || granularity === 'csv' || granularity === 'hierarchical') {
+    throw new Error('JSON documents, tables and change trees are compared with diffJson, diffCsv and diffHierarchical, not tokenized');
+  }
+
+  const opts = { granularity, ignoreWhitespace, ignoreCase, normalizers };
+
+  // Tokenize both texts; markdown blocks also carry their type and section, code tokens their kind
+  const blocks1 = granularity === 'markdown' ? parseMarkdownBlocks(original) : undefined;
+  const blocks2 = granularity === 'markdown' ? parseMarkdownBlocks(modified) : undefined;
+  const lexCodeInput = (text: string) => {
+    const lexemes = lexCode(text, options.language || 'javascript');
+    return options.ignoreComments ? mergeCommentRuns(lexemes) : lexemes;
+  };
+  const lexemes1 = granularity === 'code' ? lexCodeInput(original) : undefined;
+  const lexemes2 = granularity === 'code' ? lexCodeInput(modified) : undefined;
+  const tokens1 = blocks1?.map(block => block.text) ?? lexemes1?.map(token => token.text) ?? tokenize(original, granularity, normalizers, options.locale);
+  const tokens2 = blocks2?.map(block => block.text) ?? lexemes2?.map(token => token.text) ?? tokenize(modified, granularity, normalizers, options.locale);
+
+  const locate1 = createTokenLocator(original, tokens1, granularity);
+  const locate2 = createTokenLocator(modified, tokens2, granularity);
+
+  // Masks are matched against the whole text, so a match may span several tokens
+  const masks1 = options.masks?.length ? findMaskedSpans(original, options.masks) : undefined;
+  const masks2 = options.masks?.length ? findMaskedSpans(modified, options.masks) : undefined;
+  const masked1 = masks1 ? maskTokens(tokens1, locate1, masks1) : tokens1;
+  const masked2 = masks2 ? maskTokens(tokens2, locate2, masks2) : tokens2;
+
+  // Normalize tokens for comparison
+  const normalized1 = masked1.map((t, k) => normalize(lexemes1 ? comparableCodeToken({ ...lexemes1[k], text: t }, options) : t, opts));
+  const normalized2 = masked2.map((t, k) => normalize(lexemes2 ? comparableCodeToken({ ...lexemes2[k], text: t }, options) : t, opts));
+
+  const engine = DIFF_ENGINES[algorithm];
+  if (!engine) {
+    throw new Error(`Unknown diff algorithm: ${algorithm}`);
+  }
+
+  const { ids1, ids2 } = internTokens(normalized1, normalized2);
+
+  // Ignorable tokens get ids of their own so the engine aligns content only
+  const ignorable1 = findIgnorable(tokens1, granularity, normalizers);
+  const ignorable2 = findIgnorable(tokens2, granularity, normalizers);
+  if (ignorable1.size > 0 || ignorable2.size > 0) {
+    let nextId = Math.max(ids1.reduce((max, id) => Math.max(max, id), -1), ids2.reduce((max, id) => Math.max(max, id), -1)) + 1;
+    ignorable1.forEach(k => { ids1[k] = nextId++; });
+    ignorable2.forEach(k => { ids2[k] = nextId++; });
+  }
+
+  return {
+    tokens1,
+    tokens2,
+    normalized1,
+    normalized2,
+    ids1,
+    ids2,
+    locate1,
+    locate2,
+    engine,
+    budget,
+    blocks1,
+    blocks2,
+    lexemes1,
+    lexemes2,
+    masks1,
+    masks2,
+    ignorable1,
+    ignorable2,
+    options: { ...options, granularity },
+  };
+}
+
+/**
+ * Aligns one range of the prepared texts and converts it into changes.
+ * Moves are only looked for inside the range.
+ */
+function diffRange(prepared: PreparedDiff, range: TokenRange): DiffChange[] {
+  prepared.options.signal?.throwIfAborted();
+
+  const [aLo, aHi, bLo, bHi] = range;
+  const aligned = prepared.engine(prepared.ids1.subarray(aLo, aHi), prepared.ids2.subarray(bLo, bHi), prepared.budget)
+    .map(([i, j]): TokenMatch => [i + aLo, j + bLo]);
+  const matches = prepared.ignorable1.size > 0 || prepared.ignorable2.size > 0
+    ? matchIgnorable(prepared.ignorable1, prepared.ignorable2, aligned, range)
+    : aligned;
+
+  // Move detection is skipped once the budget is spent
+  const moves = prepared.options.detectMoves === false || prepared.budget.exhausted
+    ? { source: new Map<number, number>(), destination: new Map<number, number>(), similarity: [] }
+    : detectMoves(
+      prepared.tokens1,
+      prepared.tokens2,
+      prepared.normalized1,
+      prepared.normalized2,
+      computeGaps(matches, range),
+      prepared.options,
+      prepared.budget
+    );
+
+  const changes = buildChanges(prepared, matches, moves, range);
+
+  // Label markdown changes with their block, from the modified side when they have one
+  const { blocks1, blocks2 } = prepared;
+  if (blocks1 && blocks2) {
+    for (const change of changes) {
+      const block = change.modifiedRange
+        ? findAtOffset(blocks2, change.modifiedRange.start.offset)
+        : findAtOffset(blocks1, change.originalRange!.start.offset);
+      change.block = block.type;
+      change.headingPath = block.headingPath;
+    }
+  }
+
+  const { lexemes1, lexemes2 } = prepared;
+  if (lexemes1 && lexemes2) {
+    for (const change of changes) {
+      change.tokenKind = (change.modifiedRange
+        ? findAtOffset(lexemes2, change.modifiedRange.start.offset)
+        : findAtOffset(lexemes1, change.originalRange!.start.offset)).kind;
+    }
+  }
+
+  if (prepared.masks1 && prepared.masks2) {
+    markMaskedSpans(changes, prepared.masks1, prepared.masks2);
+  }
+  categorizeChanges(changes, prepared.options, prepared.budget);
+
+  return changes;
+}
+
+// ============================================================================
+// JSON Structural Diff
+// ============================================================================
+
+/**
+ * A parsed JSON value and where it sits in its source text
+ */
+interface JsonNode {
+  type: JsonValueType;
+  /** Offset of the value's first character */
+  start: number;
+  /** Offset just past the value's last character */
+  end: number;
+  /** Value of a string, boolean or null */
+  value?: string | boolean | null;
+  /** Source text of a number, kept as written so digits beyond double precision still count */
+  literal?: string;
+  /** Object members in source order; a repeated key keeps its last value */
+  members?: Map<string, JsonNode>;
+  /** Array elements */
+  items?: JsonNode[];
+  /** Comparison key, filled in by jsonCanonical */
+  canonical?: string;
+}
+
+const JSON_STRING = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON_IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * JSON documents are parsed and compared recursively, so deeper nesting is rejected
+ */
+export const JSON_MAX_DEPTH = 1000;
+
+/**
+ * Deepest nesting of objects and arrays in a JSON text, without parsing it
+ */
+export function jsonNestingDepth(text: string): number {
+  let depth = 0;
+  let maxDepth = 0;
+  let inString = false;
+  for (let k = 0; k < text.length; k++) {
+    const char = text[k];
+    if (inString) {
+      if (char === '\\') {
+        k++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      maxDepth = Math.max(maxDepth, ++depth);
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+  }
+  return maxDepth;
+}
+
+/**
+ * Parses a JSON document, keeping the offsets of every value. Errors name
+ * the side (`label`) and the line and column where parsing stopped.
+ * Nesting deeper than `JSON_MAX_DEPTH` is an error.
+ */
+function parseJson(text: string, label: string): JsonNode {
+  let pos = 0;
+
+  function fail(message: string): never {
+    const { line, column } = createPositionLocator(text)(pos);
+    throw new Error(`Invalid JSON in ${label} text at line ${line}, column ${column}: ${message}`);
+  }
+
+  function skipWhitespace(): void {
+    while (text[pos] === ' ' || text[pos] === '\t' || text[pos] === '\n' || text[pos] === '\r') {
+      pos++;
+    }
+  }
+
+  function readToken(pattern: RegExp, what: string): string {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (!match) {
+      fail(`invalid ${what}`);
+    }
+    pos += match[0].length;
+    return match[0];
+  }
+
+  function parseValue(depth: number): JsonNode {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if ((char === '{' || char === '[') && depth >= JSON_MAX_DEPTH) {
+      fail(`nested deeper than ${JSON_MAX_DEPTH} levels`);
+    }
+
+    if (char === '{') {
+      pos++;
+      const members = new Map<string, JsonNode>();
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+      } else {
+        for (;;) {
+          skipWhitespace();
+          if (text[pos] !== '"') {
+            fail('expected a property name');
+          }
+          const key: string = JSON.parse(readToken(JSON_STRING, 'string'));
+          skipWhitespace();
+          if (text[pos] !== ':') {
+            fail("expected ':'");
+          }
+          pos++;
+          members.set(key, parseValue(depth + 1));
+          skipWhitespace();
+          if (text[pos] === '}') {
+            pos++;
+            break;
+          }
+          if (text[pos] !== ',') {
+            fail("expected ',' or '}'");
+          }
+          pos++;
+        }
+      }
+      return { type: 'object', start, end: pos, members };
+    }
+
+    if (char === '[') {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+      } else {
+        for (;;) {
+          items.push(parseValue(depth + 1));
+          skipWhitespace();
+          if (text[pos] === ']') {
+            pos++;
+            break;
+          }
+          if (text[pos] !== ',') {
+            fail("expected ',' or ']'");
+          }
+          pos++;
+        }
+      }
+      return { type: 'array', start, end: pos, items };
+    }
+
+    if (char === '"') {
+      return { type: 'string', start, value: JSON.parse(readToken(JSON_STRING, 'string')), end: pos };
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      return { type: 'number', start, literal: readToken(JSON_NUMBER, 'number'), end: pos };
+    }
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return { type: value === null ? 'null' : 'boolean', start, value, end: pos };
+      }
+    }
+    return fail(char === undefined ? 'unexpected end of input' : `unexpected character '${char}'`);
+  }
+
+  const root = parseValue(0);
+  skipWhitespace();
+  if (pos < text.length) {
+    fail('unexpected text after the document');
+  }
+  return root;
+}
+
+/**
+ * Writes a JSON number literal in the shortest decimal form, formatted the
+ * way `String(number)` formats doubles, but from the literal's own digits:
+ * `1.50` and `15e-1` both give `1.5`, while `12345678901234567891` and
+ * `1e400` keep every digit and their exponent instead of being rounded.
+ */
+function canonicalJsonNumber(literal: string): string {
+  const [, sign, integer, fraction = '', exponent = '0'] = /^(-?)(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/.exec(literal)!;
+  const all = integer + fraction;
+  const significant = all.replace(/^0+/, '');
+  const digits = significant.replace(/0+$/, '');
+  if (digits.length === 0) {
+    return '0';
+  }
+
+  // The decimal point sits `point` digits after the first significant digit
+  const point = integer.length - (all.length - significant.length) + Number(exponent);
+  if (digits.length <= point && point <= 21) {
+    return sign + digits + '0'.repeat(point - digits.length);
+  }
+  if (point > 0 && point <= 21) {
+    return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+  if (point > -6 && point <= 0) {
+    return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  }
+  const mantissa = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+  return `${sign}${mantissa}e${point > 0 ? '+' : '-'}${Math.abs(point - 1)}`;
+}
+
+/**
+ * Serializes a node so that equal values give equal strings. String values
+ * are normalized like tokens; numbers are compared by their decimal value;
+ * keys are sorted unless key order matters.
+ */
+function jsonCanonical(node: JsonNode, options: DiffOptions): string {
+  if (node.canonical === undefined) {
+    if (node.members) {
+      const keys = [...node.members.keys()];
+      if (options.ignoreKeyOrder !== false) {
+        keys.sort();
+      }
+      node.canonical = `{${keys.map(key => `${JSON.stringify(key)}:${jsonCanonical(node.members!.get(key)!, options)}`).join(',')}}`;
+    } else if (node.items) {
+      node.canonical = `[${node.items.map(item => jsonCanonical(item, options)).join(',')}]`;
+    } else if (typeof node.value === 'string') {
+      node.canonical = JSON.stringify(normalize(node.value, options));
+    } else if (node.literal !== undefined) {
+      // Of the normalizations, only masks apply to numbers
+      const text = canonicalJsonNumber(node.literal);
+      node.canonical = options.masks?.length ? maskText(text, 0, findMaskedSpans(text, options.masks)) : text;
+    } else {
+      node.canonical = String(node.value);
+    }
+  }
+  return node.canonical;
+}
+
+/**
+ * Formats keys as a JSONPath, e.g. ['items', 3, 'unit price'] -> $.items[3]["unit price"]
+ */
+function formatJsonPath(keys: Array<string | number>): string {
+  let path = '$';
+  for (const key of keys) {
+    if (typeof key === 'number') {
+      path += `[${key}]`;
+    } else {
+      path += JSON_IDENTIFIER.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+    }
+  }
+  return path;
+}
+
+/**
+ * State shared while walking two JSON documents
+ */
+interface JsonDiffContext {
+  locate1: (offset: number) => TextPosition;
+  locate2: (offset: number) => TextPosition;
+  options: DiffOptions;
+  engine: (a: Int32Array, b: Int32Array, budget?: DiffBudget) => TokenMatch[];
+  budget: DiffBudget;
+  changes: DiffChange[];
+}
+
+/**
+ * Compact JSON text of a node. Members keep their source order and numbers
+ * their exact value (see `canonicalJsonNumber`).
+ */
+function jsonText(node: JsonNode): string {
+  if (node.members) {
+    return `{${[...node.members].map(([key, member]) => `${JSON.stringify(key)}:${jsonText(member)}`).join(',')}}`;
+  }
+  if (node.items) {
+    return `[${node.items.map(jsonText).join(',')}]`;
+  }
+  return node.literal !== undefined ? canonicalJsonNumber(node.literal) : JSON.stringify(node.value);
+}
+
+/**
+ * Builds the change for a value at `keys`. Removed values are addressed by
+ * their original position, everything else by its position in the modified
+ * document. `texts` replaces the values' JSON as the change's text.
+ */
+function createJsonChange(
+  ctx: JsonDiffContext,
+  type: 'added' | 'removed' | 'modified' | 'unchanged',
+  keys: Array<string | number>,
+  node1?: JsonNode,
+  node2?: JsonNode,
+  texts?: { original: string; modified: string }
+): DiffChange {
+  const original = texts?.original ?? (node1 && jsonText(node1));
+  const modified = texts?.modified ?? (node2 && jsonText(node2));
+  const change: DiffChange = type === 'modified'
+    ? createModifiedChange(original!, modified!, ctx.options)
+    : { type, original, modified };
+
+  if (node1) {
+    change.originalRange = { start: ctx.locate1(node1.start), end: ctx.locate1(node1.end) };
+    change.originalLine = change.originalRange.start.line;
+  }
+  if (node2) {
+    change.modifiedRange = { start: ctx.locate2(node2.start), end: ctx.locate2(node2.end) };
+    change.modifiedLine = change.modifiedRange.start.line;
+  }
+  change.path = formatJsonPath(keys);
+  change.pathKeys = keys;
+  change.valueTypes = { original: node1?.type, modified: node2?.type };
+  if (node1 && node2 && node1.type !== node2.type) {
+    change.explanation = `Type changed from ${node1.type} to ${node2.type}`;
+  }
+  return change;
+}
+
+/**
+ * Compares two values at the same path. Equal subtrees become a single
+ * unchanged change; objects and arrays are compared member by member, and
+ * anything else that differs is reported as modified.
+ */
+function diffJsonNodes(ctx: JsonDiffContext, node1: JsonNode, node2: JsonNode, keys: Array<string | number>): void {
+  if (jsonCanonical(node1, ctx.options) === jsonCanonical(node2, ctx.options)) {
+    ctx.changes.push(createJsonChange(ctx, 'unchanged', keys, node1, node2));
+  } else if (node1.members && node2.members) {
+    diffJsonObjects(ctx, node1, node2, keys);
+  } else if (node1.items && node2.items) {
+    diffJsonArrays(ctx, node1, node2, keys);
+  } else {
+    ctx.changes.push(createJsonChange(ctx, 'modified', keys, node1, node2));
+  }
+}
+
+function diffJsonObjects(ctx: JsonDiffContext, node1: JsonNode, node2: JsonNode, keys: Array<string | number>): void {
+  const members1 = node1.members!;
+  const members2 = node2.members!;
+
+  if (ctx.options.ignoreKeyOrder === false) {
+    const order1 = [...members1.keys()].filter(key => members2.has(key));
+    const order2 = [...members2.keys()].filter(key => members1.has(key));
+    if (order1.some((key, k) => key !== order2[k])) {
+      const change = createJsonChange(ctx, 'modified', keys, node1, node2, {
+        original: JSON.stringify(order1),
+        modified: JSON.stringify(order2),
+      });
+      change.explanation = 'Key order changed';
+      ctx.changes.push(change);
+    }
+  }
+
+  // Removed members are listed after the member that preceded them in the original
+  const removedAfter = new Map<string | null, string[]>();
+  let previous: string | null = null;
+  for (const key of members1.keys()) {
+    if (members2.has(key)) {
+      previous = key;
+    } else {
+      removedAfter.set(previous, [...(removedAfter.get(previous) || []), key]);
+    }
+  }
+  const emitRemoved = (after: string | null) => {
+    for (const key of removedAfter.get(after) || []) {
+      ctx.changes.push(createJsonChange(ctx, 'removed', [...keys, key], members1.get(key)));
+    }
+  };
+
+  emitRemoved(null);
+  for (const [key, member2] of members2) {
+    const member1 = members1.get(key);
+    if (member1) {
+      diffJsonNodes(ctx, member1, member2, [...keys, key]);
+      emitRemoved(key);
+    } else {
+      ctx.changes.push(createJsonChange(ctx, 'added', [...keys, key], undefined, member2));
+    }
+  }
+}
+
+/**
+ * Pairs the elements of two arrays. With `arrayKey`, elements carrying the
+ * key are paired by its value and nothing else. The rest are aligned by
+ * content with the selected algorithm; elements left between two aligned
+ * ones are paired by position.
+ */
+function pairJsonItems(ctx: JsonDiffContext, items1: JsonNode[], items2: JsonNode[]): TokenMatch[] {
+  const { arrayKey } = ctx.options;
+  const pairs: TokenMatch[] = [];
+  const identity = (node: JsonNode) => {
+    const id = arrayKey !== undefined ? node.members?.get(arrayKey) : undefined;
+    return id && jsonCanonical(id, ctx.options);
+  };
+
+  const ids1 = items1.map(identity);
+  const ids2 = items2.map(identity);
+  if (arrayKey !== undefined) {
+    // Identity -> index, or -1 when the identity repeats; repeated ones are never paired
+    const indexIds = (ids: Array<string | undefined>) => {
+      const index = new Map<string, number>();
+      ids.forEach((id, k) => {
+        if (id !== undefined) index.set(id, index.has(id) ? -1 : k);
+      });
+      return index;
+    };
+    const index1 = indexIds(ids1);
+    for (const [id, j] of indexIds(ids2)) {
+      const i = index1.get(id);
+      if (i !== undefined && i !== -1 && j !== -1) {
+        pairs.push([i, j]);
+      }
+    }
+  }
+
+  const rest1 = items1.map((_, i) => i).filter(i => ids1[i] === undefined);
+  const rest2 = items2.map((_, j) => j).filter(j => ids2[j] === undefined);
+  const interned = internTokens(
+    rest1.map(i => jsonCanonical(items1[i], ctx.options)),
+    rest2.map(j => jsonCanonical(items2[j], ctx.options))
+  );
+  const aligned: TokenMatch[] = [...ctx.engine(interned.ids1, interned.ids2, ctx.budget), [rest1.length, rest2.length]];
+
+  let lo1 = 0;
+  let lo2 = 0;
+  for (const [i, j] of aligned) {
+    for (let k = 0; k < Math.min(i - lo1, j - lo2); k++) {
+      pairs.push([rest1[lo1 + k], rest2[lo2 + k]]);
+    }
+    if (i < rest1.length) {
+      pairs.push([rest1[i], rest2[j]]);
+    }
+    lo1 = i + 1;
+    lo2 = j + 1;
+  }
+  return pairs;
+}
+
+function diffJsonArrays(ctx: JsonDiffContext, node1: JsonNode, node2: JsonNode, keys: Array<string | number>): void {
+  const items1 = node1.items!;
+  const items2 = node2.items!;
+  const partners = new Int32Array(items2.length).fill(-1);
+  const paired = new Uint8Array(items1.length);
+  for (const [i, j] of pairJsonItems(ctx, items1, items2)) {
+    partners[j] = i;
+    paired[i] = 1;
+  }
+
+  // Unpaired original elements are listed before the element paired with a later one
+  let next = 0;
+  const emitRemoved = (limit: number) => {
+    for (; next < limit; next++) {
+      if (!paired[next]) {
+        ctx.changes.push(createJsonChange(ctx, 'removed', [...keys, next], items1[next]));
+      }
+    }
+  };
+
+  items2.forEach((item2, j) => {
+    const i = partners[j];
+    if (i === -1) {
+      ctx.changes.push(createJsonChange(ctx, 'added', [...keys, j], undefined, item2));
+    } else {
+      emitRemoved(i);
+      diffJsonNodes(ctx, items1[i], item2, [...keys, j]);
+    }
+  });
+  emitRemoved(items1.length);
+}
+
+/**
+ * Compares two JSON documents value by value (json granularity). Each change
+ * carries the JSONPath of its value, so reformatting never shows up and
+ * reordered keys only do when `ignoreKeyOrder` is false.
+ */
+function diffJson(original: string, modified: string, options: DiffOptions): DiffResult {
+  options.signal?.throwIfAborted();
+
+  const { algorithm = 'myers' } = options;
+  const engine = DIFF_ENGINES[algorithm];
+  if (!engine) {
+    throw new Error(`Unknown diff algorithm: ${algorithm}`);
+  }
+
+  const ctx: JsonDiffContext = {
+    locate1: createPositionLocator(original),
+    locate2: createPositionLocator(modified),
+    options,
+    engine,
+    budget: createBudget(options),
+    changes: [],
+  };
+  diffJsonNodes(ctx, parseJson(original, 'original'), parseJson(modified, 'modified'), []);
+  if (options.masks?.length) {
+    markMaskedSpans(ctx.changes, findMaskedSpans(original, options.masks), findMaskedSpans(modified, options.masks));
+  }
+  categorizeChanges(ctx.changes, options);
+
+  const result: DiffResult = { changes: ctx.changes, stats: computeStats(ctx.changes) };
+  if (ctx.budget.exhausted) {
+    result.approximate = true;
+    result.approximateReason = ctx.budget.exhausted;
+  }
+  return result;
+}
+
+// ============================================================================
+// CSV Diff
+// ============================================================================
+
+/**
+ * A record of a CSV table with its position in the text
+ */
+export interface CsvRecord {
+  fields: string[];
+  /** Offset of the record's first character */
+  start: number;
+  /** Offset just past its last field, before the line break */
+  end: number;
+}
+
+/**
+ * A parsed CSV or TSV document; the first record is the header
+ */
+export interface CsvTable {
+  delimiter: string;
+  header: string[];
+  rows: CsvRecord[];
+}
+
+const CSV_DELIMITERS = [',', '\t', ';', '|'];
+
+/**
+ * Picks the delimiter that occurs most often in the first line, outside
+ * quotes. Ties and lines without any go to the comma.
+ */
+function detectCsvDelimiter(text: string): string {
+  const counts = new Map<string, number>();
+  let quoted = false;
+  for (let k = 0; k < text.length && (quoted || (text[k] !== '\n' && text[k] !== '\r')); k++) {
+    if (text[k] === '"') {
+      quoted = !quoted;
+    } else if (!quoted && CSV_DELIMITERS.includes(text[k])) {
+      counts.set(text[k], (counts.get(text[k]) || 0) + 1);
+    }
+  }
+  let best = ',';
+  for (const delimiter of CSV_DELIMITERS) {
+    if ((counts.get(delimiter) || 0) > (counts.get(best) || 0)) {
+      best = delimiter;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parses CSV as described by RFC 4180: fields may be quoted, a doubled quote
+ * inside quotes stands for one, and quoted fields may span lines. Lines end
+ * with LF, CRLF or CR; blank lines are skipped. Rows longer than the header
+ * get columns named by position (`#4`). Throws on an unterminated quote.
+ */
+export function parseCsv(text: string, delimiter: string = detectCsvDelimiter(text)): CsvTable {
+  const records: CsvRecord[] = [];
+  const isBreak = (k: number) => text[k] === '\n' || text[k] === '\r';
+  let pos = 0;
+
+  while (pos < text.length) {
+    const start = pos;
+    const fields: string[] = [];
+    for (;;) {
+      let field = '';
+      if (text[pos] === '"') {
+        const opening = pos;
+        pos++;
+        for (;;) {
+          const closing = text.indexOf('"', pos);
+          if (closing === -1) {
+            const { line } = createPositionLocator(text)(opening);
+            throw new Error(`Unterminated quoted field starting at line ${line}`);
+          }
+          field += text.slice(pos, closing);
+          pos = closing + 1;
+          if (text[pos] !== '"') break;
+          field += '"';
+          pos++;
+        }
+      }
+      // Unquoted text, or text after a closing quote, is taken as written
+      const from = pos;
+      while (pos < text.length && text[pos] !== delimiter && !isBreak(pos)) pos++;
+      fields.push(field + text.slice(from, pos));
+      if (text[pos] !== delimiter) break;
+      pos++;
+    }
+
+    const end = pos;
+    if (text[pos] === '\r') pos++;
+    if (text[pos] === '\n') pos++;
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ fields, start, end });
+    }
+  }
+
+  const header = records.length > 0 ? records[0].fields.slice() : [];
+  const width = records.reduce((widest, record) => Math.max(widest, record.fields.length), 0);
+  for (let k = header.length; k < width; k++) {
+    header.push(`#${k + 1}`);
+  }
+  return { delimiter, header, rows: records.slice(1) };
+}
+
+/**
+ * A column of the merged header with its index in each table
+ */
+interface CsvColumn extends TableColumn {
+  index1?: number;
+  index2?: number;
+}
+
+/**
+ * Matches the columns of two headers by name; the nth column with a name
+ * matches the nth one on the other side. Removed columns are listed after
+ * the column that preceded them in the original.
+ */
+function mergeCsvColumns(header1: string[], header2: string[], keyColumns: string[]): CsvColumn[] {
+  const columnIds = (header: string[]) => {
+    const seen = new Map<string, number>();
+    return header.map(name => {
+      const repeat = seen.get(name) || 0;
+      seen.set(name, repeat + 1);
+      return `${name}\u0000${repeat}`;
+    });
+  };
+  const ids1 = columnIds(header1);
+  const ids2 = columnIds(header2);
+  const index1 = new Map(ids1.map((id, k) => [id, k]));
+  const index2 = new Map(ids2.map((id, k) => [id, k]));
+
+  const removedAfter = new Map<string | null, number[]>();
+  let previous: string | null = null;
+  ids1.forEach((id, k) => {
+    if (index2.has(id)) {
+      previous = id;
+    } else {
+      removedAfter.set(previous, [...(removedAfter.get(previous) || []), k]);
+    }
+  });
+
+  const columns: CsvColumn[] = [];
+  const emitRemoved = (after: string | null) => {
+    for (const k of removedAfter.get(after) || []) {
+      columns.push({ name: header1[k], type: 'removed', index1: k });
+    }
+  };
+  emitRemoved(null);
+  ids2.forEach((id, k) => {
+    const i = index1.get(id);
+    columns.push({ name: header2[k], type: i === undefined ? 'added' : 'unchanged', index1: i, index2: k });
+    if (i !== undefined) {
+      emitRemoved(id);
+    }
+  });
+
+  for (const column of columns) {
+    if (keyColumns.includes(column.name)) {
+      column.key = true;
+    }
+  }
+  return columns;
+}
+
+/**
+ * Pairs the rows of two tables. With key columns, rows whose key occurs once
+ * in each table are paired by it and rows whose key only one table has stay
+ * unpaired. The rest (every row, without key columns) are aligned by their
+ * shared cells with the selected algorithm, and the rows left between two
+ * aligned ones are paired by similarity.
+ */
+function pairCsvRows(
+  table1: CsvTable,
+  table2: CsvTable,
+  columns: CsvColumn[],
+  options: DiffOptions,
+  engine: (a: Int32Array, b: Int32Array, budget?: DiffBudget) => TokenMatch[],
+  budget: DiffBudget
+): TokenMatch[] {
+  const pairs: TokenMatch[] = [];
+  const shared = columns.filter(column => column.type === 'unchanged');
+  const cellsOf = (record: CsvRecord, side: 'index1' | 'index2', among: CsvColumn[]) =>
+    among.map(column => normalize(record.fields[column[side]!] ?? '', options));
+
+  const rest1: number[] = [];
+  const rest2: number[] = [];
+  const keys = shared.filter(column => column.key);
+  if (keys.length > 0) {
+    // Key -> row index, or -1 when the key repeats
+    const indexKeys = (rows: CsvRecord[], side: 'index1' | 'index2') => {
+      const index = new Map<string, number>();
+      rows.forEach((record, k) => {
+        const key = cellsOf(record, side, keys).join('\u0000');
+        index.set(key, index.has(key) ? -1 : k);
+      });
+      return index;
+    };
+    const index1 = indexKeys(table1.rows, 'index1');
+    const index2 = indexKeys(table2.rows, 'index2');
+    const repeated1 = new Set<number>();
+    const repeated2 = new Set<number>();
+    for (const [key, i] of index1) {
+      const j = index2.get(key);
+      if (i !== -1 && j !== undefined && j !== -1) {
+        pairs.push([i, j]);
+      }
+    }
+    table1.rows.forEach((record, i) => {
+      const key = cellsOf(record, 'index1', keys).join('\u0000');
+      if (index1.get(key) === -1 || index2.get(key) === -1) repeated1.add(i);
+    });
+    table2.rows.forEach((record, j) => {
+      const key = cellsOf(record, 'index2', keys).join('\u0000');
+      if (index2.get(key) === -1 || index1.get(key) === -1) repeated2.add(j);
+    });
+    rest1.push(...repeated1);
+    rest2.push(...repeated2);
+  } else {
+    rest1.push(...table1.rows.keys());
+    rest2.push(...table2.rows.keys());
+  }
+
+  const cells1 = rest1.map(i => cellsOf(table1.rows[i], 'index1', shared));
+  const cells2 = rest2.map(j => cellsOf(table2.rows[j], 'index2', shared));
+  const interned = internTokens(
+    cells1.map(cells => JSON.stringify(cells)),
+    cells2.map(cells => JSON.stringify(cells))
+  );
+  const aligned: TokenMatch[] = [...engine(interned.ids1, interned.ids2, budget), [rest1.length, rest2.length]];
+
+  let lo1 = 0;
+  let lo2 = 0;
+  for (const [i, j] of aligned) {
+    const gap1 = cells1.slice(lo1, i).map(cells => cells.join(' '));
+    const gap2 = cells2.slice(lo2, j).map(cells => cells.join(' '));
+    for (const [r, a] of pairTokens(gap1, gap2, options, budget)) {
+      pairs.push([rest1[lo1 + r], rest2[lo2 + a]]);
+    }
+    if (i < rest1.length) {
+      pairs.push([rest1[i], rest2[j]]);
+    }
+    lo1 = i + 1;
+    lo2 = j + 1;
+  }
+  return pairs;
+}
+
+/**
+ * Compares two CSV or TSV tables (csv granularity). Columns are matched by
+ * header and rows by `keyColumns` or by content, so reordered rows and
+ * inserted columns do not show up as changed rows. Each row change lists its
+ * cells; a row is modified when a cell of a column both tables have differs.
+ */
+function diffCsv(original: string, modified: string, options: DiffOptions): DiffResult {
+  options.signal?.throwIfAborted();
+
+  const { algorithm = 'myers', keyColumns = [] } = options;
+  const engine = DIFF_ENGINES[algorithm];
+  if (!engine) {
+    throw new Error(`Unknown diff algorithm: ${algorithm}`);
+  }
+
+  const table1 = parseCsv(original, options.delimiter);
+  const table2 = parseCsv(modified, options.delimiter);
+  for (const key of keyColumns) {
+    for (const [label, table] of [['original', table1], ['modified', table2]] as const) {
+      if (!table.header.includes(key)) {
+        throw new Error(`Key column "${key}" is not in the ${label} header`);
+      }
+    }
+  }
+
+  const columns = mergeCsvColumns(table1.header, table2.header, keyColumns);
+  const budget = createBudget(options);
+  const partners = new Int32Array(table2.rows.length).fill(-1);
+  const paired = new Uint8Array(table1.rows.length);
+  for (const [i, j] of pairCsvRows(table1, table2, columns, options, engine, budget)) {
+    partners[j] = i;
+    paired[i] = 1;
+  }
+
+  const locate1 = createPositionLocator(original);
+  const locate2 = createPositionLocator(modified);
+  const keyIndexes = keyColumns.map(key => columns.find(column => column.name === key)!);
+
+  const createRowChange = (record1?: CsvRecord, record2?: CsvRecord): DiffChange => {
+    const cells: TableCell[] = [];
+    for (const column of columns) {
+      const value1 = record1 && column.index1 !== undefined ? record1.fields[column.index1] ?? '' : undefined;
+      const value2 = record2 && column.index2 !== undefined ? record2.fields[column.index2] ?? '' : undefined;
+      if (value1 === undefined && value2 === undefined) continue;
+
+      let type: TableCell['type'];
+      if (value1 === undefined) {
+        type = 'added';
+      } else if (value2 === undefined) {
+        type = 'removed';
+      } else {
+        type = normalize(value1, options) === normalize(value2, options) ? 'unchanged' : 'modified';
+      }
+      cells.push({ column: column.name, type, original: value1, modified: value2 });
+    }
+
+    const changed = cells.filter(cell => cell.type === 'modified').map(cell => cell.column);
+    const change: DiffChange = {
+      type: !record1 ? 'added' : !record2 ? 'removed' : changed.length > 0 ? 'modified' : 'unchanged',
+      original: record1 && original.slice(record1.start, record1.end),
+      modified: record2 && modified.slice(record2.start, record2.end),
+    };
+    if (record1) {
+      change.originalRange = { start: locate1(record1.start), end: locate1(record1.end) };
+      change.originalLine = change.originalRange.start.line;
+    }
+    if (record2) {
+      change.modifiedRange = { start: locate2(record2.start), end: locate2(record2.end) };
+      change.modifiedLine = change.modifiedRange.start.line;
+    }
+    if (keyIndexes.length > 0) {
+      const [record, side] = record2 ? [record2, 'index2' as const] : [record1!, 'index1' as const];
+      change.rowKey = keyIndexes.map(column => record.fields[column[side]!] ?? '');
+    }
+    change.cells = cells;
+    if (changed.length > 0) {
+      change.explanation = `Changed ${changed.join(', ')}`;
+    }
+    return change;
+  };
+
+  // Unpaired original rows are listed before the row paired with a later one
+  const changes: DiffChange[] = [];
+  let next = 0;
+  const emitRemoved = (limit: number) => {
+    for (; next < limit; next++) {
+      if (!paired[next]) {
+        changes.push(createRowChange(table1.rows[next]));
+      }
+    }
+  };
+  table2.rows.forEach((record2, j) => {
+    const i = partners[j];
+    if (i === -1) {
+      changes.push(createRowChange(undefined, record2));
+    } else {
+      emitRemoved(i);
+      changes.push(createRowChange(table1.rows[i], record2));
+    }
+  });
+  emitRemoved(table1.rows.length);
+  if (options.masks?.length) {
+    markMaskedSpans(changes, findMaskedSpans(original, options.masks), findMaskedSpans(modified, options.masks));
+  }
+  categorizeChanges(changes, options);
+
+  const result: DiffResult = {
+    changes,
+    stats: computeStats(changes),
+    columns: columns.map(({ index1, index2, ...column }) => column),
+  };
+  if (budget.exhausted) {
+    result.approximate = true;
+    result.approximateReason = budget.exhausted;
+  }
+  return result;
+}
+
+// ============================================================================
+// Hierarchical Diff
+// ============================================================================
+
+const DIFF_LEVELS: DiffLevel[] = ['paragraph', 'sentence', 'word'];
+
+/**
+ * Moves a range found in a piece of text to where that piece starts
+ */
+function shiftRange(range: TextRange, base: TextPosition): TextRange {
+  const shift = (position: TextPosition): TextPosition => ({
+    offset: position.offset + base.offset,
+    line: position.line + base.line - 1,
+    column: position.line === 1 ? position.column + base.column - 1 : position.column,
+  });
+  return { start: shift(range.start), end: shift(range.end) };
+}
+
+/**
+ * Diffs paragraphs, then the sentences of each modified paragraph, then the
+ * words of each modified sentence. Every level is a full diff of its own,
+ * with move detection and the other options; move ids are unique across the
+ * tree. All levels share one budget: once it runs out, modified changes are
+ * no longer broken down and the result is approximate.
+ */
+function diffHierarchical(original: string, modified: string, options: DiffOptions): DiffResult {
+  const levelStats = Object.fromEntries(
+    DIFF_LEVELS.map(level => [level, { added: 0, removed: 0, modified: 0, unchanged: 0, moved: 0 }])
+  ) as Record<DiffLevel, DiffResult['stats']>;
+  const budget = createBudget(options);
+  let moveIdBase = 0;
+
+  const diffLevel = (text1: string, text2: string, depth: number, base1?: TextPosition, base2?: TextPosition): DiffResult => {
+    const level = DIFF_LEVELS[depth];
+    const prepared = prepareDiff(text1, text2, { ...options, granularity: level }, budget);
+    const changes = diffRange(prepared, [0, prepared.tokens1.length, 0, prepared.tokens2.length]);
+    const result: DiffResult = { changes, stats: computeStats(changes) };
+
+    let moveCount = 0;
+    for (const change of result.changes) {
+      change.level = level;
+      if (base1 && change.originalRange) change.originalRange = shiftRange(change.originalRange, base1);
+      if (base2 && change.modifiedRange) change.modifiedRange = shiftRange(change.modifiedRange, base2);
+      if (change.move) {
+        moveCount = Math.max(moveCount, change.move.id + 1);
+        change.move = { ...change.move, id: change.move.id + moveIdBase };
+      }
+    }
+    moveIdBase += moveCount;
+
+    const stats = levelStats[level];
+    for (const [type, count] of Object.entries(result.stats) as Array<[keyof DiffResult['stats'], number]>) {
+      stats[type] += count;
+    }
+
+    if (depth + 1 < DIFF_LEVELS.length) {
+      for (const change of result.changes) {
+        if (change.type === 'modified' && spendBudget(budget, 0)) {
+          const children = diffLevel(
+            change.original!,
+            change.modified!,
+            depth + 1,
+            change.originalRange!.start,
+            change.modifiedRange!.start
+          );
+          change.children = children.changes;
+          change.childStats = children.stats;
+        }
+      }
+    }
+    return result;
+  };
+
+  const result = diffLevel(original, modified, 0);
+  result.levelStats = levelStats;
+  if (budget.exhausted) {
+    result.approximate = true;
+    result.approximateReason = budget.exhausted;
+  }
+  return result;
+}
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+/**
+ * Vectors kept per provider; the oldest are dropped past this many
+ */
+const EMBEDDING_CACHE_SIZE = 10_000;
+
+const embeddingCaches = new WeakMap<EmbeddingProvider, Map<string, number[]>>();
+
+/**
+ * Embeds texts with a provider, in batches of its `batchSize`, reusing
+ * vectors it already returned for the same text. Throws when the provider
+ * fails or returns the wrong number of vectors.
+ */
+export async function embedTexts(
+  provider: EmbeddingProvider,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Map<string, number[]>> {
+  let cache = embeddingCaches.get(provider);
+  if (!cache) {
+    cache = new Map();
+    embeddingCaches.set(provider, cache);
+  }
+
+  const vectors = new Map<string, number[]>();
+  const missing: string[] = [];
+  for (const text of new Set(texts)) {
+    const cached = cache.get(text);
+    if (cached) {
+      vectors.set(text, cached);
+    } else {
+      missing.push(text);
+    }
+  }
+
+  const batchSize = Math.max(1, provider.batchSize ?? 64);
+  for (let start = 0; start < missing.length; start += batchSize) {
+    signal?.throwIfAborted();
+    const batch = missing.slice(start, start + batchSize);
+    const embedded = await provider.embed(batch, signal);
+    if (!Array.isArray(embedded) || embedded.length !== batch.length) {
+      throw new Error(`Embedding provider "${provider.name}" returned ${embedded?.length ?? 0} vectors for ${batch.length} texts`);
+    }
+    batch.forEach((text, k) => {
+      vectors.set(text, embedded[k]);
+      cache.set(text, embedded[k]);
+    });
+  }
+
+  for (const text of cache.keys()) {
+    if (cache.size <= EMBEDDING_CACHE_SIZE) break;
+    cache.delete(text);
+  }
+  return vectors;
+}
+
+/**
+ * Texts whose similarity a diff may score: both sides of every change that
+ * is not unchanged, trimmed, down through hierarchical children
+ */
+function similarityTexts(changes: DiffChange[], texts = new Set<string>()): Set<string> {
+  for (const change of changes) {
+    if (change.type !== 'unchanged') {
+      for (const text of [change.original, change.modified]) {
+        if (text?.trim()) texts.add(text.trim());
+      }
+    }
+    if (change.children) similarityTexts(change.children, texts);
+  }
+  return texts;
+}
+
+/**
+ * Diffs with similarity from embeddings: a first, lexical pass finds the
+ * changed texts, the provider embeds them, and a second pass scores pairs
+ * by the cosine of their vectors. If the provider fails the lexical result
+ * is returned with `embeddingError` set. `run` computes each pass, e.g. on
+ * a worker pool; it defaults to diff.
+ */
+export async function diffWithEmbeddings(
+  original: string,
+  modified: string,
+  provider: EmbeddingProvider,
+  options: DiffOptions = {},
+  run: (original: string, modified: string, options: DiffOptions) => DiffResult | Promise<DiffResult> = diff
+): Promise<DiffResult> {
+  const lexical = await run(original, modified, options);
+  const texts = similarityTexts(lexical.changes);
+  if (texts.size === 0) return lexical;
+
+  let embeddingVectors: Record<string, number[]>;
+  try {
+    embeddingVectors = Object.fromEntries(await embedTexts(provider, [...texts], options.signal));
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    return { ...lexical, embeddingError: error instanceof Error ? error.message : String(error) };
+  }
+  return run(original, modified, { ...options, embeddingVectors });
+}
+
+/**
+ * Deterministic provider for tests and offline use: hashes words and
+ * character trigrams into a fixed-size vector. It only sees shared
+ * spelling, not meaning.
+ */
+export function createHashingEmbeddingProvider(dimensions = 256): EmbeddingProvider {
+  const hash = (feature: string) => {
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      h = Math.imul(h ^ feature.charCodeAt(i), 0x01000193);
+    }
+    return h >>> 0;
+  };
+
+  const embedOne = (text: string) => {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const word of scorerWords(text)) {
+      for (const feature of [word, ...shingles(` ${word} `, 3).map(gram => `#${gram}`)]) {
+        const h = hash(feature);
+        vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+      }
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  };
+
+  return {
+    name: `hashing-${dimensions}`,
+    batchSize: 1024,
+    embed: async texts => texts.map(embedOne),
+  };
+}
+
+/**
+ * Settings for an OpenAI-compatible embeddings server
+ */
+export interface OpenAIEmbeddingProviderOptions {
+  /** Server root; `/v1/embeddings` is appended (default: 'http://localhost:8080') */
+  baseUrl?: string;
+  /** Model name sent with each request */
+  model: string;
+  /** Sent as a bearer token when set */
+  apiKey?: string;
+  /** Most texts per request (default: 64) */
+  batchSize?: number;
+  /** Milliseconds before a request is abandoned (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Provider for a locally hosted OpenAI-compatible `/v1/embeddings`
+ * endpoint, such as llama.cpp, Ollama, vLLM or LocalAI
+ */
+export function createOpenAIEmbeddingProvider(options: OpenAIEmbeddingProviderOptions): EmbeddingProvider {
+  const url = `${(options.baseUrl ?? 'http://localhost:8080').replace(/\/+$/, '')}/v1/embeddings`;
+  const timeoutMs = options.timeoutMs ?? 10000;
+
+  return {
+    name: `openai:${options.model}`,
+    batchSize: options.batchSize ?? 64,
+    async embed(texts, signal) {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: options.model, input: texts }),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+      if (!response.ok) {
+        throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const body = await response.json() as { data?: Array<{ index?: number; embedding?: unknown }> };
+      if (!Array.isArray(body.data)) {
+        throw new Error('Embedding response has no "data" array');
+      }
+      return [...body.data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => {
+          if (!Array.isArray(item.embedding) || item.embedding.some(value => typeof value !== 'number')) {
+            throw new Error('Embedding response holds a vector that is not an array of numbers');
+          }
+          return item.embedding as number[];
+        });
+    },
+  };
+}
+
+// ============================================================================
+// Advanced Diff Utilities
+// ============================================================================
+
+/**
+ * Finds the next change index from a given position
+ */
+export function findNextChange(changes: DiffChange[], currentIndex: number): number {
+  for (let i = currentIndex + 1; i < changes.length; i++) {
+    if (changes[i].type !== 'unchanged') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Finds the previous change index from a given position
+ */
+export function findPreviousChange(changes: DiffChange[], currentIndex: number): number {
+  for (let i = currentIndex - 1; i >= 0; i--) {
+    if (changes[i].type !== 'unchanged') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Gets all change indices
+ */
+export function getAllChangeIndices(changes: DiffChange[]): number[] {
+  return changes
+    .map((change, index) => (change.type !== 'unchanged' ? index : -1))
+    .filter(index => index !== -1);
+}
+
+/**
+ * Computes diff statistics with additional insights
+ */
+export function computeDiffInsights(result: DiffResult): {
+  totalChanges: number;
+  changePercentage: number;
+  similarity: number;
+  largestChange: DiffChange | null;
+  changeDistribution: Record<string, number>;
+} {
+  const { changes, stats } = result;
+  const totalChanges = stats.added + stats.removed + stats.modified + stats.moved;
+  const totalLines = changes.length;
+  const changePercentage = totalLines > 0 ? (totalChanges / totalLines) * 100 : 0;
+  const similarity = totalLines > 0 ? (stats.unchanged / totalLines) * 100 : 100;
+
+  let largestChange: DiffChange | null = null;
+  let maxLength = 0;
+
+  changes.forEach(change => {
+    if (change.type !== 'unchanged') {
+      const length = Math.max(
+        (change.original || '').length,
+        (change.modified || '').length
+      );
+      if (length > maxLength) {
+        maxLength = length;
+        largestChange = change;
+      }
+    }
+  });
+
+  return {
+    totalChanges,
+    changePercentage: Math.round(changePercentage * 100) / 100,
+    similarity: Math.round(similarity * 100) / 100,
+    largestChange,
+    changeDistribution: {
+      added: stats.added,
+      removed: stats.removed,
+      modified: stats.modified,
+      unchanged: stats.unchanged,
+      moved: stats.moved,
+    },
+  };
+}
+
+/**
+ * Generates a merged version by accepting/rejecting changes
+ */
+export function generateMergedText(
+  changes: DiffChange[],
+  decisions: Map<number, 'accept' | 'reject' | 'keep'>
+): string {
+  const lines: string[] = [];
+
+  changes.forEach((change, index) => {
+    const decision = decisions.get(index) || 'keep';
+
+    switch (change.type) {
+      case 'added':
+        if (decision === 'accept' || decision === 'keep') {
+          lines.push(change.modified || '');
+        }
+        break;
+      case 'removed':
+        if (decision === 'reject' || decision === 'keep') {
+          lines.push(change.original || '');
+        }
+        break;
+      case 'modified':
+        if (decision === 'accept') {
+          lines.push(change.modified || '');
+        } else if (decision === 'reject') {
+          lines.push(change.original || '');
+        } else {
+          // Keep both or use modified as default
+          lines.push(change.modified || '');
+        }
+        break;
+      case 'moved':
+        // The source end behaves like a removal, the destination like an addition
+        if (change.original !== undefined ? decision === 'reject' : decision !== 'reject') {
+          lines.push(change.original ?? change.modified ?? '');
+        }
+        break;
+      case 'unchanged':
+        // An ignored blank line follows the decision like the removal or addition it would be
+        if (!change.ignored || (change.original !== undefined ? decision !== 'accept' : decision !== 'reject')) {
+          lines.push(change.original ?? change.modified ?? '');
+        }
+        break;
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Computes character-level diff for highlighting
+ */
+export function computeCharacterDiff(original: string, modified: string): {
+  original: Array<{ char: string; type: 'removed' | 'unchanged' }>;
+  modified: Array<{ char: string; type: 'added' | 'unchanged' }>;
+} {
+  const origResult: Array<{ char: string; type: 'removed' | 'unchanged' }> = [];
+  const modResult: Array<{ char: string; type: 'added' | 'unchanged' }> = [];
+
+  for (const segment of computeSegments(original, modified).characters) {
+    for (const char of Array.from(segment.text)) {
+      if (segment.type === 'equal') {
+        origResult.push({ char, type: 'unchanged' });
+        modResult.push({ char, type: 'unchanged' });
+      } else if (segment.type === 'removed') {
+        origResult.push({ char, type: 'removed' });
+      } else {
+        modResult.push({ char, type: 'added' });
+      }
+    }
+  }
+
+  return { original: origResult, modified: modResult };
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+import chalk from 'chalk';
+
+/**
+ * Formats diff results for console output
+ */
+export function formatDiff(result: DiffResult, options: { color?: boolean } = {}): string {
+  const { color = true } = options;
+  const output: string[] = [];
+
+  if (!color) {
+    // Plain text output
+    for (const { change, depth } of walkChanges(result.changes)) {
+      const lineCount = output.length;
+      switch (change.type) {
+        case 'added':
+          output.push(`+ ${labelPath(change)}${change.modified}`);
+          break;
+        case 'removed':
+          output.push(`- ${labelPath(change)}${change.original}`);
+          break;
+        case 'modified':
+          output.push(change.cells
+            ? `~ ${labelPath(change)}${describeCells(change, false)}`
+            : `~ ${labelPath(change)}${change.original} -> ${change.modified}${describeTypeChange(change)}`);
+          break;
+        case 'moved':
+          output.push(`${change.original !== undefined ? '<' : '>'} ${change.original ?? change.modified} ${describeMove(change)}`);
+          break;
+        case 'unchanged':
+          output.push(`  ${labelPath(change)}${change.original ?? change.modified}`);
+          break;
+      }
+      indentLines(output, lineCount, depth);
+    }
+  } else {
+    // Colored output
+    for (const { change, depth } of walkChanges(result.changes)) {
+      const lineCount = output.length;
+      const linePrefix = change.originalLine !== undefined || change.modifiedLine !== undefined
+        ? `${String(change.originalLine ?? ' ').padStart(4)} ${String(change.modifiedLine ?? ' ').padStart(4)} `
+        : '';
+
+      switch (change.type) {
+        case 'added':
+          output.push(
+            `${linePrefix}${chalk.green('+')} ${chalk.green(labelPath(change) + (change.modified ?? ''))}`
+          );
+          break;
+        case 'removed':
+          output.push(
+            `${linePrefix}${chalk.red('-')} ${chalk.red(labelPath(change) + (change.original ?? ''))}`
+          );
+          break;
+        case 'modified':
+          output.push(change.cells
+            ? `${linePrefix}${chalk.yellow('~')} ${chalk.yellow(labelPath(change))}${describeCells(change, true)}`
+            : `${linePrefix}${chalk.yellow('~')} ${chalk.yellow(labelPath(change))}${highlightSegments(change, 'removed')} ${chalk.gray('->')} ${highlightSegments(change, 'added')}${chalk.gray(describeTypeChange(change))}`
+          );
+          break;
+        case 'moved':
+          output.push(
+            `${linePrefix}${chalk.cyan(change.original !== undefined ? '<' : '>')} ${chalk.cyan(change.original ?? change.modified ?? '')} ${chalk.gray(describeMove(change))}`
+          );
+          break;
+        case 'unchanged':
+          output.push(
+            `${linePrefix}${chalk.gray(' ')} ${labelPath(change)}${change.original ?? change.modified ?? ''}`
+          );
+          break;
+      }
+      indentLines(output, lineCount, depth);
+    }
+  }
+
+  // Columns that only one table has
+  const changedColumns = (['added', 'removed'] as const)
+    .map(type => [type, result.columns?.filter(column => column.type === type).map(column => column.name) || []] as const)
+    .filter(([, names]) => names.length > 0);
+  if (changedColumns.length > 0) {
+    output.push('');
+    for (const [type, names] of changedColumns) {
+      output.push(`Columns ${type}: ${names.join(', ')}`);
+    }
+  }
+
+  // Add statistics
+  output.push('');
+  output.push('Statistics:');
+  output.push(`  Added:    ${result.stats.added}`);
+  output.push(`  Removed:  ${result.stats.removed}`);
+  output.push(`  Modified: ${result.stats.modified}`);
+  output.push(`  Moved:    ${result.stats.moved}`);
+  output.push(`  Unchanged: ${result.stats.unchanged}`);
+
+  if (result.levelStats) {
+    output.push('');
+    output.push('By level:');
+    for (const [level, stats] of Object.entries(result.levelStats)) {
+      output.push(
+        `  ${`${level}s:`.padEnd(11)} +${stats.added} -${stats.removed} ~${stats.modified} moved ${stats.moved}, unchanged ${stats.unchanged}`
+      );
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Walks a change tree depth first; below the top level only changed nodes
+ * are visited, since unchanged sentences and words repeat their parent
+ */
+function* walkChanges(changes: DiffChange[], depth = 0): Generator<{ change: DiffChange; depth: number }> {
+  for (const change of changes) {
+    if (depth > 0 && change.type === 'unchanged') continue;
+    yield { change, depth };
+    if (change.children) {
+      yield* walkChanges(change.children, depth + 1);
+    }
+  }
+}
+
+/**
+ * Indents the lines pushed since `from` by two spaces per tree level
+ */
+function indentLines(output: string[], from: number, depth: number): void {
+  for (let k = from; k < output.length; k++) {
+    output[k] = '  '.repeat(depth) + output[k];
+  }
+}
+
+/**
+ * Colors one side of a modified change, inverting the segments that were edited
+ */
+function highlightSegments(change: DiffChange, side: 'removed' | 'added'): string {
+  const paint = side === 'removed' ? chalk.red : chalk.green;
+  if (!change.segments) {
+    return paint((side === 'removed' ? change.original : change.modified) ?? '');
+  }
+  return change.segments.characters
+    .filter(segment => segment.type === 'equal' || segment.type === side)
+    .map(segment => (segment.type === 'equal' ? paint(segment.text) : paint.inverse(segment.text)))
+    .join('');
+}
+
+/**
+ * The "path: " prefix of a JSON change, the "key: " prefix of a table row,
+ * the "[kind] " tag of a changed code token, or nothing for other changes
+ */
+function labelPath(change: DiffChange): string {
+  if (change.path !== undefined) {
+    return `${change.path}: `;
+  }
+  if (change.rowKey !== undefined) {
+    return `${change.rowKey.join(', ')}: `;
+  }
+  return change.tokenKind && change.type !== 'unchanged' ? `[${change.tokenKind}] ` : '';
+}
+
+/**
+ * Lists the changed cells of a table row, e.g. "price: 10 -> 12, qty: 1 -> 2"
+ */
+function describeCells(change: DiffChange, color: boolean): string {
+  return change.cells!
+    .filter(cell => cell.type === 'modified')
+    .map(cell => (color
+      ? `${cell.column}: ${chalk.red(cell.original)} ${chalk.gray('->')} ${chalk.green(cell.modified)}`
+      : `${cell.column}: ${cell.original} -> ${cell.modified}`))
+    .join(', ');
+}
+
+/**
+ * Notes a JSON value whose type changed, e.g. " (string -> number)"
+ */
+function describeTypeChange(change: DiffChange): string {
+  const { original, modified } = change.valueTypes || {};
+  return original && modified && original !== modified ? ` (${original} -> ${modified})` : '';
+}
+
+/**
+ * Describes where the other end of a moved change is, e.g. "[moved to line 12]"
+ */
+function describeMove(change: DiffChange): string {
+  if (!change.move) {
+    return '[moved]';
+  }
+  const { side, sourceLine, destinationLine, sourceIndex, destinationIndex } = change.move;
+  const direction = side === 'source' ? 'to' : 'from';
+  const line = side === 'source' ? destinationLine : sourceLine;
+  const index = side === 'source' ? destinationIndex : sourceIndex;
+  return line !== undefined ? `[moved ${direction} line ${line}]` : `[moved ${direction} change #${index}]`;
+}
+
+/**
+ * Formats diff results as JSON
+ */
+export function formatDiffJson(result: DiffResult): string {
+  return JSON.stringify(result, null, 2);
+}
+
+/**
+ * Flattens diff changes into unified diff lines. Within each run of changes
+ * removals are listed before additions. The empty token that line tokenizing
+ * leaves after a trailing newline is dropped; a side without that token gets
+ * its last line flagged with "\ No newline at end of file".
+ */
+function toPatchLines(changes: DiffChange[]): PatchLine[] {
+  const lines: PatchLine[] = [];
+  let removed: PatchLine[] = [];
+  let added: PatchLine[] = [];
+
+  const flush = () => {
+    lines.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  for (const change of changes) {
+    // Ignored blank lines are on one side only, so a patch still removes or adds them
+    if (change.type === 'unchanged' && !change.ignored) {
+      flush();
+      lines.push({ op: ' ', text: change.original ?? '' });
+      continue;
+    }
+    if (change.original !== undefined) {
+      removed.push({ op: '-', text: change.original });
+    }
+    if (change.modified !== undefined) {
+      added.push({ op: '+', text: change.modified });
+    }
+  }
+  flush();
+
+  const lastIndex = (op: '-' | '+') => {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (lines[i].op === ' ' || lines[i].op === op) {
+        return i;
+      }
+    }
+    return -1;
+  };
+
+  // Drop the trailing-newline sentinels, remembering which side lacked one
+  let lastOriginal = lastIndex('-');
+  let lastModified = lastIndex('+');
+  const originalEol = lastOriginal === -1 || lines[lastOriginal].text === '';
+  const modifiedEol = lastModified === -1 || lines[lastModified].text === '';
+
+  if (originalEol && modifiedEol && lastOriginal !== -1 && lastOriginal === lastModified) {
+    lines.splice(lastOriginal, 1);
+  } else {
+    const sentinels: Array<[number, '-' | '+']> = [];
+    if (originalEol && lastOriginal !== -1) sentinels.push([lastOriginal, '-']);
+    if (modifiedEol && lastModified !== -1) sentinels.push([lastModified, '+']);
+    // Highest index first so splicing does not shift the other sentinel
+    for (const [index, side] of sentinels.sort((x, y) => y[0] - x[0])) {
+      if (lines[index].op === ' ') {
+        // Still a real, empty line on the other side
+        lines[index] = { op: side === '-' ? '+' : '-', text: '' };
+      } else {
+        lines.splice(index, 1);
+      }
+    }
+  }
+
+  lastOriginal = lastIndex('-');
+  lastModified = lastIndex('+');
+
+  // A context line can only carry the missing-newline marker when it ends both sides
+  const splitContext = (index: number) => {
+    const { text } = lines[index];
+    lines.splice(index, 1, { op: '-', text }, { op: '+', text });
+  };
+  if (!modifiedEol && lastModified !== -1 && lines[lastModified].op === ' '
+    && (originalEol || lastOriginal !== lastModified)) {
+    splitContext(lastModified);
+  } else if (!originalEol && lastOriginal !== -1 && lines[lastOriginal].op === ' '
+    && (modifiedEol || lastOriginal !== lastModified)) {
+    splitContext(lastOriginal);
+  }
+  lastOriginal = lastIndex('-');
+  lastModified = lastIndex('+');
+
+  if (!originalEol && lastOriginal !== -1) {
+    lines[lastOriginal].noNewline = true;
+  }
+  if (!modifiedEol && lastModified !== -1) {
+    lines[lastModified].noNewline = true;
+  }
+
+  return lines;
+}
+
+/**
+ * Formats a hunk range as `start,count`, omitting a count of one like GNU diff
+ */
+function formatHunkRange(start: number, count: number): string {
+  if (count === 1) {
+    return `${start}`;
+  }
+  // An empty range points at the line before the hunk
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Formats diff results as a unified diff (`---`/`+++` headers and `@@` hunks)
+ * that `patch`, git and code review tools accept. Each token is written as
+ * one line, so line granularity produces a conventional patch.
+ * Returns an empty string when there are no changes.
+ */
+export function formatUnifiedDiff(result: DiffResult, options: UnifiedDiffOptions = {}): string {
   const {
-    granularity = 'line',
-    ignoreWhitespace = false,
-    ignoreCase = false,
+    context = 3,
+    originalName = 'original',
+    modifiedName = 'modified',
   } = options;
 
-  const opts = { granularity, ignoreWhitespace, ignoreCase };
-
-  // Tokenize both texts
-  const tokens1 = tokenize(original, granularity);
-  const tokens2 = tokenize(modified, granularity);
+  const lines = toPatchLines(result.changes);
+  const changed = lines
+    .map((line, index) => (line.op !== ' ' ? index : -1))
+    .filter(index => index !== -1);
 
-  // Normalize tokens for comparison
-  const normalized1 = tokens1.map(t => normalize(t, opts));
-  const normalized2 = tokens2.map(t => normalize(t, opts));
+  if (changed.length === 0) {
+    return '';
+  }
 
-  // Find LCS
-  const common = lcs(normalized1, normalized2);
+  // Group changed lines whose context would overlap into the same hunk
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
 
-  // Build diff changes
-  const changes: DiffChange[] = [];
-  let i = 0;
-  let j = 0;
-  let k = 0;
+  const output: string[] = [`--- ${originalName}`, `+++ ${modifiedName}`];
   let originalLine = 1;
   let modifiedLine = 1;
+  let cursor = 0;
 
-  while (i < tokens1.length || j < tokens2.length) {
-    if (i < tokens1.length && j < tokens2.length) {
-      const norm1 = normalized1[i];
-      const norm2 = normalized2[j];
+  for (const hunk of hunks) {
+    for (; cursor < hunk.start; cursor++) {
+      if (lines[cursor].op !== '+') originalLine++;
+      if (lines[cursor].op !== '-') modifiedLine++;
+    }
 
-      if (norm1 === norm2 && k < common.length && norm1 === common[k]) {
-        // Unchanged
-        changes.push({
-          type: 'unchanged',
-          original: tokens1[i],
-          modified: tokens2[j],
-          originalLine: granularity === 'line' ? originalLine : undefined,
-          modifiedLine: granularity === 'line' ? modifiedLine : undefined,
-        });
-        i++;
-        j++;
-        k++;
-        if (granularity === 'line') {
-          originalLine++;
-          modifiedLine++;
-        }
-      } else if (k < common.length && norm1 === common[k]) {
-        // Added in modified
-        changes.push({
-          type: 'added',
-          modified: tokens2[j],
-          modifiedLine: granularity === 'line' ? modifiedLine : undefined,
-        });
-        j++;
-        if (granularity === 'line') {
-          modifiedLine++;
-        }
-      } else if (k < common.length && norm2 === common[k]) {
-        // Removed from original
-        changes.push({
-          type: 'removed',
-          original: tokens1[i],
-          originalLine: granularity === 'line' ? originalLine : undefined,
-        });
-        i++;
-        if (granularity === 'line') {
-          originalLine++;
-        }
-      } else {
-        // Modified (different content) - apply semantic analysis if enabled
-        const origText = tokens1[i];
-        const modText = tokens2[j];
-        const similarity = options.semanticAnalysis 
-          ? computeSemanticSimilarity(origText, modText)
-          : undefined;
-        
-        const change: DiffChange = {
-          type: 'modified',
-          original: origText,
-          modified: modText,
-          originalLine: granularity === 'line' ? originalLine : undefined,
-          modifiedLine: granularity === 'line' ? modifiedLine : undefined,
-        };
-
-        if (options.semanticAnalysis && similarity !== undefined) {
-          change.similarity = similarity;
-          
-          // Generate explanation and key words
-          const origWords = new Set((origText.toLowerCase().match(/\b\w+\b/g) || []).filter(w => w.length > 3));
-          const modWords = new Set((modText.toLowerCase().match(/\b\w+\b/g) || []).filter(w => w.length > 3));
-          const addedWords = [...modWords].filter(w => !origWords.has(w));
-          const removedWords = [...origWords].filter(w => !modWords.has(w));
-          
-          change.keyWords = {
-            added: addedWords.slice(0, 5),
-            removed: removedWords.slice(0, 5),
-          };
-          
-          // Generate explanation
-          if (similarity > (options.similarityThreshold || 0.5)) {
-            change.explanation = `Reworded with ${Math.round(similarity * 100)}% similarity. Key changes: ${addedWords.length > 0 ? `added "${addedWords[0]}"` : ''} ${removedWords.length > 0 ? `removed "${removedWords[0]}"` : ''}`.trim();
-          } else {
-            change.explanation = `Significantly modified. New focus: ${addedWords.slice(0, 2).join(', ')}`;
-          }
+    const body: string[] = [];
+    let originalCount = 0;
+    let modifiedCount = 0;
+    for (let i = hunk.start; i < hunk.end; i++) {
+      const line = lines[i];
+      body.push(`${line.op}${line.text}`);
+      if (line.noNewline) {
+        body.push('\\ No newline at end of file');
+      }
+      if (line.op !== '+') originalCount++;
+      if (line.op !== '-') modifiedCount++;
+    }
+
+    output.push(
+      `@@ -${formatHunkRange(originalLine, originalCount)} +${formatHunkRange(modifiedLine, modifiedCount)} @@`,
+      ...body
+    );
+
+    originalLine += originalCount;
+    modifiedLine += modifiedCount;
+    cursor = hunk.end;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+// ============================================================================
+// Patches
+// ============================================================================
+
+/**
+ * Strips the optional tab-separated timestamp from a `---`/`+++` file name
+ */
+function parsePatchFileName(header: string): string {
+  const name = header.slice(4);
+  const tab = name.indexOf('\t');
+  return (tab === -1 ? name : name.slice(0, tab)).trim();
+}
+
+/**
+ * Parses a unified diff into one entry per file. Accepts output from
+ * `formatUnifiedDiff`, GNU diff and git (extended git headers are skipped).
+ * Throws when a hunk header is malformed or a hunk body is truncated.
+ */
+export function parsePatch(patch: string): ParsedPatch[] {
+  const lines = patch.split(/\r?\n/);
+  const patches: ParsedPatch[] = [];
+  let current: ParsedPatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = {
+        originalName: parsePatchFileName(line),
+        modifiedName: parsePatchFileName(lines[i + 1]),
+        hunks: [],
+      };
+      patches.push(current);
+      i += 2;
+      continue;
+    }
+
+    if (!line.startsWith('@@')) {
+      // File headers, git metadata and trailing garbage are ignored
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/);
+    if (!header) {
+      throw new Error(`Malformed hunk header at line ${i + 1}: ${line}`);
+    }
+
+    if (!current) {
+      current = { hunks: [] };
+      patches.push(current);
+    }
+
+    const hunk: PatchHunk = {
+      originalStart: parseInt(header[1], 10),
+      originalLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+      modifiedStart: parseInt(header[3], 10),
+      modifiedLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+      lines: [],
+    };
+    if (header[5]) {
+      hunk.section = header[5];
+    }
+
+    let originalRemaining = hunk.originalLines;
+    let modifiedRemaining = hunk.modifiedLines;
+    i++;
+
+    while (originalRemaining > 0 || modifiedRemaining > 0 || lines[i]?.startsWith('\\')) {
+      if (i >= lines.length) {
+        throw new Error(`Unexpected end of patch in hunk starting at line ${hunk.originalStart}`);
+      }
+
+      const body = lines[i];
+      if (body.startsWith('\\')) {
+        // "\ No newline at end of file" belongs to the preceding line
+        const previous = hunk.lines[hunk.lines.length - 1];
+        if (previous) {
+          previous.noNewline = true;
         }
-        
-        changes.push(change);
         i++;
-        j++;
-        if (granularity === 'line') {
-          originalLine++;
-          modifiedLine++;
-        }
+        continue;
       }
-    } else if (i < tokens1.length) {
-      // Remaining in original
-      changes.push({
-        type: 'removed',
-        original: tokens1[i],
-        originalLine: granularity === 'line' ? originalLine : undefined,
-      });
-      i++;
-      if (granularity === 'line') {
-        originalLine++;
-      }
-    } else if (j < tokens2.length) {
-      // Remaining in modified
-      changes.push({
-        type: 'added',
-        modified: tokens2[j],
-        modifiedLine: granularity === 'line' ? modifiedLine : undefined,
-      });
-      j++;
-      if (granularity === 'line') {
-        modifiedLine++;
+
+      // Some tools strip the space from empty context lines
+      const op = body.length === 0 ? ' ' : body[0];
+      if (op !== ' ' && op !== '-' && op !== '+') {
+        throw new Error(`Malformed hunk line at line ${i + 1}: ${body}`);
       }
+      if ((op !== '+' && originalRemaining === 0) || (op !== '-' && modifiedRemaining === 0)) {
+        throw new Error(`Hunk at line ${hunk.originalStart} is longer than its header states`);
+      }
+
+      hunk.lines.push({ op, text: body.slice(1) });
+      if (op !== '+') originalRemaining--;
+      if (op !== '-') modifiedRemaining--;
+      i++;
     }
-  }
 
-  // Calculate statistics
-  const stats = {
-    added: changes.filter(c => c.type === 'added').length,
-    removed: changes.filter(c => c.type === 'removed').length,
-    modified: changes.filter(c => c.type === 'modified').length,
-    unchanged: changes.filter(c => c.type === 'unchanged').length,
-  };
+    current.hunks.push(hunk);
+  }
 
-  return { changes, stats };
+  return patches;
 }
 
-// ============================================================================
-// Advanced Diff Utilities
-// ============================================================================
-
 /**
- * Finds the next change index from a given position
+ * Swaps the sides of a hunk so it can be applied in reverse
  */
-export function findNextChange(changes: DiffChange[], currentIndex: number): number {
-  for (let i = currentIndex + 1; i < changes.length; i++) {
-    if (changes[i].type !== 'unchanged') {
-      return i;
-    }
-  }
-  return -1;
+function reverseHunk(hunk: PatchHunk): PatchHunk {
+  return {
+    ...hunk,
+    originalStart: hunk.modifiedStart,
+    originalLines: hunk.modifiedLines,
+    modifiedStart: hunk.originalStart,
+    modifiedLines: hunk.originalLines,
+    lines: hunk.lines.map(line => ({
+      ...line,
+      op: line.op === '-' ? '+' : line.op === '+' ? '-' : ' ',
+    })),
+  };
 }
 
 /**
- * Finds the previous change index from a given position
+ * Counts the context lines at the start of a hunk body
  */
-export function findPreviousChange(changes: DiffChange[], currentIndex: number): number {
-  for (let i = currentIndex - 1; i >= 0; i--) {
-    if (changes[i].type !== 'unchanged') {
-      return i;
-    }
+function countContextLines(lines: PatchLine[]): number {
+  let count = 0;
+  while (count < lines.length && lines[count].op === ' ') {
+    count++;
   }
-  return -1;
+  return count;
 }
 
 /**
- * Gets all change indices
+ * Checks whether `expected` occurs in `lines` at `position`
  */
-export function getAllChangeIndices(changes: DiffChange[]): number[] {
-  return changes
-    .map((change, index) => (change.type !== 'unchanged' ? index : -1))
-    .filter(index => index !== -1);
+function linesMatchAt(lines: string[], expected: string[], position: number): boolean {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+  for (let k = 0; k < expected.length; k++) {
+    if (lines[position + k] !== expected[k]) {
+      return false;
+    }
+  }
+  return true;
 }
 
 /**
- * Computes diff statistics with additional insights
+ * Applies a unified diff to a text. Each hunk is first tried at its stated
+ * position (shifted by the net change of earlier hunks), then at growing
+ * offsets up to `maxOffset`. If it still does not match, up to `fuzz`
+ * context lines are ignored at each end of the hunk and the search repeats,
+ * like GNU patch. Hunks that cannot be placed are reported as rejected and
+ * the rest of the patch is still applied.
  */
-export function computeDiffInsights(result: DiffResult): {
-  totalChanges: number;
-  changePercentage: number;
-  similarity: number;
-  largestChange: DiffChange | null;
-  changeDistribution: Record<string, number>;
-} {
-  const { changes, stats } = result;
-  const totalChanges = stats.added + stats.removed + stats.modified;
-  const totalLines = changes.length;
-  const changePercentage = totalLines > 0 ? (totalChanges / totalLines) * 100 : 0;
-  const similarity = totalLines > 0 ? (stats.unchanged / totalLines) * 100 : 100;
-
-  let largestChange: DiffChange | null = null;
-  let maxLength = 0;
+export function applyPatch(
+  text: string,
+  patch: string | ParsedPatch,
+  options: ApplyPatchOptions = {}
+): ApplyPatchResult {
+  const { fuzz = 2, maxOffset = Infinity, reverse = false } = options;
 
-  changes.forEach(change => {
-    if (change.type !== 'unchanged') {
-      const length = Math.max(
-        (change.original || '').length,
-        (change.modified || '').length
-      );
-      if (length > maxLength) {
-        maxLength = length;
-        largestChange = change;
-      }
+  let parsed: ParsedPatch;
+  if (typeof patch === 'string') {
+    const patches = parsePatch(patch);
+    if (patches.length > 1) {
+      throw new Error(`Patch contains ${patches.length} files; apply them one at a time`);
     }
-  });
+    parsed = patches[0] || { hunks: [] };
+  } else {
+    parsed = patch;
+  }
 
-  return {
-    totalChanges,
-    changePercentage: Math.round(changePercentage * 100) / 100,
-    similarity: Math.round(similarity * 100) / 100,
-    largestChange,
-    changeDistribution: {
-      added: stats.added,
-      removed: stats.removed,
-      modified: stats.modified,
-      unchanged: stats.unchanged,
-    },
-  };
-}
+  const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+  const lines = text.split(/\r?\n/);
+  let endsWithNewline = false;
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+    endsWithNewline = lines.length > 0;
+  }
 
-/**
- * Generates a merged version by accepting/rejecting changes
- */
-export function generateMergedText(
-  changes: DiffChange[],
-  decisions: Map<number, 'accept' | 'reject' | 'keep'>
-): string {
-  const lines: string[] = [];
+  const output: string[] = [];
+  const applied: ApplyPatchResult['applied'] = [];
+  const rejected: ApplyPatchResult['rejected'] = [];
+  let cursor = 0;
+  // Later hunks are usually displaced by the same amount as the previous one
+  let lastOffset = 0;
 
-  changes.forEach((change, index) => {
-    const decision = decisions.get(index) || 'keep';
+  parsed.hunks.forEach((rawHunk, index) => {
+    const hunk = reverse ? reverseHunk(rawHunk) : rawHunk;
+    const leading = countContextLines(hunk.lines);
+    const trailing = countContextLines([...hunk.lines].reverse());
 
-    switch (change.type) {
-      case 'added':
-        if (decision === 'accept' || decision === 'keep') {
-          lines.push(change.modified || '');
-        }
-        break;
-      case 'removed':
-        if (decision === 'reject' || decision === 'keep') {
-          lines.push(change.original || '');
-        }
+    // A hunk without removals or context inserts after its start line
+    const statedAt = hunk.originalLines === 0 ? hunk.originalStart : hunk.originalStart - 1;
+    const expectedAt = statedAt + lastOffset;
+
+    for (let level = 0; level <= fuzz; level++) {
+      const skipStart = Math.min(level, leading);
+      const skipEnd = Math.min(level, trailing);
+      if (level > 0 && skipStart < level && skipEnd < level) {
+        // No more context to ignore
         break;
-      case 'modified':
-        if (decision === 'accept') {
-          lines.push(change.modified || '');
-        } else if (decision === 'reject') {
-          lines.push(change.original || '');
-        } else {
-          // Keep both or use modified as default
-          lines.push(change.modified || '');
+      }
+
+      const body = hunk.lines.slice(skipStart, hunk.lines.length - skipEnd);
+      const oldLines = body.filter(line => line.op !== '+').map(line => line.text);
+      const newLines = body.filter(line => line.op !== '-');
+      const target = expectedAt + skipStart;
+      const searchLimit = Math.min(maxOffset, Math.max(lines.length, 1));
+
+      for (let distance = 0; distance <= searchLimit; distance++) {
+        for (const position of distance === 0 ? [target] : [target + distance, target - distance]) {
+          if (position < cursor || !linesMatchAt(lines, oldLines, position)) {
+            continue;
+          }
+
+          output.push(...lines.slice(cursor, position));
+          output.push(...newLines.map(line => line.text));
+          cursor = position + oldLines.length;
+
+          if (cursor === lines.length) {
+            // The hunk reaches the end of the text, so it decides the final newline
+            const lastNew = newLines[newLines.length - 1];
+            endsWithNewline = lastNew ? !lastNew.noNewline : output.length > 0;
+          }
+
+          lastOffset = position - skipStart - statedAt;
+          applied.push({ index, line: position - skipStart + 1, offset: lastOffset, fuzz: level });
+          return;
         }
-        break;
-      case 'unchanged':
-        lines.push(change.original || '');
-        break;
+      }
     }
+
+    rejected.push({
+      index,
+      hunk: rawHunk,
+      reason: `Hunk #${index + 1} does not match the text near line ${statedAt + 1}`,
+    });
   });
 
-  return lines.join('\n');
+  output.push(...lines.slice(cursor));
+
+  return {
+    text: output.join(lineEnding) + (endsWithNewline && output.length > 0 ? lineEnding : ''),
+    success: rejected.length === 0,
+    applied,
+    rejected,
+  };
 }
 
+// ============================================================================
+// Three-Way Merge
+// ============================================================================
+
 /**
- * Computes character-level diff for highlighting
+ * Maps each line of `lines1` to its aligned line in `lines2`, or -1
  */
-export function computeCharacterDiff(original: string, modified: string): {
-  original: Array<{ char: string; type: 'removed' | 'unchanged' }>;
-  modified: Array<{ char: string; type: 'added' | 'unchanged' }>;
-} {
-  const origChars = original.split('');
-  const modChars = modified.split('');
+function alignLines(lines1: string[], lines2: string[], algorithm: DiffAlgorithm): Int32Array {
+  const engine = DIFF_ENGINES[algorithm];
+  if (!engine) {
+    throw new Error(`Unknown diff algorithm: ${algorithm}`);
+  }
 
-  // Simple character-by-character comparison
-  const origResult: Array<{ char: string; type: 'removed' | 'unchanged' }> = [];
-  const modResult: Array<{ char: string; type: 'added' | 'unchanged' }> = [];
+  const { ids1, ids2 } = internTokens(lines1, lines2);
+  const aligned = new Int32Array(lines1.length).fill(-1);
+  for (const [i, j] of engine(ids1, ids2)) {
+    aligned[i] = j;
+  }
+  return aligned;
+}
 
-  let origIdx = 0;
-  let modIdx = 0;
-
-  while (origIdx < origChars.length || modIdx < modChars.length) {
-    const origChar = origChars[origIdx];
-    const modChar = modChars[modIdx];
-
-    if (origChar === modChar && origChar !== undefined && modChar !== undefined) {
-      origResult.push({ char: origChar, type: 'unchanged' });
-      modResult.push({ char: modChar, type: 'unchanged' });
-      origIdx++;
-      modIdx++;
-    } else if (origIdx >= origChars.length) {
-      modResult.push({ char: modChar, type: 'added' });
-      modIdx++;
-    } else if (modIdx >= modChars.length) {
-      origResult.push({ char: origChar, type: 'removed' });
-      origIdx++;
-    } else {
-      origResult.push({ char: origChar, type: 'removed' });
-      modResult.push({ char: modChar, type: 'added' });
-      origIdx++;
-      modIdx++;
+/**
+ * Checks whether two line ranges have the same content
+ */
+function rangesEqual(lines1: string[], start1: number, end1: number, lines2: string[], start2: number, end2: number): boolean {
+  if (end1 - start1 !== end2 - start2) {
+    return false;
+  }
+  for (let k = 0; k < end1 - start1; k++) {
+    if (lines1[start1 + k] !== lines2[start2 + k]) {
+      return false;
     }
   }
-
-  return { original: origResult, modified: modResult };
+  return true;
 }
 
-// ============================================================================
-// Formatters
-// ============================================================================
-
-import chalk from 'chalk';
-
 /**
- * Formats diff results for console output
+ * Merges two versions of a text that were edited from a common base.
+ * Lines unchanged on both sides anchor the merge; between anchors, a region
+ * changed on only one side takes that side, a region changed identically on
+ * both sides is taken once, and anything else is a conflict. Changes are
+ * compared line by line, so edits to adjacent lines also conflict.
  */
-export function formatDiff(result: DiffResult, options: { color?: boolean } = {}): string {
-  const { color = true } = options;
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  options: Merge3Options = {}
+): Merge3Result {
+  const {
+    algorithm = 'myers',
+    ignoreWhitespace = false,
+    ignoreCase = false,
+    conflictStyle = 'markers',
+    labels = {},
+  } = options;
+
+  const opts = { granularity: 'line' as const, ignoreWhitespace, ignoreCase };
+  const baseLines = tokenize(base, 'line');
+  const oursLines = tokenize(ours, 'line');
+  const theirsLines = tokenize(theirs, 'line');
+  const baseNormalized = baseLines.map(line => normalize(line, opts));
+  const oursNormalized = oursLines.map(line => normalize(line, opts));
+  const theirsNormalized = theirsLines.map(line => normalize(line, opts));
+
+  const toOurs = alignLines(baseNormalized, oursNormalized, algorithm);
+  const toTheirs = alignLines(baseNormalized, theirsNormalized, algorithm);
+
   const output: string[] = [];
+  const conflicts: Merge3Conflict[] = [];
+  const stats = { ours: 0, theirs: 0, both: 0, conflicts: 0 };
 
-  if (!color) {
-    // Plain text output
-    for (const change of result.changes) {
-      switch (change.type) {
-        case 'added':
-          output.push(`+ ${change.modified}`);
-          break;
-        case 'removed':
-          output.push(`- ${change.original}`);
-          break;
-        case 'modified':
-          output.push(`~ ${change.original} -> ${change.modified}`);
-          break;
-        case 'unchanged':
-          output.push(`  ${change.original}`);
-          break;
+  const resolveRegion = (b0: number, b1: number, o0: number, o1: number, t0: number, t1: number) => {
+    const oursChanged = !rangesEqual(baseNormalized, b0, b1, oursNormalized, o0, o1);
+    const theirsChanged = !rangesEqual(baseNormalized, b0, b1, theirsNormalized, t0, t1);
+
+    if (!oursChanged && !theirsChanged) {
+      output.push(...oursLines.slice(o0, o1));
+    } else if (!theirsChanged) {
+      stats.ours++;
+      output.push(...oursLines.slice(o0, o1));
+    } else if (!oursChanged) {
+      stats.theirs++;
+      output.push(...theirsLines.slice(t0, t1));
+    } else if (rangesEqual(oursNormalized, o0, o1, theirsNormalized, t0, t1)) {
+      stats.both++;
+      output.push(...oursLines.slice(o0, o1));
+    } else {
+      stats.conflicts++;
+      conflicts.push({
+        mergedLine: output.length + 1,
+        base: { start: b0 + 1, lines: baseLines.slice(b0, b1) },
+        ours: { start: o0 + 1, lines: oursLines.slice(o0, o1) },
+        theirs: { start: t0 + 1, lines: theirsLines.slice(t0, t1) },
+      });
+
+      if (conflictStyle === 'list') {
+        output.push(...baseLines.slice(b0, b1));
+      } else {
+        output.push(`<<<<<<< ${labels.ours ?? 'ours'}`, ...oursLines.slice(o0, o1));
+        if (conflictStyle === 'diff3') {
+          output.push(`||||||| ${labels.base ?? 'base'}`, ...baseLines.slice(b0, b1));
+        }
+        output.push('=======', ...theirsLines.slice(t0, t1), `>>>>>>> ${labels.theirs ?? 'theirs'}`);
       }
     }
-  } else {
-    // Colored output
-    for (const change of result.changes) {
-      const linePrefix = change.originalLine !== undefined || change.modifiedLine !== undefined
-        ? `${String(change.originalLine ?? ' ').padStart(4)} ${String(change.modifiedLine ?? ' ').padStart(4)} `
-        : '';
+  };
 
-      switch (change.type) {
-        case 'added':
-          output.push(
-            `${linePrefix}${chalk.green('+')} ${chalk.green(change.modified ?? '')}`
-          );
-          break;
-        case 'removed':
-          output.push(
-            `${linePrefix}${chalk.red('-')} ${chalk.red(change.original ?? '')}`
-          );
-          break;
-        case 'modified':
-          output.push(
-            `${linePrefix}${chalk.yellow('~')} ${chalk.red(change.original ?? '')} ${chalk.gray('->')} ${chalk.green(change.modified ?? '')}`
-          );
-          break;
-        case 'unchanged':
-          output.push(
-            `${linePrefix}${chalk.gray(' ')} ${change.original ?? ''}`
-          );
-          break;
-      }
+  let b = 0;
+  let o = 0;
+  let t = 0;
+  while (b <= baseLines.length) {
+    // The next base line kept by both sides anchors the region before it
+    let anchor = b;
+    while (anchor < baseLines.length && (toOurs[anchor] === -1 || toTheirs[anchor] === -1)) {
+      anchor++;
     }
-  }
 
-  // Add statistics
-  output.push('');
-  output.push('Statistics:');
-  output.push(`  Added:    ${result.stats.added}`);
-  output.push(`  Removed:  ${result.stats.removed}`);
-  output.push(`  Modified: ${result.stats.modified}`);
-  output.push(`  Unchanged: ${result.stats.unchanged}`);
+    const oEnd = anchor < baseLines.length ? toOurs[anchor] : oursLines.length;
+    const tEnd = anchor < baseLines.length ? toTheirs[anchor] : theirsLines.length;
+    resolveRegion(b, anchor, o, oEnd, t, tEnd);
 
-  return output.join('\n');
-}
+    if (anchor < baseLines.length) {
+      output.push(oursLines[oEnd]);
+    }
+    b = anchor + 1;
+    o = oEnd + 1;
+    t = tEnd + 1;
+  }
 
-/**
- * Formats diff results as JSON
- */
-export function formatDiffJson(result: DiffResult): string {
-  return JSON.stringify(result, null, 2);
+  const lineEnding = base.includes('\r\n') ? '\r\n' : '\n';
+  return {
+    merged: output.join(lineEnding),
+    clean: conflicts.length === 0,
+    conflicts,
+    stats,
+  };
 }
 
 // ============================================================================
@@ -643,25 +5483,63 @@ export function analyzeText(text: string): {
   };
 }
 
+/**
+ * Categories whose edits leave the meaning alone
+ */
+const COSMETIC_CATEGORIES: ChangeCategory[] = ['whitespace', 'case', 'punctuation', 'typo'];
+
 /**
  * Generates a summary of changes for agent understanding
  */
 export function summarizeChanges(result: DiffResult): {
   summary: string;
+  /** Counts by change type, then by category */
   changeTypes: Record<string, number>;
   impact: 'low' | 'medium' | 'high';
   recommendations: string[];
+  /** Sections with changes, in document order (markdown granularity) */
+  sections: Array<{ headingPath: string[]; changes: number }>;
+  /** Figures that changed, in document order (with semantic analysis) */
+  quantities: QuantityDelta[];
 } {
   const { stats, changes } = result;
-  const totalChanges = stats.added + stats.removed + stats.modified;
+  const totalChanges = stats.added + stats.removed + stats.modified + stats.moved;
   const totalItems = changes.length;
+  const movedBlocks = new Set(changes.filter(c => c.move).map(c => c.move!.id)).size;
   const changeRatio = totalItems > 0 ? totalChanges / totalItems : 0;
   
   let summary = '';
   if (stats.added > 0) summary += `Added ${stats.added} item${stats.added !== 1 ? 's' : ''}. `;
   if (stats.removed > 0) summary += `Removed ${stats.removed} item${stats.removed !== 1 ? 's' : ''}. `;
   if (stats.modified > 0) summary += `Modified ${stats.modified} item${stats.modified !== 1 ? 's' : ''}. `;
+  if (stats.moved > 0) {
+    summary += `Moved ${stats.moved} item${stats.moved !== 1 ? 's' : ''} in ${movedBlocks} block${movedBlocks !== 1 ? 's' : ''}. `;
+  }
   if (stats.unchanged > 0) summary += `${stats.unchanged} item${stats.unchanged !== 1 ? 's' : ''} unchanged.`;
+
+  // Group changes by the section they fall in
+  const sectionCounts = new Map<string, { headingPath: string[]; changes: number }>();
+  for (const change of changes) {
+    if (change.type === 'unchanged' || !change.headingPath?.length) continue;
+    const key = change.headingPath.join('\u0000');
+    const section = sectionCounts.get(key) || { headingPath: change.headingPath, changes: 0 };
+    section.changes++;
+    sectionCounts.set(key, section);
+  }
+  const sections = [...sectionCounts.values()];
+  if (sections.length > 0) {
+    const named = sections.slice(0, 3).map(section => section.headingPath.join(' › '));
+    const more = sections.length - named.length;
+    summary = `${summary.trim()} Changed in ${named.join(', ')}${more > 0 ? ` and ${more} more section${more !== 1 ? 's' : ''}` : ''}.`;
+  }
+
+  // Columns that only one table has
+  for (const type of ['added', 'removed'] as const) {
+    const names = result.columns?.filter(column => column.type === type).map(column => column.name) || [];
+    if (names.length > 0) {
+      summary = `${summary.trim()} ${type === 'added' ? 'Added' : 'Removed'} column${names.length !== 1 ? 's' : ''} ${names.join(', ')}.`;
+    }
+  }
   
   const impact: 'low' | 'medium' | 'high' = changeRatio < 0.1 ? 'low' : changeRatio < 0.3 ? 'medium' : 'high';
   
@@ -675,6 +5553,32 @@ export function summarizeChanges(result: DiffResult): {
   if (stats.modified > stats.added + stats.removed) {
     recommendations.push('Extensive rewording detected - review for meaning preservation');
   }
+  if (stats.moved > 0 && stats.moved >= stats.added + stats.removed) {
+    recommendations.push('Content reorganization detected - check that moved sections still read in order');
+  }
+  const changedTokens = changes.filter(change => change.type !== 'unchanged' && change.tokenKind);
+  if (changedTokens.length > 0 && changedTokens.every(change => change.tokenKind === 'comment' || change.tokenKind === 'whitespace')) {
+    recommendations.push('Only comments and whitespace changed - code behavior is unaffected');
+  }
+  const categories: Record<ChangeCategory, number> = {
+    whitespace: 0, case: 0, punctuation: 0, number: 0, typo: 0, reorder: 0, rephrase: 0, rewrite: 0,
+  };
+  // Like the stats, a moved block counts once, at its source
+  for (const change of changes) {
+    if (change.category && change.move?.side !== 'destination') categories[change.category]++;
+  }
+  const categorized = changes.filter(change => change.category);
+  if (categorized.length > 0 && categorized.every(change => COSMETIC_CATEGORIES.includes(change.category!))) {
+    recommendations.push('Only typo, punctuation, case and whitespace fixes - meaning is unchanged');
+  }
+  const quantities = changes.flatMap(change => change.quantities || []);
+  if (quantities.length > 0) {
+    const listed = quantities.slice(0, 3).map(describeQuantityDelta).join(', ');
+    const more = quantities.length - 3;
+    recommendations.push(
+      `Figures changed: ${listed}${more > 0 ? ` and ${more} more` : ''} - confirm the new values are intended`
+    );
+  }
   if (changeRatio > 0.5) {
     recommendations.push('Major changes detected - comprehensive review recommended');
   }
@@ -686,83 +5590,90 @@ export function summarizeChanges(result: DiffResult): {
       removed: stats.removed,
       modified: stats.modified,
       unchanged: stats.unchanged,
+      moved: stats.moved,
+      ...categories,
     },
     impact,
     recommendations,
+    sections,
+    quantities,
   };
 }
 
 /**
- * Streams diff computation for large texts (chunked processing)
+ * Streams diff computation for large texts. Both texts are cut at tokens
+ * that occur exactly once in each of them, so every chunk is compared with
+ * the matching region of the other text rather than with whatever sits at
+ * the same character offset. Each event carries only the changes of its own
+ * chunk together with running stats; moves are detected within a chunk.
  */
 export async function* streamDiff(
   original: string,
   modified: string,
   options: DiffOptions = {},
   chunkSize: number = 1000
-): AsyncGenerator<{ progress: number; partial: DiffResult | null; complete: boolean }> {
-  const totalLength = Math.max(original.length, modified.length);
-  let processed = 0;
-  
-  // For very large texts, process in chunks
-  if (totalLength > chunkSize * 10) {
-    const origChunks = original.match(new RegExp(`.{1,${chunkSize}}`, 'gs')) || [original];
-    const modChunks = modified.match(new RegExp(`.{1,${chunkSize}}`, 'gs')) || [modified];
-    
-    const allChanges: DiffChange[] = [];
-    let chunkIndex = 0;
-    const maxChunks = Math.max(origChunks.length, modChunks.length);
-    
-    for (let i = 0; i < maxChunks; i++) {
-      const origChunk = origChunks[i] || '';
-      const modChunk = modChunks[i] || '';
-      
-      const chunkResult = diff(origChunk, modChunk, options);
-      allChanges.push(...chunkResult.changes);
-      
-      processed += Math.max(origChunk.length, modChunk.length);
-      chunkIndex++;
-      
-      yield {
-        progress: Math.min(100, (processed / totalLength) * 100),
-        partial: {
-          changes: allChanges,
-          stats: {
-            added: allChanges.filter(c => c.type === 'added').length,
-            removed: allChanges.filter(c => c.type === 'removed').length,
-            modified: allChanges.filter(c => c.type === 'modified').length,
-            unchanged: allChanges.filter(c => c.type === 'unchanged').length,
-          },
-        },
-        complete: false,
-      };
+): AsyncGenerator<DiffStreamEvent> {
+  // A JSON document, a table or a change tree cannot be cut into independent chunks
+  if (options.granularity === 'json' || options.granularity === 'csv' || options.granularity === 'hierarchical') {
+    const { approximate, approximateReason, ...result } = diff(original, modified, options);
+    yield { progress: 100, ...result, complete: true, ...(approximate && { approximate, approximateReason }) };
+    return;
+  }
+
+  const prepared = prepareDiff(original, modified, options);
+  const { tokens1, tokens2, ids1, ids2, locate1, locate2 } = prepared;
+
+  // Cut at an anchor once either side has grown by at least chunkSize characters
+  const cuts: TokenMatch[] = [];
+  let lastOffset1 = 0;
+  let lastOffset2 = 0;
+  for (const [i, j] of uniqueAnchors(ids1, ids2, [0, tokens1.length, 0, tokens2.length])) {
+    const offset1 = locate1(i).start.offset;
+    const offset2 = locate2(j).start.offset;
+    if (Math.max(offset1 - lastOffset1, offset2 - lastOffset2) >= chunkSize) {
+      cuts.push([i, j]);
+      lastOffset1 = offset1;
+      lastOffset2 = offset2;
     }
-    
-    // Final complete result
-    const finalStats = {
-      added: allChanges.filter(c => c.type === 'added').length,
-      removed: allChanges.filter(c => c.type === 'removed').length,
-      modified: allChanges.filter(c => c.type === 'modified').length,
-      unchanged: allChanges.filter(c => c.type === 'unchanged').length,
-    };
-    
-    yield {
-      progress: 100,
-      partial: { changes: allChanges, stats: finalStats },
-      complete: true,
-    };
-  } else {
-    // Small enough to process at once
-    const result = diff(original, modified, options);
-    yield {
-      progress: 50,
-      partial: result,
-      complete: false,
-    };
+  }
+  cuts.push([tokens1.length, tokens2.length]);
+
+  const totalTokens = tokens1.length + tokens2.length;
+  const stats = { added: 0, removed: 0, modified: 0, unchanged: 0, moved: 0 };
+  let emitted = 0;
+  let moveIdBase = 0;
+  let aLo = 0;
+  let bLo = 0;
+
+  for (const [aHi, bHi] of cuts) {
+    const changes = diffRange(prepared, [aLo, aHi, bLo, bHi]);
+
+    // Renumber moves so ids and indices refer to the whole stream
+    let chunkMoves = 0;
+    for (const change of changes) {
+      if (change.move) {
+        chunkMoves = Math.max(chunkMoves, change.move.id + 1);
+        change.move.id += moveIdBase;
+        change.move.sourceIndex += emitted;
+        change.move.destinationIndex += emitted;
+      }
+    }
+    moveIdBase += chunkMoves;
+    emitted += changes.length;
+
+    const chunkStats = computeStats(changes);
+    for (const type of Object.keys(stats) as Array<keyof typeof stats>) {
+      stats[type] += chunkStats[type];
+    }
+
+    aLo = aHi;
+    bLo = bHi;
     yield {
-      progress: 100,
-      partial: result,
-      complete: true,
+      progress: totalTokens > 0 ? ((aHi + bHi) / totalTokens) * 100 : 100,
+      changes,
+      stats: { ...stats },
+      complete: aHi === tokens1.length && bHi === tokens2.length,
+      ...(prepared.budget.exhausted && { approximate: true, approximateReason: prepared.budget.exhausted }),
     };
   }
 }
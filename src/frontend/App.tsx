@@ -18,6 +18,7 @@ const App: React.FC = () => {
     ignoreWhitespace: false,
     ignoreCase: false,
     semanticAnalysis: true,
+    algorithm: 'myers',
   });
   const [realtimeEnabled, setRealtimeEnabled] = useState(true);
   
@@ -96,6 +97,7 @@ const App: React.FC = () => {
           {diffResult && (
             <DiffView
               changes={diffResult.changes}
+              columns={diffResult.columns}
               loading={loading}
             />
           )}
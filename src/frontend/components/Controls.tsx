@@ -1,5 +1,60 @@
-import React from 'react';
-import type { DiffOptions } from '../../core.js';
+import React, { useState } from 'react';
+import type { DiffMask, DiffMaskPreset, DiffNormalizer, DiffOptions } from '../../core.js';
+
+// Order the normalizer chain is sent in, whichever order the toggles were set
+const NORMALIZER_ORDER: DiffNormalizer[] = [
+  'lineEndings', 'trailingWhitespace', 'blankLines', 'nfc', 'nfkc', 'quotes', 'dashes',
+];
+
+const NORMALIZER_TOGGLES: { normalizer: DiffNormalizer; label: string }[] = [
+  { normalizer: 'trailingWhitespace', label: 'Ignore Trailing Whitespace' },
+  { normalizer: 'blankLines', label: 'Ignore Blank Lines' },
+  { normalizer: 'lineEndings', label: 'Ignore Line Endings' },
+  { normalizer: 'quotes', label: 'Normalize Quotes' },
+  { normalizer: 'dashes', label: 'Normalize Dashes' },
+];
+
+const LOCALES: { locale: string; label: string }[] = [
+  { locale: 'en', label: 'English' },
+  { locale: 'de', label: 'German' },
+  { locale: 'fr', label: 'French' },
+  { locale: 'es', label: 'Spanish' },
+  { locale: 'ar', label: 'Arabic' },
+  { locale: 'hi', label: 'Hindi' },
+  { locale: 'th', label: 'Thai' },
+  { locale: 'zh-Hans', label: 'Chinese (Simplified)' },
+  { locale: 'zh-Hant', label: 'Chinese (Traditional)' },
+  { locale: 'ja', label: 'Japanese' },
+  { locale: 'ko', label: 'Korean' },
+];
+
+const SIMILARITY_SCORERS: { scorer: string; label: string }[] = [
+  { scorer: 'jaccard', label: 'Word Overlap' },
+  { scorer: 'levenshtein', label: 'Edit Distance' },
+  { scorer: 'ngram', label: 'Character N-grams' },
+  { scorer: 'tfidf', label: 'TF-IDF' },
+  { scorer: 'alignment', label: 'Word Order' },
+];
+
+const MASK_PRESETS: { preset: DiffMaskPreset; label: string }[] = [
+  { preset: 'iso-date', label: 'Dates & Times' },
+  { preset: 'uuid', label: 'UUIDs' },
+  { preset: 'hex-hash', label: 'Hashes' },
+  { preset: 'ip', label: 'IP Addresses' },
+  { preset: 'number', label: 'Numbers' },
+];
+
+/**
+ * Whether a custom mask pattern compiles
+ */
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
 interface ControlsProps {
   options: DiffOptions;
@@ -18,6 +73,13 @@ const Controls: React.FC<ControlsProps> = ({
   onComputeDiff,
   loading,
 }) => {
+  // Key columns are edited as text so that a trailing comma survives typing
+  const [keyColumnsText, setKeyColumnsText] = useState((options.keyColumns || []).join(', '));
+  // The custom mask pattern is kept while it does not compile, but only sent once it does
+  const [maskPattern, setMaskPattern] = useState(
+    options.masks?.find((mask): mask is Exclude<DiffMask, string> => typeof mask !== 'string')?.pattern || ''
+  );
+
   const updateOption = <K extends keyof DiffOptions>(
     key: K,
     value: DiffOptions[K]
@@ -25,6 +87,29 @@ const Controls: React.FC<ControlsProps> = ({
     onOptionsChange({ ...options, [key]: value });
   };
 
+  const normalizers = options.normalizers || [];
+
+  const setNormalizers = (enabled: (normalizer: DiffNormalizer) => boolean) => {
+    const next = NORMALIZER_ORDER.filter(enabled);
+    updateOption('normalizers', next.length > 0 ? next : undefined);
+  };
+
+  const toggleNormalizer = (normalizer: DiffNormalizer, checked: boolean) => {
+    setNormalizers(n => (n === normalizer ? checked : normalizers.includes(n)));
+  };
+
+  const unicodeForm = normalizers.find(n => n === 'nfc' || n === 'nfkc') || '';
+
+  const maskPresets = (options.masks || []).filter((mask): mask is DiffMaskPreset => typeof mask === 'string');
+
+  const setMasks = (presets: DiffMaskPreset[], pattern: string) => {
+    const masks: DiffMask[] = MASK_PRESETS.map(({ preset }) => preset).filter(preset => presets.includes(preset));
+    if (pattern && isValidPattern(pattern)) {
+      masks.push({ pattern });
+    }
+    updateOption('masks', masks.length > 0 ? masks : undefined);
+  };
+
   return (
     <div className="controls-panel">
       <h3 className="panel-title">Options</h3>
@@ -41,6 +126,142 @@ const Controls: React.FC<ControlsProps> = ({
           <option value="character">Character</option>
           <option value="sentence">Sentence</option>
           <option value="paragraph">Paragraph</option>
+          <option value="hierarchical">Hierarchical</option>
+          <option value="markdown">Markdown</option>
+          <option value="code">Code</option>
+          <option value="json">JSON</option>
+          <option value="csv">CSV / TSV</option>
+        </select>
+      </div>
+
+      {(options.granularity === 'word' || options.granularity === 'character' || options.granularity === 'sentence'
+        || options.granularity === 'hierarchical') && (
+        <div className="control-group">
+          <label className="control-label">Locale</label>
+          <select
+            className="control-select"
+            value={options.locale || ''}
+            onChange={(e) => updateOption('locale', e.target.value || undefined)}
+          >
+            <option value="">None (split on spaces)</option>
+            {LOCALES.map(({ locale, label }) => (
+              <option key={locale} value={locale}>{label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {options.granularity === 'json' && (
+        <>
+          <div className="control-group">
+            <label className="control-label">Array Key</label>
+            <input
+              type="text"
+              className="control-input"
+              placeholder="e.g. id"
+              value={options.arrayKey || ''}
+              onChange={(e) => updateOption('arrayKey', e.target.value || undefined)}
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-checkbox">
+              <input
+                type="checkbox"
+                checked={options.ignoreKeyOrder !== false}
+                onChange={(e) => updateOption('ignoreKeyOrder', e.target.checked)}
+              />
+              Ignore Key Order
+            </label>
+          </div>
+        </>
+      )}
+
+      {options.granularity === 'csv' && (
+        <>
+          <div className="control-group">
+            <label className="control-label">Key Columns</label>
+            <input
+              type="text"
+              className="control-input"
+              placeholder="e.g. id, sku"
+              value={keyColumnsText}
+              onChange={(e) => {
+                setKeyColumnsText(e.target.value);
+                const keys = e.target.value.split(',').map(key => key.trim()).filter(key => key.length > 0);
+                updateOption('keyColumns', keys.length > 0 ? keys : undefined);
+              }}
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-label">Delimiter</label>
+            <select
+              className="control-select"
+              value={options.delimiter || ''}
+              onChange={(e) => updateOption('delimiter', e.target.value || undefined)}
+            >
+              <option value="">Detect</option>
+              <option value=",">Comma</option>
+              <option value={'\t'}>Tab</option>
+              <option value=";">Semicolon</option>
+              <option value="|">Pipe</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      {options.granularity === 'code' && (
+        <>
+          <div className="control-group">
+            <label className="control-label">Language</label>
+            <select
+              className="control-select"
+              value={options.language || 'javascript'}
+              onChange={(e) => updateOption('language', e.target.value as DiffOptions['language'])}
+            >
+              <option value="javascript">JavaScript</option>
+              <option value="typescript">TypeScript</option>
+              <option value="python">Python</option>
+              <option value="json">JSON</option>
+              <option value="shell">Shell</option>
+            </select>
+          </div>
+
+          <div className="control-group">
+            <label className="control-checkbox">
+              <input
+                type="checkbox"
+                checked={options.ignoreComments || false}
+                onChange={(e) => updateOption('ignoreComments', e.target.checked)}
+              />
+              Ignore Comments
+            </label>
+          </div>
+
+          <div className="control-group">
+            <label className="control-checkbox">
+              <input
+                type="checkbox"
+                checked={options.ignoreStringContents || false}
+                onChange={(e) => updateOption('ignoreStringContents', e.target.checked)}
+              />
+              Ignore String Contents
+            </label>
+          </div>
+        </>
+      )}
+
+      <div className="control-group">
+        <label className="control-label">Algorithm</label>
+        <select
+          className="control-select"
+          value={options.algorithm || 'myers'}
+          onChange={(e) => updateOption('algorithm', e.target.value as DiffOptions['algorithm'])}
+        >
+          <option value="myers">Myers</option>
+          <option value="patience">Patience</option>
+          <option value="histogram">Histogram</option>
         </select>
       </div>
 
@@ -66,6 +287,61 @@ const Controls: React.FC<ControlsProps> = ({
         </label>
       </div>
 
+      {NORMALIZER_TOGGLES.map(({ normalizer, label }) => (
+        <div className="control-group" key={normalizer}>
+          <label className="control-checkbox">
+            <input
+              type="checkbox"
+              checked={normalizers.includes(normalizer)}
+              onChange={(e) => toggleNormalizer(normalizer, e.target.checked)}
+            />
+            {label}
+          </label>
+        </div>
+      ))}
+
+      <div className="control-group">
+        <label className="control-label">Unicode Normalization</label>
+        <select
+          className="control-select"
+          value={unicodeForm}
+          onChange={(e) => setNormalizers(n =>
+            n === 'nfc' || n === 'nfkc' ? n === e.target.value : normalizers.includes(n)
+          )}
+        >
+          <option value="">None</option>
+          <option value="nfc">NFC</option>
+          <option value="nfkc">NFKC</option>
+        </select>
+      </div>
+
+      <div className="control-group">
+        <label className="control-label">Mask Volatile Tokens</label>
+        {MASK_PRESETS.map(({ preset, label }) => (
+          <label className="control-checkbox" key={preset}>
+            <input
+              type="checkbox"
+              checked={maskPresets.includes(preset)}
+              onChange={(e) => setMasks(
+                e.target.checked ? [...maskPresets, preset] : maskPresets.filter(p => p !== preset),
+                maskPattern
+              )}
+            />
+            {label}
+          </label>
+        ))}
+        <input
+          type="text"
+          className={`control-input ${maskPattern && !isValidPattern(maskPattern) ? 'invalid' : ''}`}
+          placeholder="Custom regex, e.g. REQ-\d+"
+          value={maskPattern}
+          onChange={(e) => {
+            setMaskPattern(e.target.value);
+            setMasks(maskPresets, e.target.value);
+          }}
+        />
+      </div>
+
       <div className="control-group">
         <label className="control-checkbox">
           <input
@@ -78,20 +354,35 @@ const Controls: React.FC<ControlsProps> = ({
       </div>
 
       {options.semanticAnalysis && (
-        <div className="control-group">
-          <label className="control-label">
-            Similarity Threshold: {((options.similarityThreshold || 0.5) * 100).toFixed(0)}%
-          </label>
-          <input
-            type="range"
-            min="0"
-            max="1"
-            step="0.1"
-            value={options.similarityThreshold || 0.5}
-            onChange={(e) => updateOption('similarityThreshold', parseFloat(e.target.value))}
-            className="control-range"
-          />
-        </div>
+        <>
+          <div className="control-group">
+            <label className="control-label">
+              Similarity Threshold: {((options.similarityThreshold || 0.5) * 100).toFixed(0)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.1"
+              value={options.similarityThreshold || 0.5}
+              onChange={(e) => updateOption('similarityThreshold', parseFloat(e.target.value))}
+              className="control-range"
+            />
+          </div>
+
+          <div className="control-group">
+            <label className="control-label">Similarity Scorer</label>
+            <select
+              className="control-select"
+              value={typeof options.similarityScorer === 'string' ? options.similarityScorer : 'jaccard'}
+              onChange={(e) => updateOption('similarityScorer', e.target.value === 'jaccard' ? undefined : e.target.value)}
+            >
+              {SIMILARITY_SCORERS.map(({ scorer, label }) => (
+                <option key={scorer} value={scorer}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </>
       )}
 
       <div className="control-group">
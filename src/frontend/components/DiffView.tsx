@@ -1,19 +1,378 @@
 import React, { useState, useMemo } from 'react';
-import type { DiffChange } from '../../core.js';
+import type { ChangeCategory, DiffChange, DiffSegment, MaskedSpan, TableCell, TableColumn, TextRange } from '../../core.js';
 
 interface DiffViewProps {
   changes: DiffChange[];
+  /** Columns of a CSV diff, which is shown as a table */
+  columns?: TableColumn[];
   loading?: boolean;
 }
 
-const DiffView: React.FC<DiffViewProps> = ({ changes, loading }) => {
+const CATEGORY_FILTERS: { category: ChangeCategory; label: string }[] = [
+  { category: 'whitespace', label: 'Whitespace' },
+  { category: 'case', label: 'Case' },
+  { category: 'punctuation', label: 'Punctuation' },
+  { category: 'number', label: 'Numbers' },
+  { category: 'typo', label: 'Typos' },
+  { category: 'reorder', label: 'Reordered' },
+  { category: 'rephrase', label: 'Rephrased' },
+  { category: 'rewrite', label: 'Rewritten' },
+];
+
+/**
+ * Labels a change's position: the line number, or line:column below line granularity
+ */
+function formatPosition(line: number | undefined, range: TextRange | undefined) {
+  if (line !== undefined) return line;
+  return range ? `${range.start.line}:${range.start.column}` : '';
+}
+
+/**
+ * Renders text with the parts a mask matched dimmed; `offset` is where the
+ * text starts in the change's text, which the spans are relative to
+ */
+function renderMasked(text: string, masks: MaskedSpan[] | undefined, offset = 0): React.ReactNode {
+  if (!masks || masks.length === 0) return text;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const span of masks) {
+    const start = Math.max(span.start - offset, cursor);
+    const end = Math.min(span.end - offset, text.length);
+    if (end <= start) continue;
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <span key={start} className="masked" title={`Masked: ${span.mask}`}>
+        {text.slice(start, end)}
+      </span>
+    );
+    cursor = end;
+  }
+  parts.push(text.slice(cursor));
+  return parts;
+}
+
+/**
+ * Renders one side of a modified change, marking the edited segments
+ */
+function renderSegments(segments: DiffSegment[], side: 'removed' | 'added', masks?: MaskedSpan[]) {
+  let offset = 0;
+  return segments
+    .filter(segment => segment.type === 'equal' || segment.type === side)
+    .map((segment, index) => {
+      const start = offset;
+      offset += segment.text.length;
+      return (
+        <span key={index} className={segment.type === 'equal' ? undefined : `segment-${side}`}>
+          {renderMasked(segment.text, masks, start)}
+        </span>
+      );
+    });
+}
+
+/**
+ * A line of the JSON tree: a change, or a container that only holds changes
+ */
+interface JsonRow {
+  /** Keys from the root, joined; shared by a container and its heading change */
+  id: string;
+  label: string;
+  depth: number;
+  /** Whether rows below it can be collapsed */
+  group: boolean;
+  change?: DiffChange;
+  index?: number;
+}
+
+function jsonKeyLabel(key: string | number) {
+  return typeof key === 'number' ? `[${key}]` : key;
+}
+
+/**
+ * Lays out JSON changes as a tree. Changes arrive in document order, so a
+ * container row is opened whenever a change's path leaves the current one.
+ */
+function buildJsonRows(entries: Array<{ change: DiffChange; index: number }>): JsonRow[] {
+  const rows: JsonRow[] = [];
+  const open: string[] = [];
+
+  for (const { change, index } of entries) {
+    const keys = change.pathKeys || [];
+    const idAt = (length: number) => JSON.stringify(keys.slice(0, length));
+
+    let depth = 0;
+    while (depth < open.length && depth < keys.length - 1 && open[depth] === idAt(depth + 1)) {
+      depth++;
+    }
+    open.length = depth;
+    for (; depth < keys.length - 1; depth++) {
+      rows.push({ id: idAt(depth + 1), label: jsonKeyLabel(keys[depth]), depth, group: true });
+      open.push(idAt(depth + 1));
+    }
+
+    // A change to a whole object (its key order) heads the rows of its members
+    const heads = keys.length > 0 && change.type === 'modified' && change.valueTypes?.original === 'object'
+      && change.valueTypes.modified === 'object';
+    rows.push({
+      id: idAt(keys.length),
+      label: keys.length > 0 ? jsonKeyLabel(keys[keys.length - 1]) : '$',
+      depth: Math.max(keys.length - 1, 0),
+      group: heads,
+      change,
+      index,
+    });
+    if (heads) {
+      open.push(idAt(keys.length));
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Lines up a row's cells with the table columns; a row has no cell in a
+ * column that only the other table has
+ */
+function alignCells(columns: TableColumn[], cells: TableCell[]): Array<TableCell | undefined> {
+  let next = 0;
+  return columns.map(column => (cells[next]?.column === column.name ? cells[next++] : undefined));
+}
+
+const DiffView: React.FC<DiffViewProps> = ({ changes, columns, loading }) => {
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
-  const [filter, setFilter] = useState<'all' | 'added' | 'removed' | 'modified'>('all');
+  const [filter, setFilter] = useState<'all' | 'added' | 'removed' | 'modified' | 'moved'>('all');
+  const [hiddenCategories, setHiddenCategories] = useState<Set<ChangeCategory>>(new Set());
+  const [segmentLevel, setSegmentLevel] = useState<'words' | 'characters'>('words');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // Nodes of a hierarchical diff start collapsed
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // JSON diffs address every change by path and are shown as a tree
+  const isJson = changes.length > 0 && changes.every(c => c.pathKeys !== undefined);
 
   const filteredChanges = useMemo(() => {
-    if (filter === 'all') return changes;
-    return changes.filter(c => c.type === filter);
-  }, [changes, filter]);
+    return changes.filter(c =>
+      (filter === 'all' || c.type === filter) && !(c.category && hiddenCategories.has(c.category))
+    );
+  }, [changes, filter, hiddenCategories]);
+
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<ChangeCategory, number>();
+    for (const change of changes) {
+      if (change.category) counts.set(change.category, (counts.get(change.category) || 0) + 1);
+    }
+    return counts;
+  }, [changes]);
+
+  const toggleCategory = (category: ChangeCategory) => {
+    setHiddenCategories(previous => {
+      const next = new Set(previous);
+      if (next.has(category)) {
+        next.delete(category);
+      } else {
+        next.add(category);
+      }
+      return next;
+    });
+  };
+
+  const jsonRows = useMemo(() => {
+    if (!isJson) return [];
+    return buildJsonRows(filteredChanges.map(change => ({ change, index: changes.indexOf(change) })));
+  }, [isJson, filteredChanges, changes]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * The button that opens the changes one level down in a hierarchical diff
+   */
+  const renderTreeToggle = (change: DiffChange, id: string) => {
+    if (!change.children || !change.childStats) return null;
+    const { added, removed, modified, moved } = change.childStats;
+    const count = added + removed + modified + moved;
+    const level = change.children[0]?.level ?? 'child';
+    return (
+      <button
+        className="tree-toggle"
+        onClick={e => {
+          e.stopPropagation();
+          toggleExpanded(id);
+        }}
+      >
+        {expanded.has(id) ? '▾' : '▸'} {count} {level} change{count !== 1 ? 's' : ''}
+      </button>
+    );
+  };
+
+  /**
+   * Lists the changed children of an expanded node, each expandable in turn;
+   * unchanged sentences and words are left out
+   */
+  const renderChangeTree = (change: DiffChange, id: string): React.ReactNode => {
+    if (!change.children || !expanded.has(id)) return null;
+    return (
+      <ul className="change-tree">
+        {change.children.map((child, k) => child.type !== 'unchanged' && (
+          <li key={k} className={`tree-node diff-${child.type}`}>
+            <span className="tree-level">{child.level}</span>
+            {child.category && <span className={`change-category category-${child.category}`}>{child.category}</span>}
+            {child.original !== undefined && (
+              <span className="diff-text highlight">
+                {child.segments
+                  ? renderSegments(child.segments[segmentLevel], 'removed', child.originalMasks)
+                  : renderMasked(child.original, child.originalMasks)}
+              </span>
+            )}
+            {child.original !== undefined && child.modified !== undefined && <span className="json-arrow">→</span>}
+            {child.modified !== undefined && (
+              <span className="diff-text highlight">
+                {child.segments
+                  ? renderSegments(child.segments[segmentLevel], 'added', child.modifiedMasks)
+                  : renderMasked(child.modified, child.modifiedMasks)}
+              </span>
+            )}
+            {renderTreeToggle(child, `${id}/${k}`)}
+            {renderChangeTree(child, `${id}/${k}`)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderJsonTree = () => {
+    let hiddenBelow: number | null = null;
+    return jsonRows.map((row, position) => {
+      if (hiddenBelow !== null && row.depth > hiddenBelow) return null;
+      hiddenBelow = row.group && collapsed.has(row.id) ? row.depth : null;
+
+      const { change, index } = row;
+      const typeChanged = change?.valueTypes?.original && change.valueTypes.modified
+        && change.valueTypes.original !== change.valueTypes.modified;
+
+      return (
+        <div
+          key={position}
+          data-change-index={index}
+          className={`json-row ${change ? `diff-${change.type}` : 'json-group'} ${index !== undefined && selectedIndex === index ? 'selected' : ''} ${change && change.type !== 'unchanged' ? 'interactive' : ''}`}
+          style={{ paddingLeft: `${row.depth * 1.25 + 0.5}rem` }}
+          title={change?.path}
+          onClick={() => change && change.type !== 'unchanged' && setSelectedIndex(index!)}
+        >
+          <span className="json-toggle">
+            {row.group && (
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  toggleCollapsed(row.id);
+                }}
+              >
+                {collapsed.has(row.id) ? '▸' : '▾'}
+              </button>
+            )}
+          </span>
+          <span className="json-key">{row.label}</span>
+          {change?.type === 'removed' && (
+            <span className="json-value diff-text highlight">{renderMasked(change.original!, change.originalMasks)}</span>
+          )}
+          {change?.type === 'added' && (
+            <span className="json-value diff-text highlight">{renderMasked(change.modified!, change.modifiedMasks)}</span>
+          )}
+          {change?.type === 'unchanged' && (
+            <span className="json-value">{renderMasked(change.original!, change.originalMasks)}</span>
+          )}
+          {change?.type === 'modified' && (
+            <span className="json-value">
+              <span className="diff-text highlight">
+                {change.segments
+                  ? renderSegments(change.segments[segmentLevel], 'removed', change.originalMasks)
+                  : renderMasked(change.original!, change.originalMasks)}
+              </span>
+              <span className="json-arrow">→</span>
+              <span className="diff-text highlight">
+                {change.segments
+                  ? renderSegments(change.segments[segmentLevel], 'added', change.modifiedMasks)
+                  : renderMasked(change.modified!, change.modifiedMasks)}
+              </span>
+            </span>
+          )}
+          {typeChanged && (
+            <span className="json-type-change">
+              {change!.valueTypes!.original} → {change!.valueTypes!.modified}
+            </span>
+          )}
+          {change?.explanation && !typeChanged && (
+            <span className="json-note">{change.explanation}</span>
+          )}
+        </div>
+      );
+    });
+  };
+
+  const renderTable = () => (
+    <table className="csv-table">
+      <thead>
+        <tr>
+          <th className="csv-line">Line</th>
+          {columns!.map((column, k) => (
+            <th key={k} className={`csv-column-${column.type}`} title={column.key ? 'Key column' : undefined}>
+              {column.name}
+              {column.key && <span className="csv-key">key</span>}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {filteredChanges.map(change => {
+          const index = changes.indexOf(change);
+          const isChange = change.type !== 'unchanged';
+          return (
+            <tr
+              key={index}
+              data-change-index={index}
+              className={`diff-${change.type} ${selectedIndex === index ? 'selected' : ''} ${isChange ? 'interactive' : ''}`}
+              onClick={() => isChange && setSelectedIndex(index)}
+            >
+              <td className="csv-line">{change.modifiedLine ?? change.originalLine}</td>
+              {alignCells(columns!, change.cells || []).map((cell, k) => (
+                <td key={k} className={cell ? `csv-cell-${cell.type}` : 'csv-cell-empty'}>
+                  {cell?.type === 'modified' ? (
+                    <>
+                      <span className="diff-text highlight">{cell.original}</span>
+                      <span className="json-arrow">→</span>
+                      <span className="diff-text highlight">{cell.modified}</span>
+                    </>
+                  ) : (
+                    cell?.modified ?? cell?.original
+                  )}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
 
   const changeIndices = useMemo(() => {
     return changes
@@ -21,6 +380,14 @@ const DiffView: React.FC<DiffViewProps> = ({ changes, loading }) => {
       .filter(i => i !== -1);
   }, [changes]);
 
+  const selectedMoveId = selectedIndex !== null ? changes[selectedIndex]?.move?.id : undefined;
+
+  const scrollToChange = (index: number) => {
+    setSelectedIndex(index);
+    const element = document.querySelector(`[data-change-index="${index}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   const navigateChange = (direction: 'next' | 'prev') => {
     if (changeIndices.length === 0) return;
     
@@ -39,9 +406,7 @@ const DiffView: React.FC<DiffViewProps> = ({ changes, loading }) => {
         : changeIndices.length - 1;
     }
     
-    setSelectedIndex(changeIndices[newIdx]);
-    const element = document.querySelector(`[data-change-index="${changeIndices[newIdx]}"]`);
-    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    scrollToChange(changeIndices[newIdx]);
   };
 
   React.useEffect(() => {
@@ -97,6 +462,39 @@ const DiffView: React.FC<DiffViewProps> = ({ changes, loading }) => {
           >
             Modified ({changes.filter(c => c.type === 'modified').length})
           </button>
+          <button
+            className={`filter-btn ${filter === 'moved' ? 'active' : ''}`}
+            onClick={() => setFilter('moved')}
+          >
+            Moved ({changes.filter(c => c.type === 'moved').length})
+          </button>
+        </div>
+        {categoryCounts.size > 0 && (
+          <div className="category-filters" title="Show or hide changes by kind of edit">
+            {CATEGORY_FILTERS.filter(({ category }) => categoryCounts.has(category)).map(({ category, label }) => (
+              <button
+                key={category}
+                className={`filter-btn category-${category} ${hiddenCategories.has(category) ? '' : 'active'}`}
+                onClick={() => toggleCategory(category)}
+              >
+                {label} ({categoryCounts.get(category)})
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="segment-level">
+          <button
+            className={`filter-btn ${segmentLevel === 'words' ? 'active' : ''}`}
+            onClick={() => setSegmentLevel('words')}
+          >
+            Words
+          </button>
+          <button
+            className={`filter-btn ${segmentLevel === 'characters' ? 'active' : ''}`}
+            onClick={() => setSegmentLevel('characters')}
+          >
+            Chars
+          </button>
         </div>
         {changeIndices.length > 0 && (
           <div className="diff-navigation">
@@ -109,73 +507,126 @@ const DiffView: React.FC<DiffViewProps> = ({ changes, loading }) => {
         )}
       </div>
 
-      <div className="diff-output">
-        <div className="diff-header">
-          <div className="diff-header-cell">Line</div>
-          <div className="diff-header-cell">Original</div>
-          <div className="diff-header-cell">Line</div>
-          <div className="diff-header-cell">Modified</div>
+      {isJson ? (
+        <div className="diff-output json-tree">
+          <div className="diff-content">{renderJsonTree()}</div>
         </div>
-        <div className="diff-content">
-          {filteredChanges.map((change, index) => {
-            const actualIndex = changes.indexOf(change);
-            const isSelected = selectedIndex === actualIndex;
-            const isChange = change.type !== 'unchanged';
-            
-            return (
-              <div
-                key={actualIndex}
-                data-change-index={actualIndex}
-                className={`diff-line diff-${change.type} ${isSelected ? 'selected' : ''} ${isChange ? 'interactive' : ''}`}
-                onClick={() => isChange && setSelectedIndex(actualIndex)}
-              >
-                <div className={`diff-line-number ${change.originalLine === undefined ? 'empty' : ''}`}>
-                  {change.originalLine || ''}
-                </div>
-                <div className="diff-content-cell">
-                  {change.original && (
-                    <span className={`diff-text ${change.type === 'removed' || change.type === 'modified' ? 'highlight' : ''}`}>
-                      {change.original}
-                    </span>
-                  )}
-                  {change.explanation && (
-                    <div className="change-explanation">{change.explanation}</div>
-                  )}
-                  {change.similarity !== undefined && (
-                    <div className="similarity-badge">
-                      {Math.round(change.similarity * 100)}% similar
+      ) : columns ? (
+        <div className="diff-output csv-output">{renderTable()}</div>
+      ) : (
+        <div className="diff-output">
+          <div className="diff-header">
+            <div className="diff-header-cell">Line</div>
+            <div className="diff-header-cell">Original</div>
+            <div className="diff-header-cell">Line</div>
+            <div className="diff-header-cell">Modified</div>
+          </div>
+          <div className="diff-content">
+            {filteredChanges.map((change, index) => {
+              const actualIndex = changes.indexOf(change);
+              const isSelected = selectedIndex === actualIndex;
+              const isChange = change.type !== 'unchanged';
+              const move = change.move;
+              const isLinked = move !== undefined && move.id === selectedMoveId;
+              // Only the first line of each moved block links to the other end
+              const moveTarget = move && actualIndex === (move.side === 'source' ? move.sourceIndex : move.destinationIndex)
+                ? (move.side === 'source' ? move.destinationIndex : move.sourceIndex)
+                : undefined;
+              
+              return (
+                <React.Fragment key={actualIndex}>
+                  <div
+                    data-change-index={actualIndex}
+                    className={`diff-line diff-${change.type} ${isSelected ? 'selected' : ''} ${isChange ? 'interactive' : ''} ${isLinked ? 'move-linked' : ''}`}
+                    onClick={() => isChange && setSelectedIndex(actualIndex)}
+                  >
+                    <div className={`diff-line-number ${change.originalRange === undefined ? 'empty' : ''}`}>
+                      {formatPosition(change.originalLine, change.originalRange)}
                     </div>
-                  )}
-                </div>
-                <div className={`diff-line-number ${change.modifiedLine === undefined ? 'empty' : ''}`}>
-                  {change.modifiedLine || ''}
-                </div>
-                <div className="diff-content-cell">
-                  {change.modified && (
-                    <span className={`diff-text ${change.type === 'added' || change.type === 'modified' ? 'highlight' : ''}`}>
-                      {change.modified}
-                    </span>
-                  )}
-                  {change.keyWords && (
-                    <div className="key-words">
-                      {change.keyWords.added.length > 0 && (
-                        <span className="key-words-added">
-                          +{change.keyWords.added.slice(0, 3).join(', ')}
+                    <div className="diff-content-cell">
+                      {isChange && change.headingPath && change.headingPath.length > 0 && (
+                        <div className="heading-path">{change.headingPath.join(' › ')}</div>
+                      )}
+                      {isChange && change.tokenKind && (
+                        <span className={`token-kind token-${change.tokenKind}`}>{change.tokenKind}</span>
+                      )}
+                      {change.category && (
+                        <span className={`change-category category-${change.category}`}>{change.category}</span>
+                      )}
+                      {change.original && (
+                        <span className={`diff-text ${change.type === 'removed' || change.type === 'modified' || change.type === 'moved' ? 'highlight' : ''}`}>
+                          {change.segments
+                            ? renderSegments(change.segments[segmentLevel], 'removed', change.originalMasks)
+                            : renderMasked(change.original!, change.originalMasks)}
                         </span>
                       )}
-                      {change.keyWords.removed.length > 0 && (
-                        <span className="key-words-removed">
-                          -{change.keyWords.removed.slice(0, 3).join(', ')}
+                      {move?.side === 'source' && moveTarget !== undefined && (
+                        <button
+                          className="move-link"
+                          onClick={e => {
+                            e.stopPropagation();
+                            scrollToChange(moveTarget);
+                          }}
+                        >
+                          Moved to {move.destinationLine !== undefined ? `line ${move.destinationLine}` : 'destination'}
+                          {move.similarity < 1 && ` (${Math.round(move.similarity * 100)}% similar)`}
+                        </button>
+                      )}
+                      {change.explanation && change.type !== 'moved' && (
+                        <div className="change-explanation">{change.explanation}</div>
+                      )}
+                      {renderTreeToggle(change, String(actualIndex))}
+                      {change.similarity !== undefined && (
+                        <div className="similarity-badge">
+                          {Math.round(change.similarity * 100)}% similar
+                        </div>
+                      )}
+                    </div>
+                    <div className={`diff-line-number ${change.modifiedRange === undefined ? 'empty' : ''}`}>
+                      {formatPosition(change.modifiedLine, change.modifiedRange)}
+                    </div>
+                    <div className="diff-content-cell">
+                      {change.modified && (
+                        <span className={`diff-text ${change.type === 'added' || change.type === 'modified' || change.type === 'moved' ? 'highlight' : ''}`}>
+                          {change.segments
+                            ? renderSegments(change.segments[segmentLevel], 'added', change.modifiedMasks)
+                            : renderMasked(change.modified!, change.modifiedMasks)}
                         </span>
                       )}
+                      {move?.side === 'destination' && moveTarget !== undefined && (
+                        <button
+                          className="move-link"
+                          onClick={e => {
+                            e.stopPropagation();
+                            scrollToChange(moveTarget);
+                          }}
+                        >
+                          Moved from {move.sourceLine !== undefined ? `line ${move.sourceLine}` : 'source'}
+                        </button>
+                      )}
+                      {change.keyWords && (
+                        <div className="key-words">
+                          {change.keyWords.added.length > 0 && (
+                            <span className="key-words-added">
+                              +{change.keyWords.added.slice(0, 3).join(', ')}
+                            </span>
+                          )}
+                          {change.keyWords.removed.length > 0 && (
+                            <span className="key-words-removed">
+                              -{change.keyWords.removed.slice(0, 3).join(', ')}
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              </div>
-            );
-          })}
+                  </div>
+                  {renderChangeTree(change, String(actualIndex))}
+                </React.Fragment>
+              );
+            })}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -1,10 +1,12 @@
 import React from 'react';
+import type { QuantityDelta } from '../../core.js';
 
 interface SemanticAnalysisProps {
   summary: {
     summary: string;
     impact: 'low' | 'medium' | 'high';
     recommendations: string[];
+    quantities?: QuantityDelta[];
   };
   analysis?: {
     original: any;
@@ -12,6 +14,22 @@ interface SemanticAnalysisProps {
   };
 }
 
+/**
+ * Signed change of a figure, e.g. "+$300 (+25%)", "+14 days" or "+5 pts"
+ */
+function formatDelta(quantity: QuantityDelta): string {
+  const sign = quantity.delta < 0 ? '−' : '+';
+  const amount = Math.abs(quantity.delta).toLocaleString(undefined, { maximumFractionDigits: 4 });
+  const change = quantity.kind === 'currency' && !/^[A-Z]{3}$/.test(quantity.unit!)
+    ? `${sign}${quantity.unit}${amount}`
+    : `${sign}${amount}${
+      quantity.kind === 'percentage' ? ' pts' : quantity.kind === 'date' ? ' days' : quantity.unit ? ` ${quantity.unit}` : ''
+    }`;
+  return quantity.relativeChange !== undefined
+    ? `${change} (${sign}${Math.round(Math.abs(quantity.relativeChange) * 1000) / 10}%)`
+    : change;
+}
+
 const SemanticAnalysis: React.FC<SemanticAnalysisProps> = ({ summary, analysis }) => {
   const impactColors = {
     low: 'var(--success)',
@@ -44,6 +62,22 @@ const SemanticAnalysis: React.FC<SemanticAnalysisProps> = ({ summary, analysis }
         </div>
       )}
 
+      {summary.quantities && summary.quantities.length > 0 && (
+        <div className="quantity-changes">
+          <h4>Changed Figures:</h4>
+          <ul>
+            {summary.quantities.map((quantity, i) => (
+              <li key={i} className={`quantity-${quantity.kind}`}>
+                <span className="quantity-original">{quantity.original}</span>
+                <span className="quantity-arrow">→</span>
+                <span className="quantity-modified">{quantity.modified}</span>
+                <span className="quantity-delta">{formatDelta(quantity)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {analysis && (
         <div className="text-analysis">
           <h4>Text Analysis</h4>
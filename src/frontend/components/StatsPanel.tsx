@@ -6,6 +6,7 @@ interface StatsPanelProps {
     removed: number;
     modified: number;
     unchanged: number;
+    moved?: number;
   };
   insights?: {
     totalChanges: number;
@@ -31,6 +32,10 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ stats, insights }) => {
           <div className="stat-value">{stats.modified}</div>
           <div className="stat-label">Modified</div>
         </div>
+        <div className="stat-card stat-moved">
+          <div className="stat-value">{stats.moved ?? 0}</div>
+          <div className="stat-label">Moved</div>
+        </div>
         <div className="stat-card stat-unchanged">
           <div className="stat-value">{stats.unchanged}</div>
           <div className="stat-label">Unchanged</div>
@@ -1,5 +1,5 @@
-import { useState, useCallback } from 'react';
-import type { DiffResult, DiffOptions } from '../../core.js';
+import { useState, useCallback, useRef } from 'react';
+import type { DiffResult, DiffOptions, DiffChange } from '../../core.js';
 
 interface DiffResponse extends DiffResult {
   insights?: any;
@@ -14,6 +14,15 @@ export function useDiff() {
   const [diffResult, setDiffResult] = useState<DiffResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update state; starting a new one aborts the last
+  const inFlight = useRef<AbortController | null>(null);
+
+  const startRequest = useCallback(() => {
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+    return controller;
+  }, []);
 
   const computeDiff = useCallback(async (
     original: string,
@@ -21,10 +30,12 @@ export function useDiff() {
     options: DiffOptions
   ) => {
     if (!original || !modified) {
+      inFlight.current?.abort();
       setDiffResult(null);
       return;
     }
 
+    const controller = startRequest();
     setLoading(true);
     setError(null);
 
@@ -43,6 +54,7 @@ export function useDiff() {
           modified,
           options,
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -53,12 +65,16 @@ export function useDiff() {
       const data = await response.json();
       setDiffResult(data);
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Unknown error');
       setDiffResult(null);
     } finally {
-      setLoading(false);
+      if (inFlight.current === controller) {
+        inFlight.current = null;
+        setLoading(false);
+      }
     }
-  }, []);
+  }, [startRequest]);
 
   const streamDiff = useCallback(async (
     original: string,
@@ -71,6 +87,7 @@ export function useDiff() {
       return;
     }
 
+    const controller = startRequest();
     setLoading(true);
     setError(null);
 
@@ -85,6 +102,7 @@ export function useDiff() {
           modified,
           options: { ...options, semanticAnalysis: true },
         }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -99,6 +117,8 @@ export function useDiff() {
       }
 
       let buffer = '';
+      // Progress events only carry new changes, so collect them here
+      const streamed: DiffChange[] = [];
 
       while (true) {
         const { done, value } = await reader.read();
@@ -113,10 +133,12 @@ export function useDiff() {
             const data = JSON.parse(line.slice(6));
             
             if (data.type === 'progress') {
-              onProgress?.(data.progress, data.partial);
+              streamed.push(...data.changes);
+              onProgress?.(data.progress, { changes: streamed, stats: data.stats });
             } else if (data.type === 'complete') {
               setDiffResult(data.data);
               onComplete?.(data.data);
+              inFlight.current = null;
               setLoading(false);
               return;
             } else if (data.type === 'error') {
@@ -126,10 +148,12 @@ export function useDiff() {
         }
       }
     } catch (err) {
+      if (controller.signal.aborted) return;
+      inFlight.current = null;
       setError(err instanceof Error ? err.message : 'Unknown error');
       setLoading(false);
     }
-  }, []);
+  }, [startRequest]);
 
   return {
     diffResult,
@@ -2,7 +2,27 @@
  * Text diff tool - Main library exports
  */
 
-export { diff, formatDiff, formatDiffJson, streamDiff, analyzeText, summarizeChanges } from './core.js';
+export {
+  diff,
+  formatDiff,
+  formatDiffJson,
+  formatUnifiedDiff,
+  parsePatch,
+  parseCsv,
+  applyPatch,
+  merge3,
+  streamDiff,
+  analyzeText,
+  summarizeChanges,
+  describeQuantityDelta,
+  detectLanguage,
+  registerSimilarityScorer,
+  listSimilarityScorers,
+  diffWithEmbeddings,
+  embedTexts,
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+} from './core.js';
 export {
   findNextChange,
   findPreviousChange,
@@ -12,4 +32,44 @@ export {
   computeCharacterDiff,
 } from './core.js';
 export { VERSION } from './utils.js';
-export type { DiffChange, DiffResult, DiffOptions } from './core.js';
+export type {
+  DiffChange,
+  ChangeCategory,
+  QuantityKind,
+  QuantityDelta,
+  DiffResult,
+  DiffMove,
+  DiffLevel,
+  DiffStreamEvent,
+  DiffSegment,
+  JsonValueType,
+  MarkdownBlockType,
+  CodeLanguage,
+  CodeTokenKind,
+  TableColumn,
+  TableCell,
+  CsvTable,
+  CsvRecord,
+  TextPosition,
+  TextRange,
+  DiffOptions,
+  DiffNormalizer,
+  DiffMask,
+  DiffMaskPreset,
+  DiffMaskPattern,
+  MaskedSpan,
+  DiffAlgorithm,
+  DiffBudgetReason,
+  SimilarityScorer,
+  EmbeddingProvider,
+  OpenAIEmbeddingProviderOptions,
+  UnifiedDiffOptions,
+  PatchLine,
+  PatchHunk,
+  ParsedPatch,
+  ApplyPatchOptions,
+  ApplyPatchResult,
+  Merge3Options,
+  Merge3Conflict,
+  Merge3Result,
+} from './core.js';
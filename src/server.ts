@@ -12,9 +12,38 @@ import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { createServer } from 'http';
-import { diff, streamDiff, analyzeText, summarizeChanges } from './core.js';
-import type { DiffOptions } from './core.js';
-import { VERSION, diffCache, diffRateLimiter, apiRateLimiter, metrics } from './utils.js';
+import {
+  analyzeText,
+  summarizeChanges,
+  formatUnifiedDiff,
+  parsePatch,
+  parseCsv,
+  applyPatch,
+  merge3,
+  jsonNestingDepth,
+  JSON_MAX_DEPTH,
+  listSimilarityScorers,
+  diffWithEmbeddings,
+} from './core.js';
+import type {
+  DiffChange,
+  DiffOptions,
+  UnifiedDiffOptions,
+  ApplyPatchOptions,
+  ParsedPatch,
+  Merge3Options,
+} from './core.js';
+import {
+  VERSION,
+  diffCache,
+  diffRateLimiter,
+  apiRateLimiter,
+  metrics,
+  diffPool,
+  embeddingProvider,
+  PoolQueueFullError,
+  PoolTimeoutError,
+} from './utils.js';
 import {
   computeDiffInsights,
   getAllChangeIndices,
@@ -61,6 +90,17 @@ export function requestLogger(req: Request, res: Response, next: NextFunction) {
     );
   });
 
+  // The connection closed before the response was complete: the client gave up
+  res.on('close', () => {
+    if (res.writableFinished) {
+      return;
+    }
+    metrics.recordAborted(`${req.method} ${req.path}`);
+    console.log(
+      `[${timestamp}] [${requestId}] ${req.method} ${req.path} - aborted - ${Date.now() - start}ms`
+    );
+  });
+
   next();
 }
 
@@ -144,7 +184,9 @@ export function validateDiffRequest(req: Request, res: Response, next: NextFunct
     }
 
     if (options.granularity !== undefined) {
-      const validGranularities = ['line', 'word', 'character'];
+      const validGranularities = [
+        'line', 'word', 'character', 'sentence', 'paragraph', 'markdown', 'code', 'json', 'csv', 'hierarchical',
+      ];
       if (!validGranularities.includes(options.granularity)) {
         return res.status(400).json({
           error: 'Invalid granularity',
@@ -172,6 +214,474 @@ export function validateDiffRequest(req: Request, res: Response, next: NextFunct
         requestId: req.id,
       });
     }
+
+    if (options.detectMoves !== undefined && typeof options.detectMoves !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"detectMoves" must be a boolean',
+        requestId: req.id,
+      });
+    }
+
+    if (options.ignoreKeyOrder !== undefined && typeof options.ignoreKeyOrder !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"ignoreKeyOrder" must be a boolean',
+        requestId: req.id,
+      });
+    }
+
+    if (options.arrayKey !== undefined && typeof options.arrayKey !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"arrayKey" must be a string',
+        requestId: req.id,
+      });
+    }
+
+    for (const flag of ['ignoreComments', 'ignoreStringContents'] as const) {
+      if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: `"${flag}" must be a boolean`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.language !== undefined) {
+      const validLanguages = ['javascript', 'typescript', 'python', 'json', 'shell'];
+      if (!validLanguages.includes(options.language)) {
+        return res.status(400).json({
+          error: 'Invalid language',
+          errorCode: 'INVALID_LANGUAGE',
+          details: `language must be one of: ${validLanguages.join(', ')}`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.normalizers !== undefined) {
+      const validNormalizers = ['lineEndings', 'trailingWhitespace', 'blankLines', 'nfc', 'nfkc', 'quotes', 'dashes'];
+      if (
+        !Array.isArray(options.normalizers)
+        || options.normalizers.some((name: unknown) => typeof name !== 'string' || !validNormalizers.includes(name))
+      ) {
+        return res.status(400).json({
+          error: 'Invalid normalizer',
+          errorCode: 'INVALID_NORMALIZER',
+          details: `normalizers must be an array of: ${validNormalizers.join(', ')}`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.masks !== undefined) {
+      const validPresets = ['iso-date', 'uuid', 'hex-hash', 'ip', 'number'];
+      const maskError = (details: string) => res.status(400).json({
+        error: 'Invalid mask',
+        errorCode: 'INVALID_MASK',
+        details,
+        requestId: req.id,
+      });
+      if (!Array.isArray(options.masks)) {
+        return maskError('"masks" must be an array of presets or { pattern, flags?, name? } objects');
+      }
+      for (const mask of options.masks) {
+        if (typeof mask === 'string') {
+          if (!validPresets.includes(mask)) {
+            return maskError(`Unknown mask preset "${mask}"; presets are: ${validPresets.join(', ')}`);
+          }
+          continue;
+        }
+        if (
+          typeof mask !== 'object' || mask === null || typeof mask.pattern !== 'string'
+          || (mask.flags !== undefined && typeof mask.flags !== 'string')
+          || (mask.name !== undefined && typeof mask.name !== 'string')
+        ) {
+          return maskError('Custom masks must be { pattern: string, flags?: string, name?: string }');
+        }
+        try {
+          new RegExp(mask.pattern, mask.flags);
+        } catch (error) {
+          return maskError(`Mask pattern /${mask.pattern}/ does not compile: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    if (options.locale !== undefined) {
+      let valid = typeof options.locale === 'string' && options.locale.length > 0;
+      try {
+        valid = valid && Intl.getCanonicalLocales(options.locale).length === 1;
+      } catch {
+        valid = false;
+      }
+      if (!valid) {
+        return res.status(400).json({
+          error: 'Invalid locale',
+          errorCode: 'INVALID_LOCALE',
+          details: '"locale" must be a BCP 47 language tag, e.g. "en", "ja" or "zh-Hant"',
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.similarityScorer !== undefined) {
+      const validScorers = listSimilarityScorers();
+      const selection = options.similarityScorer;
+      const valid = typeof selection === 'string'
+        ? validScorers.includes(selection)
+        : typeof selection === 'object' && selection !== null && !Array.isArray(selection)
+          && Object.entries(selection).every(
+            ([name, weight]) => validScorers.includes(name) && typeof weight === 'number' && Number.isFinite(weight) && weight >= 0
+          )
+          && Object.values(selection).some(weight => (weight as number) > 0);
+      if (!valid) {
+        return res.status(400).json({
+          error: 'Invalid similarity scorer',
+          errorCode: 'INVALID_SIMILARITY_SCORER',
+          details: `"similarityScorer" must be one of ${validScorers.join(', ')}, or an object of those names to non-negative weights with at least one positive`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.embeddingVectors !== undefined) {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"embeddingVectors" is filled in by the server\'s embedding provider and cannot be sent',
+        requestId: req.id,
+      });
+    }
+
+    if (options.delimiter !== undefined && (typeof options.delimiter !== 'string' || options.delimiter.length !== 1)) {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"delimiter" must be a single character',
+        requestId: req.id,
+      });
+    }
+
+    if (
+      options.keyColumns !== undefined
+      && (!Array.isArray(options.keyColumns) || options.keyColumns.some((key: unknown) => typeof key !== 'string'))
+    ) {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"keyColumns" must be an array of strings',
+        requestId: req.id,
+      });
+    }
+
+    if (options.granularity === 'csv') {
+      for (const [field, text] of [['original', original], ['modified', modified]]) {
+        let header: string[];
+        try {
+          header = parseCsv(text, options.delimiter).header;
+        } catch (error) {
+          return res.status(400).json({
+            error: 'Invalid CSV',
+            errorCode: 'INVALID_CSV',
+            details: `"${field}" is not valid CSV: ${error instanceof Error ? error.message : 'parse error'}`,
+            requestId: req.id,
+          });
+        }
+        const missing = (options.keyColumns || []).filter((key: string) => !header.includes(key));
+        if (missing.length > 0) {
+          return res.status(400).json({
+            error: 'Invalid key column',
+            errorCode: 'INVALID_KEY_COLUMN',
+            details: `"${field}" has no column named ${missing.map((key: string) => `"${key}"`).join(', ')}`,
+            requestId: req.id,
+          });
+        }
+      }
+    }
+
+    if (options.granularity === 'json') {
+      for (const [field, text] of [['original', original], ['modified', modified]]) {
+        try {
+          JSON.parse(text);
+        } catch (error) {
+          return res.status(400).json({
+            error: 'Invalid JSON',
+            errorCode: 'INVALID_JSON',
+            details: `"${field}" is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+            requestId: req.id,
+          });
+        }
+        if (jsonNestingDepth(text) > JSON_MAX_DEPTH) {
+          return res.status(400).json({
+            error: 'Invalid JSON',
+            errorCode: 'INVALID_JSON',
+            details: `"${field}" nests objects and arrays deeper than ${JSON_MAX_DEPTH} levels`,
+            requestId: req.id,
+          });
+        }
+      }
+    }
+
+    for (const budget of ['timeoutMs', 'maxEditCost'] as const) {
+      const value = options[budget];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: `"${budget}" must be a non-negative number`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.algorithm !== undefined) {
+      const validAlgorithms = ['myers', 'patience', 'histogram'];
+      if (!validAlgorithms.includes(options.algorithm)) {
+        return res.status(400).json({
+          error: 'Invalid algorithm',
+          errorCode: 'INVALID_ALGORITHM',
+          details: `algorithm must be one of: ${validAlgorithms.join(', ')}`,
+          requestId: req.id,
+        });
+      }
+    }
+  }
+
+  next();
+}
+
+export function validateFormatRequest(req: Request, res: Response, next: NextFunction) {
+  const { format, unified, options } = req.body;
+
+  if (format !== undefined) {
+    const validFormats = ['json', 'unified'];
+    if (!validFormats.includes(format)) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        errorCode: 'INVALID_FORMAT',
+        details: `format must be one of: ${validFormats.join(', ')}`,
+        requestId: req.id,
+      });
+    }
+
+    if (format === 'unified' && options?.granularity === 'json') {
+      return res.status(400).json({
+        error: 'Invalid format',
+        errorCode: 'INVALID_FORMAT',
+        details: 'JSON diffs are addressed by path and have no unified form; use format "json"',
+        requestId: req.id,
+      });
+    }
+
+    if (format === 'unified' && options?.granularity === 'csv') {
+      return res.status(400).json({
+        error: 'Invalid format',
+        errorCode: 'INVALID_FORMAT',
+        details: 'CSV diffs match rows by key or content and have no unified form; use format "json"',
+        requestId: req.id,
+      });
+    }
+  }
+
+  if (unified !== undefined) {
+    if (typeof unified !== 'object' || unified === null || Array.isArray(unified)) {
+      return res.status(400).json({
+        error: 'Invalid options',
+        errorCode: 'INVALID_OPTIONS',
+        details: '"unified" must be an object',
+        requestId: req.id,
+      });
+    }
+
+    if (unified.context !== undefined && (!Number.isInteger(unified.context) || unified.context < 0)) {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"unified.context" must be a non-negative integer',
+        requestId: req.id,
+      });
+    }
+
+    for (const key of ['originalName', 'modifiedName']) {
+      if (unified[key] !== undefined && typeof unified[key] !== 'string') {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: `"unified.${key}" must be a string`,
+          requestId: req.id,
+        });
+      }
+    }
+  }
+
+  next();
+}
+
+export function validatePatchRequest(req: Request, res: Response, next: NextFunction) {
+  const { text, patch, options } = req.body;
+
+  if (patch === undefined) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      errorCode: 'MISSING_FIELDS',
+      details: '"patch" field is required',
+      requestId: req.id,
+    });
+  }
+
+  for (const [name, value] of [['patch', patch], ['text', text]]) {
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid field type',
+        errorCode: 'INVALID_TYPE',
+        details: `"${name}" must be a string`,
+        requestId: req.id,
+      });
+    }
+    const MAX_SIZE = 10 * 1024 * 1024; // 10MB
+    if (value.length > MAX_SIZE) {
+      return res.status(400).json({
+        error: 'Request too large',
+        errorCode: 'PAYLOAD_TOO_LARGE',
+        details: `"${name}" exceeds maximum size of ${MAX_SIZE} bytes`,
+        requestId: req.id,
+      });
+    }
+  }
+
+  if (options !== undefined) {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      return res.status(400).json({
+        error: 'Invalid options',
+        errorCode: 'INVALID_OPTIONS',
+        details: '"options" must be an object',
+        requestId: req.id,
+      });
+    }
+
+    for (const key of ['fuzz', 'maxOffset']) {
+      if (options[key] !== undefined && (!Number.isInteger(options[key]) || options[key] < 0)) {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: `"${key}" must be a non-negative integer`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.reverse !== undefined && typeof options.reverse !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid option type',
+        errorCode: 'INVALID_OPTION_TYPE',
+        details: '"reverse" must be a boolean',
+        requestId: req.id,
+      });
+    }
+  }
+
+  next();
+}
+
+export function validateMergeRequest(req: Request, res: Response, next: NextFunction) {
+  const { base, ours, theirs, options } = req.body;
+
+  if (base === undefined || ours === undefined || theirs === undefined) {
+    return res.status(400).json({
+      error: 'Missing required fields',
+      errorCode: 'MISSING_FIELDS',
+      details: '"base", "ours" and "theirs" fields are required',
+      requestId: req.id,
+    });
+  }
+
+  const MAX_SIZE = 10 * 1024 * 1024; // 10MB
+  for (const [name, value] of [['base', base], ['ours', ours], ['theirs', theirs]]) {
+    if (typeof value !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid field type',
+        errorCode: 'INVALID_TYPE',
+        details: `"${name}" must be a string`,
+        requestId: req.id,
+      });
+    }
+    if (value.length > MAX_SIZE) {
+      return res.status(400).json({
+        error: 'Request too large',
+        errorCode: 'PAYLOAD_TOO_LARGE',
+        details: `"${name}" exceeds maximum size of ${MAX_SIZE} bytes`,
+        requestId: req.id,
+      });
+    }
+  }
+
+  if (options !== undefined) {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      return res.status(400).json({
+        error: 'Invalid options',
+        errorCode: 'INVALID_OPTIONS',
+        details: '"options" must be an object',
+        requestId: req.id,
+      });
+    }
+
+    if (options.algorithm !== undefined) {
+      const validAlgorithms = ['myers', 'patience', 'histogram'];
+      if (!validAlgorithms.includes(options.algorithm)) {
+        return res.status(400).json({
+          error: 'Invalid algorithm',
+          errorCode: 'INVALID_ALGORITHM',
+          details: `algorithm must be one of: ${validAlgorithms.join(', ')}`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    for (const key of ['ignoreWhitespace', 'ignoreCase']) {
+      if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: `"${key}" must be a boolean`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.conflictStyle !== undefined) {
+      const validStyles = ['markers', 'diff3', 'list'];
+      if (!validStyles.includes(options.conflictStyle)) {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: `conflictStyle must be one of: ${validStyles.join(', ')}`,
+          requestId: req.id,
+        });
+      }
+    }
+
+    if (options.labels !== undefined) {
+      const { labels } = options;
+      const invalid = typeof labels !== 'object' || labels === null || Array.isArray(labels)
+        || ['ours', 'base', 'theirs'].some(key => labels[key] !== undefined && typeof labels[key] !== 'string');
+      if (invalid) {
+        return res.status(400).json({
+          error: 'Invalid option type',
+          errorCode: 'INVALID_OPTION_TYPE',
+          details: '"labels" must be an object with string "ours", "base" and "theirs" fields',
+          requestId: req.id,
+        });
+      }
+    }
   }
 
   next();
@@ -202,6 +712,53 @@ export function rateLimiter(limiter: any) {
   };
 }
 
+/**
+ * Returns a signal that aborts when the client disconnects before the
+ * response is complete. The request's own `close` event fires as soon as its
+ * body has been read, so the response's is the one that marks a disconnect.
+ */
+export function abortOnClose(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Answers a request whose diff the worker pool refused (queue full) or
+ * abandoned (timeout). A diff aborted because the client left needs no
+ * answer. Returns false for any other error.
+ */
+export function sendPoolError(error: unknown, req: Request, res: Response): boolean {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return true;
+  }
+  if (error instanceof PoolQueueFullError) {
+    res.setHeader('Retry-After', error.retryAfter.toString());
+    res.status(503).json({
+      error: 'Server busy',
+      errorCode: 'SERVER_BUSY',
+      details: 'Too many diffs are queued. Please retry later.',
+      retryAfter: error.retryAfter,
+      requestId: req.id,
+    });
+    return true;
+  }
+  if (error instanceof PoolTimeoutError) {
+    res.status(504).json({
+      error: 'Diff timed out',
+      errorCode: 'DIFF_TIMEOUT',
+      details: error.message,
+      requestId: req.id,
+    });
+    return true;
+  }
+  return false;
+}
+
 // ============================================================================
 // OpenAPI Configuration
 // ============================================================================
@@ -237,9 +794,10 @@ const swaggerOptions: Options = {
           properties: {
             granularity: {
               type: 'string',
-              enum: ['line', 'word', 'character', 'sentence', 'paragraph'],
+              enum: ['line', 'word', 'character', 'sentence', 'paragraph', 'markdown', 'code', 'json', 'csv', 'hierarchical'],
               default: 'line',
-              description: 'Diff granularity level',
+              description:
+                'Diff granularity level; markdown compares headings, list items, table rows and code fences as blocks, code compares source code token by token, json compares two JSON documents by path, csv compares two tables by row and cell, hierarchical returns a paragraph, sentence and word change tree',
             },
             ignoreWhitespace: {
               type: 'boolean',
@@ -251,6 +809,41 @@ const swaggerOptions: Options = {
               default: false,
               description: 'Ignore case differences',
             },
+            normalizers: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['lineEndings', 'trailingWhitespace', 'blankLines', 'nfc', 'nfkc', 'quotes', 'dashes'],
+              },
+              default: [],
+              description:
+                'Normalizations applied in order before comparing: line endings, trailing whitespace, blank lines (line granularity), Unicode NFC/NFKC, curly quotes and dash variants',
+            },
+            masks: {
+              type: 'array',
+              items: {
+                oneOf: [
+                  { type: 'string', enum: ['iso-date', 'uuid', 'hex-hash', 'ip', 'number'] },
+                  {
+                    type: 'object',
+                    properties: {
+                      pattern: { type: 'string', description: 'Regular expression source' },
+                      flags: { type: 'string', description: 'Regular expression flags, e.g. "i"' },
+                      name: { type: 'string', default: 'custom' },
+                    },
+                    required: ['pattern'],
+                  },
+                ],
+              },
+              default: [],
+              description: 'Volatile tokens, such as timestamps and request IDs, that compare as equal placeholders',
+            },
+            locale: {
+              type: 'string',
+              example: 'ja',
+              description:
+                'BCP 47 locale; character granularity then compares grapheme clusters, and word and sentence granularity use Intl.Segmenter with abbreviation-aware sentences',
+            },
             semanticAnalysis: {
               type: 'boolean',
               default: false,
@@ -263,6 +856,144 @@ const swaggerOptions: Options = {
               default: 0.5,
               description: 'Minimum similarity threshold for semantic matching',
             },
+            similarityScorer: {
+              oneOf: [
+                { type: 'string', enum: ['jaccard', 'levenshtein', 'ngram', 'tfidf', 'alignment'] },
+                {
+                  type: 'object',
+                  additionalProperties: { type: 'number', minimum: 0 },
+                  example: { ngram: 2, alignment: 1 },
+                },
+              ],
+              default: 'jaccard',
+              description:
+                'Scorer behind similarity, or scorer names with weights whose weighted average is used; drives line pairing, edited-move detection and explanations',
+            },
+            algorithm: {
+              type: 'string',
+              enum: ['myers', 'patience', 'histogram'],
+              default: 'myers',
+              description: 'Token alignment algorithm',
+            },
+            detectMoves: {
+              type: 'boolean',
+              default: true,
+              description: 'Report blocks that moved as moved changes',
+            },
+            timeoutMs: {
+              type: 'number',
+              minimum: 0,
+              description: 'Time budget; when exceeded the result is coarser and marked approximate',
+            },
+            maxEditCost: {
+              type: 'number',
+              minimum: 0,
+              description: 'Maximum edit steps the engine may explore before falling back',
+            },
+            ignoreKeyOrder: {
+              type: 'boolean',
+              default: true,
+              description: 'Treat objects whose keys only differ in order as equal (json granularity)',
+            },
+            arrayKey: {
+              type: 'string',
+              description: 'Property that identifies array elements, e.g. "id" (json granularity)',
+            },
+            language: {
+              type: 'string',
+              enum: ['javascript', 'typescript', 'python', 'json', 'shell'],
+              default: 'javascript',
+              description: 'Language of the inputs (code granularity)',
+            },
+            ignoreComments: {
+              type: 'boolean',
+              default: false,
+              description: 'Compare code as if its comments were not there (code granularity)',
+            },
+            ignoreStringContents: {
+              type: 'boolean',
+              default: false,
+              description: 'Compare string literals without their contents or quote style (code granularity)',
+            },
+            delimiter: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 1,
+              description: 'Field separator (csv granularity); detected from the first line by default',
+            },
+            keyColumns: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Headers of the columns that identify a row (csv granularity)',
+            },
+          },
+        },
+        UnifiedDiffOptions: {
+          type: 'object',
+          properties: {
+            context: {
+              type: 'integer',
+              minimum: 0,
+              default: 3,
+              description: 'Unchanged lines shown around each change',
+            },
+            originalName: {
+              type: 'string',
+              default: 'original',
+              description: 'Name shown in the --- header',
+            },
+            modifiedName: {
+              type: 'string',
+              default: 'modified',
+              description: 'Name shown in the +++ header',
+            },
+          },
+        },
+        ApplyPatchOptions: {
+          type: 'object',
+          properties: {
+            fuzz: {
+              type: 'integer',
+              minimum: 0,
+              default: 2,
+              description: 'Maximum context lines ignored at each end of a hunk',
+            },
+            maxOffset: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Maximum lines a hunk may move from its expected position (default: unlimited)',
+            },
+            reverse: {
+              type: 'boolean',
+              default: false,
+              description: 'Apply the patch in reverse',
+            },
+          },
+        },
+        Merge3Options: {
+          type: 'object',
+          properties: {
+            algorithm: {
+              type: 'string',
+              enum: ['myers', 'patience', 'histogram'],
+              default: 'myers',
+            },
+            ignoreWhitespace: { type: 'boolean', default: false },
+            ignoreCase: { type: 'boolean', default: false },
+            conflictStyle: {
+              type: 'string',
+              enum: ['markers', 'diff3', 'list'],
+              default: 'markers',
+              description: 'How conflicts are rendered in the merged text',
+            },
+            labels: {
+              type: 'object',
+              properties: {
+                ours: { type: 'string', default: 'ours' },
+                base: { type: 'string', default: 'base' },
+                theirs: { type: 'string', default: 'theirs' },
+              },
+            },
           },
         },
         DiffChange: {
@@ -270,7 +1001,7 @@ const swaggerOptions: Options = {
           properties: {
             type: {
               type: 'string',
-              enum: ['added', 'removed', 'modified', 'unchanged'],
+              enum: ['added', 'removed', 'modified', 'unchanged', 'moved'],
             },
             original: {
               type: 'string',
@@ -290,6 +1021,16 @@ const swaggerOptions: Options = {
               nullable: true,
               description: 'Line number in modified (1-indexed)',
             },
+            originalRange: {
+              allOf: [{ $ref: '#/components/schemas/TextRange' }],
+              nullable: true,
+              description: 'Location of `original` in the original text',
+            },
+            modifiedRange: {
+              allOf: [{ $ref: '#/components/schemas/TextRange' }],
+              nullable: true,
+              description: 'Location of `modified` in the modified text',
+            },
             similarity: {
               type: 'number',
               nullable: true,
@@ -316,9 +1057,217 @@ const swaggerOptions: Options = {
                 },
               },
             },
+            segments: {
+              type: 'object',
+              nullable: true,
+              description: 'What changed inside the text (modified changes only)',
+              properties: {
+                words: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/DiffSegment' },
+                },
+                characters: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/DiffSegment' },
+                },
+              },
+            },
+            move: {
+              type: 'object',
+              nullable: true,
+              description: 'Links the source and destination ends of a moved block',
+              properties: {
+                id: { type: 'number' },
+                side: { type: 'string', enum: ['source', 'destination'] },
+                sourceIndex: { type: 'number', description: 'Index of the first source change' },
+                destinationIndex: { type: 'number', description: 'Index of the first destination change' },
+                sourceLine: { type: 'number', nullable: true },
+                destinationLine: { type: 'number', nullable: true },
+                similarity: { type: 'number', minimum: 0, maximum: 1 },
+              },
+            },
+            path: {
+              type: 'string',
+              nullable: true,
+              description: 'JSONPath of the value, e.g. $.items[3].price (json granularity)',
+            },
+            pathKeys: {
+              type: 'array',
+              nullable: true,
+              items: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+              description: 'Keys from the root to the value',
+            },
+            valueTypes: {
+              type: 'object',
+              nullable: true,
+              description: 'JSON types of the values; they differ when the type changed',
+              properties: {
+                original: { $ref: '#/components/schemas/JsonValueType' },
+                modified: { $ref: '#/components/schemas/JsonValueType' },
+              },
+            },
+            block: {
+              allOf: [{ $ref: '#/components/schemas/MarkdownBlockType' }],
+              nullable: true,
+              description: 'Kind of markdown block the change falls in (markdown granularity)',
+            },
+            headingPath: {
+              type: 'array',
+              nullable: true,
+              items: { type: 'string' },
+              description: 'Headings of the sections containing the change, outermost first',
+            },
+            tokenKind: {
+              allOf: [{ $ref: '#/components/schemas/CodeTokenKind' }],
+              nullable: true,
+              description: 'Kind of token that changed (code granularity)',
+            },
+            category: {
+              type: 'string',
+              enum: ['whitespace', 'case', 'punctuation', 'number', 'typo', 'reorder', 'rephrase', 'rewrite'],
+              nullable: true,
+              description: 'What kind of edit the change is; set on every change that is not unchanged',
+            },
+            quantities: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/QuantityDelta' },
+              description: 'Numbers, amounts, percentages, dates and measures that changed (modified changes with semantic analysis)',
+            },
+            rowKey: {
+              type: 'array',
+              nullable: true,
+              items: { type: 'string' },
+              description: 'Values of the key columns of the row (csv granularity)',
+            },
+            cells: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/TableCell' },
+              description: 'Cells of the row, in the order of the result columns (csv granularity)',
+            },
+            ignored: {
+              type: 'boolean',
+              nullable: true,
+              description: 'Blank line (blankLines normalizer) or trailing whitespace token (trailingWhitespace) only one text has, reported as unchanged; carries only original or modified',
+            },
+            level: {
+              type: 'string',
+              enum: ['paragraph', 'sentence', 'word'],
+              nullable: true,
+              description: 'Level of the change in the change tree (hierarchical granularity)',
+            },
+            children: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/DiffChange' },
+              description: 'Changes one level down inside a modified paragraph or sentence (hierarchical granularity)',
+            },
+            childStats: {
+              allOf: [{ $ref: '#/components/schemas/DiffStats' }],
+              nullable: true,
+              description: 'Statistics of children',
+            },
+            originalMasks: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/MaskedSpan' },
+              description: 'Parts of the original text that a mask matched',
+            },
+            modifiedMasks: {
+              type: 'array',
+              nullable: true,
+              items: { $ref: '#/components/schemas/MaskedSpan' },
+              description: 'Parts of the modified text that a mask matched',
+            },
           },
           required: ['type'],
         },
+        QuantityDelta: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string', enum: ['number', 'currency', 'percentage', 'date', 'measure'] },
+            original: { type: 'string', example: '30 days' },
+            modified: { type: 'string', example: '45 days' },
+            originalValue: { type: 'number', description: 'Parsed value; days since 1970-01-01 for dates' },
+            modifiedValue: { type: 'number' },
+            delta: { type: 'number', description: 'Days for dates, percentage points for percentages' },
+            relativeChange: {
+              type: 'number',
+              nullable: true,
+              example: 0.5,
+              description: 'Delta as a fraction of the original value; absent for dates and when it is 0',
+            },
+            unit: { type: 'string', nullable: true, example: 'day', description: "Currency symbol or code, '%', or singular unit" },
+          },
+          required: ['kind', 'original', 'modified', 'originalValue', 'modifiedValue', 'delta'],
+        },
+        MaskedSpan: {
+          type: 'object',
+          properties: {
+            mask: { type: 'string', description: 'Preset or custom mask name' },
+            start: { type: 'number', description: 'Offset into the change text' },
+            end: { type: 'number', description: 'Offset just past the match' },
+          },
+          required: ['mask', 'start', 'end'],
+        },
+        JsonValueType: {
+          type: 'string',
+          enum: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+        },
+        MarkdownBlockType: {
+          type: 'string',
+          enum: ['front-matter', 'heading', 'paragraph', 'list-item', 'table-row', 'code', 'quote', 'rule'],
+        },
+        TableColumn: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string', enum: ['added', 'removed', 'unchanged'] },
+            key: { type: 'boolean', description: 'Whether rows are matched by this column' },
+          },
+          required: ['name', 'type'],
+        },
+        TableCell: {
+          type: 'object',
+          properties: {
+            column: { type: 'string' },
+            type: { type: 'string', enum: ['added', 'removed', 'modified', 'unchanged'] },
+            original: { type: 'string' },
+            modified: { type: 'string' },
+          },
+          required: ['column', 'type'],
+        },
+        CodeTokenKind: {
+          type: 'string',
+          enum: ['keyword', 'identifier', 'string', 'regex', 'number', 'comment', 'punctuation', 'whitespace'],
+        },
+        TextPosition: {
+          type: 'object',
+          properties: {
+            offset: { type: 'number', description: 'UTF-16 offset into the input (0-indexed)' },
+            line: { type: 'number', description: 'Line number (1-indexed)' },
+            column: { type: 'number', description: 'Column in UTF-16 code units (1-indexed)' },
+          },
+        },
+        TextRange: {
+          type: 'object',
+          properties: {
+            start: { $ref: '#/components/schemas/TextPosition' },
+            end: { $ref: '#/components/schemas/TextPosition', description: 'Exclusive end' },
+          },
+        },
+        DiffSegment: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['equal', 'removed', 'added'],
+            },
+            text: { type: 'string' },
+          },
+          required: ['type', 'text'],
+        },
         DiffStats: {
           type: 'object',
           properties: {
@@ -326,6 +1275,7 @@ const swaggerOptions: Options = {
             removed: { type: 'number' },
             modified: { type: 'number' },
             unchanged: { type: 'number' },
+            moved: { type: 'number', description: 'Moved tokens, counted once at their source' },
           },
         },
         DiffResult: {
@@ -345,6 +1295,29 @@ const swaggerOptions: Options = {
                 cached: { type: 'boolean' },
               },
             },
+            approximate: {
+              type: 'boolean',
+              description: 'Set when a budget ran out and the result is coarser than optimal',
+            },
+            approximateReason: { type: 'string', enum: ['timeout', 'maxEditCost'] },
+            columns: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TableColumn' },
+              description: 'Columns of both tables (csv granularity)',
+            },
+            levelStats: {
+              type: 'object',
+              properties: {
+                paragraph: { $ref: '#/components/schemas/DiffStats' },
+                sentence: { $ref: '#/components/schemas/DiffStats' },
+                word: { $ref: '#/components/schemas/DiffStats' },
+              },
+              description: 'Statistics of each level of the change tree, summed over the tree (hierarchical granularity)',
+            },
+            embeddingError: {
+              type: 'string',
+              description: 'Why the embedding provider failed, when /api/diff/semantic fell back to lexical similarity',
+            },
           },
         },
         Error: {
@@ -497,6 +1470,7 @@ app.get('/api/metrics', rateLimiter(apiRateLimiter), (req: Request, res: Respons
   res.json({
     metrics: metrics.getAll(),
     cache: diffCache.getStats(),
+    pool: diffPool.getStats(),
     rateLimit: {
       diff: diffRateLimiter.getStats(),
       api: apiRateLimiter.getStats(),
@@ -539,9 +1513,33 @@ app.get('/api/docs', (req: Request, res: Response) => {
           original: 'string (required)',
           modified: 'string (required)',
           options: {
-            granularity: "'line' | 'word' | 'character' (default: 'line')",
+            granularity:
+              "'line' | 'word' | 'character' | 'sentence' | 'paragraph' | 'markdown' | 'code' | 'json' | 'csv' | 'hierarchical' (default: 'line')",
             ignoreWhitespace: 'boolean (default: false)',
             ignoreCase: 'boolean (default: false)',
+            normalizers:
+              "Array<'lineEndings' | 'trailingWhitespace' | 'blankLines' | 'nfc' | 'nfkc' | 'quotes' | 'dashes'> (default: [])",
+            masks: "Array<'iso-date' | 'uuid' | 'hex-hash' | 'ip' | 'number' | { pattern, flags?, name? }> (default: [])",
+            locale: 'string (optional, BCP 47; word, character and sentence granularity)',
+            algorithm: "'myers' | 'patience' | 'histogram' (default: 'myers')",
+            detectMoves: 'boolean (default: true)',
+            similarityScorer:
+              "'jaccard' | 'levenshtein' | 'ngram' | 'tfidf' | 'alignment' | Record<scorer, weight> (default: 'jaccard')",
+            timeoutMs: 'number (optional)',
+            maxEditCost: 'number (optional)',
+            ignoreKeyOrder: 'boolean (default: true, json granularity)',
+            arrayKey: 'string (optional, json granularity)',
+            language: "'javascript' | 'typescript' | 'python' | 'json' | 'shell' (default: 'javascript', code granularity)",
+            ignoreComments: 'boolean (default: false, code granularity)',
+            ignoreStringContents: 'boolean (default: false, code granularity)',
+            delimiter: 'string (optional, csv granularity; detected by default)',
+            keyColumns: 'string[] (optional, csv granularity)',
+          },
+          format: "'json' | 'unified' (default: 'json')",
+          unified: {
+            context: 'number (default: 3)',
+            originalName: "string (default: 'original')",
+            modifiedName: "string (default: 'modified')",
           },
         },
         response: {
@@ -552,6 +1550,45 @@ app.get('/api/docs', (req: Request, res: Response) => {
           maxSize: '10MB per field',
         },
       },
+      'POST /api/merge3': {
+        description: 'Three-way merge of two versions edited from a common base',
+        request: {
+          base: 'string (required)',
+          ours: 'string (required)',
+          theirs: 'string (required)',
+          options: {
+            algorithm: "'myers' | 'patience' | 'histogram' (default: 'myers')",
+            ignoreWhitespace: 'boolean (default: false)',
+            ignoreCase: 'boolean (default: false)',
+            conflictStyle: "'markers' | 'diff3' | 'list' (default: 'markers')",
+            labels: '{ ours?, base?, theirs? }',
+          },
+        },
+        response: {
+          merged: 'string',
+          clean: 'boolean',
+          conflicts: 'array',
+          stats: 'object',
+        },
+      },
+      'POST /api/patch': {
+        description: 'Parse a unified diff, or apply it to a text when "text" is given',
+        request: {
+          patch: 'string (required)',
+          text: 'string (optional)',
+          options: {
+            fuzz: 'number (default: 2)',
+            maxOffset: 'number (default: unlimited)',
+            reverse: 'boolean (default: false)',
+          },
+        },
+        response: {
+          text: 'string',
+          success: 'boolean',
+          applied: 'array',
+          rejected: 'array',
+        },
+      },
     },
   });
 });
@@ -578,24 +1615,37 @@ app.get('/api/docs', (req: Request, res: Response) => {
  *                 type: string
  *               options:
  *                 $ref: '#/components/schemas/DiffOptions'
+ *               format:
+ *                 type: string
+ *                 enum: [json, unified]
+ *                 default: json
+ *               unified:
+ *                 $ref: '#/components/schemas/UnifiedDiffOptions'
  *     responses:
  *       200:
- *         description: Diff result
+ *         description: Diff result (JSON), or a unified diff (text/x-diff) when format is "unified"
  *       400:
  *         description: Invalid request
  *       429:
  *         description: Rate limit exceeded
+ *       503:
+ *         description: Diff queue is full; retry after the number of seconds in the Retry-After header
+ *       504:
+ *         description: Diff did not finish within the server's timeout
  */
 app.post(
   '/api/diff',
   rateLimiter(diffRateLimiter),
   validateDiffRequest,
-  (req: Request, res: Response) => {
+  validateFormatRequest,
+  async (req: Request, res: Response) => {
     try {
-      const { original, modified, options } = req.body as {
+      const { original, modified, options, format, unified } = req.body as {
         original: string;
         modified: string;
         options?: DiffOptions;
+        format?: 'json' | 'unified';
+        unified?: UnifiedDiffOptions;
       };
 
       const opts = options || {};
@@ -606,6 +1656,9 @@ app.post(
       if (cached) {
         const duration = Date.now() - startTime;
         res.setHeader('X-Cache', 'HIT');
+        if (format === 'unified') {
+          return res.type('text/x-diff').send(formatUnifiedDiff(cached, unified));
+        }
         return res.json({
           ...cached,
           meta: {
@@ -618,15 +1671,18 @@ app.post(
       }
 
       // Compute diff
-      const result = diff(original, modified, opts);
+      const result = await diffPool.runDiff(original, modified, { ...opts, signal: abortOnClose(res) });
       const duration = Date.now() - startTime;
 
-      // Cache result
-      if (duration < 5000 && result.changes.length < 10000) {
+      // Cache result; approximate results depend on timing and are not reused
+      if (duration < 5000 && result.changes.length < 10000 && !result.approximate) {
         diffCache.set(original, modified, opts, result);
       }
 
       res.setHeader('X-Cache', 'MISS');
+      if (format === 'unified') {
+        return res.type('text/x-diff').send(formatUnifiedDiff(result, unified));
+      }
       res.json({
         ...result,
         meta: {
@@ -637,6 +1693,7 @@ app.post(
         },
       });
     } catch (error) {
+      if (sendPoolError(error, req, res)) return;
       console.error('Diff computation error:', error);
       res.status(500).json({
         error: 'Failed to compute diff',
@@ -655,7 +1712,7 @@ app.post(
   '/api/diff/advanced',
   rateLimiter(diffRateLimiter),
   validateDiffRequest,
-  (req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
       const { original, modified, options } = req.body as {
         original: string;
@@ -665,7 +1722,7 @@ app.post(
 
       const opts = options || {};
       const startTime = Date.now();
-      const result = diff(original, modified, opts);
+      const result = await diffPool.runDiff(original, modified, { ...opts, signal: abortOnClose(res) });
       const duration = Date.now() - startTime;
 
       const insights = computeDiffInsights(result);
@@ -685,6 +1742,7 @@ app.post(
         },
       });
     } catch (error) {
+      if (sendPoolError(error, req, res)) return;
       console.error('Advanced diff error:', error);
       res.status(500).json({
         error: 'Failed to compute advanced diff',
@@ -707,26 +1765,37 @@ app.post('/api/diff/stream', rateLimiter(diffRateLimiter), validateDiffRequest,
       options?: DiffOptions;
     };
 
-    // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
-
     const opts = { ...options, semanticAnalysis: options?.semanticAnalysis ?? true };
-    let lastResult: any = null;
+    const changes: DiffChange[] = [];
+    const signal = abortOnClose(res);
+    let started = false;
+
+    // SSE headers go out with the first event, so a refused job can still get a JSON error
+    const startStream = () => {
+      if (!started) {
+        started = true;
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+      }
+    };
 
     try {
-      for await (const chunk of streamDiff(original, modified, opts)) {
-        if (chunk.complete && chunk.partial) {
+      await diffPool.runStream(original, modified, { ...opts, signal }, event => {
+        startStream();
+        changes.push(...event.changes);
+
+        if (event.complete) {
           // Final result with analysis
-          const insights = computeDiffInsights(chunk.partial);
-          const summary = summarizeChanges(chunk.partial);
+          const result = { changes, stats: event.stats, columns: event.columns, levelStats: event.levelStats };
+          const insights = computeDiffInsights(result);
+          const summary = summarizeChanges(result);
           const originalAnalysis = analyzeText(original);
           const modifiedAnalysis = analyzeText(modified);
 
-          lastResult = {
-            ...chunk.partial,
+          const finalResult = {
+            ...result,
             insights,
             summary,
             analysis: {
@@ -739,16 +1808,25 @@ app.post('/api/diff/stream', rateLimiter(diffRateLimiter), validateDiffRequest,
             },
           };
 
-          res.write(`data: ${JSON.stringify({ type: 'complete', data: lastResult })}\n\n`);
-        } else if (chunk.partial) {
-          res.write(`data: ${JSON.stringify({ type: 'progress', progress: chunk.progress, partial: chunk.partial })}\n\n`);
+          res.write(`data: ${JSON.stringify({ type: 'complete', data: finalResult })}\n\n`);
+        } else {
+          // Only the changes computed since the previous event
+          res.write(`data: ${JSON.stringify({ type: 'progress', progress: event.progress, changes: event.changes, stats: event.stats })}\n\n`);
         }
-      }
+      });
     } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      if (!started) {
+        if (!sendPoolError(error, req, res)) {
+          throw error;
+        }
+        return;
+      }
       res.write(`data: ${JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' })}\n\n`);
-    } finally {
-      res.end();
     }
+    res.end();
   } catch (error) {
     console.error('Stream diff error:', error);
     res.status(500).json({
@@ -802,7 +1880,7 @@ app.post(
   '/api/diff/semantic',
   rateLimiter(diffRateLimiter),
   validateDiffRequest,
-  (req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
       const { original, modified, options } = req.body as {
         original: string;
@@ -817,8 +1895,8 @@ app.post(
       };
       const startTime = Date.now();
 
-      // Check cache
-      const cached = diffCache.get(original, modified, opts);
+      // Check cache; results scored by embeddings are kept apart per provider
+      const cached = diffCache.get(original, modified, opts, embeddingProvider?.name);
       if (cached) {
         const duration = Date.now() - startTime;
         res.setHeader('X-Cache', 'HIT');
@@ -836,18 +1914,24 @@ app.post(
             duration,
             timestamp: new Date().toISOString(),
             options: opts,
+            embeddingProvider: embeddingProvider?.name,
             cached: true,
           },
         });
       }
 
-      // Compute diff with semantic analysis
-      const result = diff(original, modified, opts);
+      // Compute diff with semantic analysis, scoring similarity by embeddings when a provider is configured
+      const signal = abortOnClose(res);
+      const result = embeddingProvider
+        ? await diffWithEmbeddings(original, modified, embeddingProvider, { ...opts, signal }, (o, m, runOptions) =>
+          diffPool.runDiff(o, m, runOptions))
+        : await diffPool.runDiff(original, modified, { ...opts, signal });
       const duration = Date.now() - startTime;
 
-      // Cache result
-      if (duration < 5000 && result.changes.length < 10000) {
-        diffCache.set(original, modified, opts, result);
+      // Cache result; approximate results depend on timing, and a failed
+      // embedding provider may recover, so neither is reused
+      if (duration < 5000 && result.changes.length < 10000 && !result.approximate && !result.embeddingError) {
+        diffCache.set(original, modified, opts, result, embeddingProvider?.name);
       }
 
       const insights = computeDiffInsights(result);
@@ -866,10 +1950,12 @@ app.post(
           duration,
           timestamp: new Date().toISOString(),
           options: opts,
+          embeddingProvider: embeddingProvider?.name,
           cached: false,
         },
       });
     } catch (error) {
+      if (sendPoolError(error, req, res)) return;
       console.error('Semantic diff error:', error);
       res.status(500).json({
         error: 'Failed to compute semantic diff',
@@ -884,7 +1970,7 @@ app.post(
 /**
  * Batch diff endpoint
  */
-app.post('/api/diff/batch', rateLimiter(diffRateLimiter), (req: Request, res: Response) => {
+app.post('/api/diff/batch', rateLimiter(diffRateLimiter), async (req: Request, res: Response) => {
   try {
     const { diffs } = req.body as {
       diffs: Array<{
@@ -909,13 +1995,20 @@ app.post('/api/diff/batch', rateLimiter(diffRateLimiter), (req: Request, res: Re
       });
     }
 
+    // Accept the whole batch or none of it
+    if (!diffPool.hasCapacity(diffs.length)) {
+      sendPoolError(new PoolQueueFullError(diffPool.retryAfter()), req, res);
+      return;
+    }
+
     const startTime = Date.now();
-    const results = diffs.map((diffReq, index) => {
+    const signal = abortOnClose(res);
+    const results = await Promise.all(diffs.map(async (diffReq, index) => {
       try {
-        const result = diff(
+        const result = await diffPool.runDiff(
           diffReq.original,
           diffReq.modified,
-          diffReq.options || {}
+          { ...diffReq.options, signal }
         );
         return {
           id: diffReq.id || `diff-${index}`,
@@ -929,8 +2022,11 @@ app.post('/api/diff/batch', rateLimiter(diffRateLimiter), (req: Request, res: Re
           error: error instanceof Error ? error.message : 'Unknown error',
         };
       }
-    });
+    }));
 
+    if (signal.aborted) {
+      return;
+    }
     const duration = Date.now() - startTime;
 
     res.json({
@@ -954,6 +2050,166 @@ app.post('/api/diff/batch', rateLimiter(diffRateLimiter), (req: Request, res: Re
   }
 });
 
+/**
+ * @swagger
+ * /api/patch:
+ *   post:
+ *     summary: Parse a unified diff and optionally apply it to a text
+ *     tags: [Diff]
+ *     description: Without "text" the parsed patch is returned. With "text" the patch is applied, tolerating moved hunks (offset) and changed context (fuzz); hunks that do not match are reported as rejected.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - patch
+ *             properties:
+ *               patch:
+ *                 type: string
+ *               text:
+ *                 type: string
+ *               options:
+ *                 $ref: '#/components/schemas/ApplyPatchOptions'
+ *     responses:
+ *       200:
+ *         description: Parsed patch, or the patched text with applied and rejected hunks
+ *       400:
+ *         description: Invalid request or malformed patch
+ *       429:
+ *         description: Rate limit exceeded
+ */
+app.post('/api/patch', rateLimiter(diffRateLimiter), validatePatchRequest, (req: Request, res: Response) => {
+  try {
+    const { text, patch, options } = req.body as {
+      text?: string;
+      patch: string;
+      options?: ApplyPatchOptions;
+    };
+
+    const opts = options || {};
+    const startTime = Date.now();
+
+    let patches: ParsedPatch[];
+    try {
+      patches = parsePatch(patch);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid patch',
+        errorCode: 'INVALID_PATCH',
+        details: error instanceof Error ? error.message : 'Malformed patch',
+        requestId: req.id,
+      });
+    }
+
+    if (text === undefined) {
+      return res.json({
+        patches,
+        meta: {
+          duration: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    if (patches.length > 1) {
+      return res.status(400).json({
+        error: 'Invalid patch',
+        errorCode: 'INVALID_PATCH',
+        details: `Patch contains ${patches.length} files; apply them one at a time`,
+        requestId: req.id,
+      });
+    }
+
+    const result = applyPatch(text, patches[0] || { hunks: [] }, opts);
+
+    res.json({
+      ...result,
+      meta: {
+        duration: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        options: opts,
+      },
+    });
+  } catch (error) {
+    console.error('Patch error:', error);
+    res.status(500).json({
+      error: 'Failed to apply patch',
+      errorCode: 'PATCH_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.id,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/merge3:
+ *   post:
+ *     summary: Three-way merge of two versions edited from a common base
+ *     tags: [Diff]
+ *     description: Non-overlapping changes are merged automatically. Overlapping changes are reported as conflicts and rendered with git-style markers, diff3-style markers, or left as the base text (conflictStyle "list").
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - base
+ *               - ours
+ *               - theirs
+ *             properties:
+ *               base:
+ *                 type: string
+ *               ours:
+ *                 type: string
+ *               theirs:
+ *                 type: string
+ *               options:
+ *                 $ref: '#/components/schemas/Merge3Options'
+ *     responses:
+ *       200:
+ *         description: Merged text with conflicts and statistics
+ *       400:
+ *         description: Invalid request
+ *       429:
+ *         description: Rate limit exceeded
+ */
+app.post('/api/merge3', rateLimiter(diffRateLimiter), validateMergeRequest, (req: Request, res: Response) => {
+  try {
+    const { base, ours, theirs, options } = req.body as {
+      base: string;
+      ours: string;
+      theirs: string;
+      options?: Merge3Options;
+    };
+
+    const opts = options || {};
+    const startTime = Date.now();
+    const result = merge3(base, ours, theirs, opts);
+    const duration = Date.now() - startTime;
+
+    res.json({
+      ...result,
+      meta: {
+        duration,
+        timestamp: new Date().toISOString(),
+        options: opts,
+      },
+    });
+  } catch (error) {
+    console.error('Merge error:', error);
+    res.status(500).json({
+      error: 'Failed to merge texts',
+      errorCode: 'MERGE_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      requestId: req.id,
+    });
+  }
+});
+
 // Serve the main HTML page (React app)
 app.get('/', (req: Request, res: Response) => {
   try {
@@ -1000,6 +2256,8 @@ app.use('/api/*', (req: Request, res: Response) => {
       'POST /api/diff/stream',
       'POST /api/diff/batch',
       'POST /api/analyze',
+      'POST /api/patch',
+      'POST /api/merge3',
     ],
   });
 });
@@ -1053,7 +2311,9 @@ async function startServer() {
       console.log(`   POST /api/diff/semantic   - Semantic diff with analysis`);
       console.log(`   POST /api/diff/stream     - Real-time streaming diff (SSE)`);
       console.log(`   POST /api/diff/batch      - Batch diff processing`);
-      console.log(`   POST /api/analyze          - Text content analysis\n`);
+      console.log(`   POST /api/analyze          - Text content analysis`);
+      console.log(`   POST /api/patch            - Parse and apply unified diffs`);
+      console.log(`   POST /api/merge3           - Three-way merge with conflicts\n`);
       console.log(`✨ Modern Features:`);
       console.log(`   📱 PWA Support            - Installable, offline-capable`);
       console.log(`   🔒 Security Headers        - Helmet.js enabled`);
@@ -1065,6 +2325,7 @@ async function startServer() {
     // Graceful shutdown
     process.on('SIGTERM', () => {
       console.log('SIGTERM received, shutting down gracefully...');
+      void diffPool.close();
       server.close(() => {
         console.log('Server closed');
         process.exit(0);
@@ -1073,6 +2334,7 @@ async function startServer() {
 
     process.on('SIGINT', () => {
       console.log('SIGINT received, shutting down gracefully...');
+      void diffPool.close();
       server.close(() => {
         console.log('Server closed');
         process.exit(0);
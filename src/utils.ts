@@ -1,12 +1,15 @@
 /**
- * Utility services: cache, rate limiting, metrics, version
+ * Utility services: cache, rate limiting, metrics, version, worker pool, embeddings
  */
 
 import { createHash } from 'crypto';
 import { readFileSync } from 'fs';
+import { cpus } from 'os';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import type { DiffOptions, DiffResult } from './core.js';
+import { Worker } from 'worker_threads';
+import { createHashingEmbeddingProvider, createOpenAIEmbeddingProvider } from './core.js';
+import type { DiffOptions, DiffResult, DiffStreamEvent, EmbeddingProvider } from './core.js';
 
 // ============================================================================
 // Version
@@ -59,21 +62,41 @@ class DiffCache {
   private readonly TTL: number = 5 * 60 * 1000; // 5 minutes default
   private readonly MAX_SIZE: number = 1000; // Maximum cache entries
 
-  private generateKey(original: string, modified: string, options: DiffOptions): string {
+  /**
+   * `embeddingProvider` names the provider that scored similarity, if any;
+   * semantic results from different providers or models differ
+   */
+  private generateKey(original: string, modified: string, options: DiffOptions, embeddingProvider?: string): string {
     const normalized = JSON.stringify({
       original,
       modified,
+      embeddingProvider,
       options: {
         granularity: options.granularity || 'line',
         ignoreWhitespace: options.ignoreWhitespace || false,
         ignoreCase: options.ignoreCase || false,
+        normalizers: options.normalizers || [],
+        masks: options.masks || [],
+        locale: options.locale,
+        algorithm: options.algorithm || 'myers',
+        detectMoves: options.detectMoves !== false,
+        similarityThreshold: options.similarityThreshold ?? 0.5,
+        similarityScorer: options.similarityScorer || 'jaccard',
+        semanticAnalysis: options.semanticAnalysis || false,
+        ignoreKeyOrder: options.ignoreKeyOrder !== false,
+        arrayKey: options.arrayKey,
+        language: options.language || 'javascript',
+        ignoreComments: options.ignoreComments || false,
+        ignoreStringContents: options.ignoreStringContents || false,
+        delimiter: options.delimiter,
+        keyColumns: options.keyColumns || [],
       },
     });
     return createHash('sha256').update(normalized).digest('hex');
   }
 
-  get(original: string, modified: string, options: DiffOptions): DiffResult | null {
-    const key = this.generateKey(original, modified, options);
+  get(original: string, modified: string, options: DiffOptions, embeddingProvider?: string): DiffResult | null {
+    const key = this.generateKey(original, modified, options, embeddingProvider);
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -88,12 +111,19 @@ class DiffCache {
     return entry.result;
   }
 
-  set(original: string, modified: string, options: DiffOptions, result: DiffResult, ttl?: number): void {
+  set(
+    original: string,
+    modified: string,
+    options: DiffOptions,
+    result: DiffResult,
+    embeddingProvider?: string,
+    ttl?: number
+  ): void {
     if (this.cache.size >= this.MAX_SIZE) {
       this.evictOldest();
     }
 
-    const key = this.generateKey(original, modified, options);
+    const key = this.generateKey(original, modified, options, embeddingProvider);
     const now = Date.now();
     const expiresAt = now + (ttl || this.TTL);
 
@@ -168,7 +198,7 @@ setInterval(() => {
   if (cleaned > 0) {
     console.log(`Cache cleanup: removed ${cleaned} expired entries`);
   }
-}, 60 * 1000);
+}, 60 * 1000).unref();
 
 // ============================================================================
 // Rate Limiting
@@ -251,7 +281,7 @@ export const apiRateLimiter = new RateLimiter(1000, 60 * 1000); // 1000 requests
 setInterval(() => {
   diffRateLimiter.cleanup();
   apiRateLimiter.cleanup();
-}, 5 * 60 * 1000);
+}, 5 * 60 * 1000).unref();
 
 // ============================================================================
 // Metrics
@@ -263,6 +293,8 @@ interface MetricEntry {
   minDuration: number;
   maxDuration: number;
   errors: number;
+  /** Requests the client abandoned before the response was sent */
+  aborted: number;
 }
 
 class MetricsCollector {
@@ -270,13 +302,7 @@ class MetricsCollector {
   private readonly MAX_ENTRIES = 1000;
 
   record(endpoint: string, duration: number, isError: boolean = false): void {
-    const entry = this.metrics.get(endpoint) || {
-      count: 0,
-      totalDuration: 0,
-      minDuration: Infinity,
-      maxDuration: 0,
-      errors: 0,
-    };
+    const entry = this.entry(endpoint);
 
     entry.count++;
     entry.totalDuration += duration;
@@ -285,15 +311,14 @@ class MetricsCollector {
     if (isError) {
       entry.errors++;
     }
+  }
 
-    this.metrics.set(endpoint, entry);
-
-    if (this.metrics.size > this.MAX_ENTRIES) {
-      const firstKey = this.metrics.keys().next().value;
-      if (firstKey) {
-        this.metrics.delete(firstKey);
-      }
-    }
+  /**
+   * Counts a request abandoned by the client. Aborted requests are kept out
+   * of the count and durations, so they do not skew response times.
+   */
+  recordAborted(endpoint: string): void {
+    this.entry(endpoint).aborted++;
   }
 
   get(endpoint: string): MetricEntry | null {
@@ -317,6 +342,370 @@ class MetricsCollector {
   reset(): void {
     this.metrics.clear();
   }
+
+  private entry(endpoint: string): MetricEntry {
+    let entry = this.metrics.get(endpoint);
+    if (!entry) {
+      entry = {
+        count: 0,
+        totalDuration: 0,
+        minDuration: Infinity,
+        maxDuration: 0,
+        errors: 0,
+        aborted: 0,
+      };
+      this.metrics.set(endpoint, entry);
+
+      if (this.metrics.size > this.MAX_ENTRIES) {
+        const firstKey = this.metrics.keys().next().value;
+        if (firstKey) {
+          this.metrics.delete(firstKey);
+        }
+      }
+    }
+    return entry;
+  }
 }
 
 export const metrics = new MetricsCollector();
+
+// ============================================================================
+// Worker Pool
+// ============================================================================
+
+/**
+ * A job posted to a diff worker
+ */
+export type DiffWorkerJob =
+  | { id: number; kind: 'diff'; original: string; modified: string; options: DiffOptions }
+  | { id: number; kind: 'stream'; original: string; modified: string; options: DiffOptions; chunkSize?: number };
+
+/**
+ * A message posted back by a diff worker
+ */
+export type DiffWorkerReply =
+  | { id: number; type: 'result'; result: DiffResult }
+  | { id: number; type: 'event'; event: DiffStreamEvent }
+  | { id: number; type: 'done' }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Rejects a job because the pool's queue is full
+ */
+export class PoolQueueFullError extends Error {
+  /** Suggested wait before retrying, in seconds */
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super('Diff queue is full');
+    this.name = 'PoolQueueFullError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Rejects a job that did not finish within the pool's timeout
+ */
+export class PoolTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Diff did not finish within ${timeoutMs}ms`);
+    this.name = 'PoolTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+interface PoolTask {
+  job: DiffWorkerJob;
+  onEvent?: (event: DiffStreamEvent) => void;
+  resolve: (result?: DiffResult) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  startedAt?: number;
+  /** Removes the abort listener from the caller's signal */
+  detach?: () => void;
+}
+
+interface PoolSlot {
+  worker: Worker;
+  task: PoolTask | null;
+}
+
+/**
+ * Runs diffs on a fixed number of worker threads. Jobs wait in a bounded
+ * queue; when it is full new jobs are rejected straight away so the server
+ * can answer with backpressure. The timeout covers queueing and running;
+ * a worker that runs past it is terminated and replaced. An `options.signal`
+ * is honoured the same way: an aborted job leaves the queue, or its worker
+ * is terminated, and the promise rejects with the signal's reason.
+ */
+export class DiffWorkerPool {
+  private slots: PoolSlot[] = [];
+  private queue: PoolTask[] = [];
+  private nextId = 1;
+  private busyTime = 0;
+  private counters = { completed: 0, failed: 0, timedOut: 0, rejected: 0, aborted: 0 };
+  private readonly size: number;
+  private readonly maxQueue: number;
+  private readonly timeoutMs: number;
+  private readonly workerUrl: URL;
+
+  constructor(
+    size: number,
+    maxQueue: number,
+    timeoutMs: number,
+    workerUrl: URL = new URL('./worker.js', import.meta.url)
+  ) {
+    this.size = size;
+    this.maxQueue = maxQueue;
+    this.timeoutMs = timeoutMs;
+    this.workerUrl = workerUrl;
+  }
+
+  runDiff(original: string, modified: string, options: DiffOptions): Promise<DiffResult> {
+    return this.submit({ id: 0, kind: 'diff', original, modified, options }) as Promise<DiffResult>;
+  }
+
+  async runStream(
+    original: string,
+    modified: string,
+    options: DiffOptions,
+    onEvent: (event: DiffStreamEvent) => void,
+    chunkSize?: number
+  ): Promise<void> {
+    await this.submit({ id: 0, kind: 'stream', original, modified, options, chunkSize }, onEvent);
+  }
+
+  /**
+   * Whether `jobs` more jobs would be accepted right now
+   */
+  hasCapacity(jobs: number = 1): boolean {
+    const idle = this.size - this.slots.filter(slot => slot.task).length;
+    return idle + this.maxQueue - this.queue.length >= jobs;
+  }
+
+  /**
+   * Estimates how long until a queued job would start, in seconds
+   */
+  retryAfter(): number {
+    const avgDuration = this.counters.completed > 0 ? this.busyTime / this.counters.completed : 1000;
+    return Math.max(1, Math.ceil(((this.queue.length / this.size) + 1) * avgDuration / 1000));
+  }
+
+  getStats() {
+    const busy = this.slots.filter(slot => slot.task).length;
+    return {
+      size: this.size,
+      busy,
+      idle: this.size - busy,
+      utilization: Math.round((busy / this.size) * 10000) / 100,
+      queued: this.queue.length,
+      maxQueue: this.maxQueue,
+      timeoutMs: this.timeoutMs,
+      avgDuration: this.counters.completed > 0 ? this.busyTime / this.counters.completed : 0,
+      ...this.counters,
+    };
+  }
+
+  /**
+   * Rejects queued jobs and terminates every worker
+   */
+  async close(): Promise<void> {
+    for (const task of this.queue.splice(0)) {
+      clearTimeout(task.timer);
+      task.detach?.();
+      task.reject(new Error('Worker pool closed'));
+    }
+    await Promise.all(this.slots.splice(0).map(slot => {
+      if (slot.task) {
+        clearTimeout(slot.task.timer);
+        slot.task.detach?.();
+        slot.task.reject(new Error('Worker pool closed'));
+      }
+      return slot.worker.terminate();
+    }));
+  }
+
+  private submit(job: DiffWorkerJob, onEvent?: (event: DiffStreamEvent) => void): Promise<DiffResult | undefined> {
+    // A signal cannot be posted to a worker; the pool acts on it instead
+    const { signal, ...options } = job.options;
+    if (signal?.aborted) {
+      this.counters.aborted++;
+      return Promise.reject(signal.reason);
+    }
+    if (!this.hasCapacity()) {
+      this.counters.rejected++;
+      return Promise.reject(new PoolQueueFullError(this.retryAfter()));
+    }
+
+    return new Promise((resolve, reject) => {
+      const task: PoolTask = {
+        job: { ...job, id: this.nextId++, options },
+        onEvent,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.counters.timedOut++;
+          this.cancel(task, new PoolTimeoutError(this.timeoutMs));
+        }, this.timeoutMs),
+      };
+      if (signal) {
+        const onAbort = () => {
+          this.counters.aborted++;
+          this.cancel(task, signal.reason);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        task.detach = () => signal.removeEventListener('abort', onAbort);
+      }
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(candidate => !candidate.task);
+      if (!slot) {
+        if (this.slots.length >= this.size) {
+          return;
+        }
+        slot = this.spawn();
+      }
+
+      const task = this.queue.shift()!;
+      task.startedAt = Date.now();
+      slot.task = task;
+      slot.worker.postMessage(task.job);
+    }
+  }
+
+  private spawn(): PoolSlot {
+    const worker = new Worker(this.workerUrl);
+    const slot: PoolSlot = { worker, task: null };
+
+    worker.on('message', (reply: DiffWorkerReply) => {
+      const task = slot.task;
+      if (!task || reply.id !== task.job.id) {
+        return;
+      }
+      switch (reply.type) {
+        case 'event':
+          task.onEvent?.(reply.event);
+          break;
+        case 'result':
+          this.finish(slot, undefined, reply.result);
+          break;
+        case 'done':
+          this.finish(slot);
+          break;
+        case 'error':
+          this.finish(slot, new Error(reply.message));
+          break;
+      }
+    });
+
+    // A crashed or exited worker is dropped and its job fails; dispatch() starts a replacement.
+    // Workers terminated by cancel() are already gone from the slots.
+    const drop = (error: Error) => {
+      if (!this.slots.includes(slot)) {
+        return;
+      }
+      this.slots = this.slots.filter(candidate => candidate !== slot);
+      if (slot.task) {
+        this.finish(slot, error);
+      } else {
+        this.dispatch();
+      }
+    };
+    worker.on('error', drop);
+    worker.on('exit', code => drop(new Error(`Diff worker exited with code ${code}`)));
+
+    // Idle workers must not keep the process alive
+    worker.unref();
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private finish(slot: PoolSlot, error?: Error, result?: DiffResult): void {
+    const task = slot.task!;
+    clearTimeout(task.timer);
+    task.detach?.();
+    this.busyTime += Date.now() - (task.startedAt ?? Date.now());
+    slot.task = null;
+
+    if (error) {
+      this.counters.failed++;
+      task.reject(error);
+    } else {
+      this.counters.completed++;
+      task.resolve(result);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Drops a job that timed out or was aborted. A running job cannot be
+   * interrupted, so its worker is terminated and replaced.
+   */
+  private cancel(task: PoolTask, error: Error): void {
+    clearTimeout(task.timer);
+    task.detach?.();
+
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      const slot = this.slots.find(candidate => candidate.task === task);
+      if (slot) {
+        this.busyTime += Date.now() - (task.startedAt ?? Date.now());
+        slot.task = null;
+        this.slots = this.slots.filter(candidate => candidate !== slot);
+        void slot.worker.terminate();
+      }
+    }
+
+    task.reject(error);
+    this.dispatch();
+  }
+}
+
+export const diffPool = new DiffWorkerPool(
+  Number(process.env.DIFF_WORKERS) || Math.max(1, Math.min(4, cpus().length - 1)),
+  Number(process.env.DIFF_QUEUE_LIMIT) || 50,
+  Number(process.env.DIFF_TIMEOUT_MS) || 30000
+);
+
+// ============================================================================
+// Embeddings
+// ============================================================================
+
+/**
+ * The provider behind semantic diffs, from the environment:
+ * EMBEDDING_PROVIDER=openai with EMBEDDING_MODEL (and optionally
+ * EMBEDDING_URL, EMBEDDING_API_KEY, EMBEDDING_TIMEOUT_MS), or
+ * EMBEDDING_PROVIDER=hashing. Unset, semantic diffs stay lexical.
+ */
+function createEmbeddingProvider(): EmbeddingProvider | undefined {
+  switch (process.env.EMBEDDING_PROVIDER) {
+    case undefined:
+    case '':
+      return undefined;
+    case 'hashing':
+      return createHashingEmbeddingProvider();
+    case 'openai':
+      if (!process.env.EMBEDDING_MODEL) {
+        throw new Error('EMBEDDING_PROVIDER=openai needs EMBEDDING_MODEL');
+      }
+      return createOpenAIEmbeddingProvider({
+        baseUrl: process.env.EMBEDDING_URL,
+        model: process.env.EMBEDDING_MODEL,
+        apiKey: process.env.EMBEDDING_API_KEY,
+        timeoutMs: Number(process.env.EMBEDDING_TIMEOUT_MS) || undefined,
+      });
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${process.env.EMBEDDING_PROVIDER}`);
+  }
+}
+
+export const embeddingProvider = createEmbeddingProvider();
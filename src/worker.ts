@@ -0,0 +1,30 @@
+/**
+ * Worker thread entry for the diff pool: runs jobs posted by the server
+ * so large diffs do not block its event loop
+ */
+
+import { parentPort } from 'worker_threads';
+import { diff, streamDiff } from './core.js';
+import type { DiffWorkerJob, DiffWorkerReply } from './utils.js';
+
+if (!parentPort) {
+  throw new Error('worker.ts must be started as a worker thread');
+}
+
+const port = parentPort;
+const reply = (message: DiffWorkerReply) => port.postMessage(message);
+
+port.on('message', async (job: DiffWorkerJob) => {
+  try {
+    if (job.kind === 'diff') {
+      reply({ id: job.id, type: 'result', result: diff(job.original, job.modified, job.options) });
+    } else {
+      for await (const event of streamDiff(job.original, job.modified, job.options, job.chunkSize)) {
+        reply({ id: job.id, type: 'event', event });
+      }
+      reply({ id: job.id, type: 'done' });
+    }
+  } catch (error) {
+    reply({ id: job.id, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});